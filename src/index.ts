@@ -5,8 +5,15 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
   CallToolRequestSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import axios from "axios";
 
@@ -17,31 +24,86 @@ import {
   handleUpdateNoteRequest,
   handleDeleteNoteRequest,
   handleGetNoteRequest,
-  handleSearchReplaceNoteRequest
+  handleSearchReplaceNoteRequest,
+  handleEditSectionRequest,
+  handleBulkSearchReplaceRequest,
+  handleCreateNoteTreeRequest,
+  handleImportMarkdownDirectoryRequest,
+  handleExportSubtreeRequest,
+  handleImportZipRequest,
+  handleGetNoteTreeRequest
 } from "./modules/noteHandler.js";
 import {
   handleSearchNotesRequest
 } from "./modules/searchHandler.js";
 import { handleResolveNoteRequest } from "./modules/resolveHandler.js";
 import { handleManageAttributes, handleReadAttributes } from "./modules/attributeHandler.js";
+import {
+  handleMoveNoteRequest,
+  handleCloneNoteRequest,
+  handleRemoveFromParentRequest,
+  handleUpdateBranchRequest,
+  handleReorderChildrenRequest
+} from "./modules/branchHandler.js";
+import { handleRestoreNoteRequest, handlePurgeTrashRequest } from "./modules/trashHandler.js";
+import { DeleteMode } from "./modules/trashManager.js";
+import {
+  handleListOperationsRequest,
+  handleUndoLastOperationRequest,
+  handleUndoOperationRequest
+} from "./modules/journalHandler.js";
+import {
+  handleListResourcesRequest,
+  handleListResourceTemplatesRequest,
+  handleReadResourceRequest,
+  handleSubscribeRequest,
+  handleUnsubscribeRequest
+} from "./modules/resourceHandler.js";
+import { ResourceChangePoller } from "./modules/resourceSubscriptionManager.js";
+import { handleListPromptsRequest, handleGetPromptRequest } from "./modules/promptHandler.js";
+import { PromptDefinition, loadCustomPrompts } from "./modules/promptDefinitions.js";
+import { InstanceRegistry, loadInstanceRegistry } from "./modules/instanceManager.js";
+import { handleListInstancesRequest, resolveInstance } from "./modules/instanceHandler.js";
+import { startHttpTransport, HttpTransportHandle } from "./modules/httpTransport.js";
 
 const TRILIUM_API_URL = process.env.TRILIUM_API_URL;
 const TRILIUM_API_TOKEN = process.env.TRILIUM_API_TOKEN;
 const PERMISSIONS = process.env.PERMISSIONS || "READ;WRITE";
+const MCP_TRANSPORT = process.env.MCP_TRANSPORT || "stdio";
+const MCP_HTTP_HOST = process.env.MCP_HTTP_HOST || "127.0.0.1";
+const MCP_HTTP_PORT = parseInt(process.env.MCP_HTTP_PORT || "3000", 10);
+const MCP_AUTH_TOKEN = process.env.MCP_AUTH_TOKEN;
+const RESOURCE_POLL_INTERVAL_MS = parseInt(process.env.RESOURCE_POLL_INTERVAL_MS || "30000", 10);
+const PROMPTS_CONFIG = process.env.PROMPTS_CONFIG;
+const TRILIUM_INSTANCES_CONFIG = process.env.TRILIUM_INSTANCES_CONFIG;
+const DELETE_MODE = process.env.DELETE_MODE || "hard";
+const TRASH_NOTE_ID = process.env.TRASH_NOTE_ID;
 
-if (!TRILIUM_API_TOKEN) {
-  throw new Error("TRILIUM_API_TOKEN environment variable is required");
+if (DELETE_MODE !== "hard" && DELETE_MODE !== "soft") {
+  throw new Error(`Invalid DELETE_MODE: '${DELETE_MODE}'. Must be either 'hard' or 'soft'`);
 }
 
 class TriliumServer {
-  private server: Server;
-  private axiosInstance;
-  private allowedPermissions: string[];
+  private instances: InstanceRegistry;
+  private customPrompts: PromptDefinition[];
 
   constructor() {
-    this.allowedPermissions = PERMISSIONS.split(';');
+    this.instances = loadInstanceRegistry(TRILIUM_INSTANCES_CONFIG, {
+      url: TRILIUM_API_URL,
+      token: TRILIUM_API_TOKEN,
+      permissions: PERMISSIONS,
+      deleteMode: DELETE_MODE as DeleteMode,
+      trashNoteId: TRASH_NOTE_ID
+    });
+    this.customPrompts = PROMPTS_CONFIG ? loadCustomPrompts(PROMPTS_CONFIG) : [];
+  }
 
-    this.server = new Server(
+  /**
+   * Create an MCP server instance with all handlers registered
+   * The stdio transport uses a single instance, the HTTP transport one per session
+   */
+  createServer(): Server {
+    const server = new Server(
       {
         name: "triliumnext-mcp",
         version: "0.3.13",
@@ -49,74 +111,127 @@ class TriliumServer {
       {
         capabilities: {
           tools: {},
+          resources: {
+            subscribe: true,
+          },
+          prompts: {},
         },
       }
     );
 
-    this.axiosInstance = axios.create({
-      baseURL: TRILIUM_API_URL,
-      headers: {
-        Authorization: TRILIUM_API_TOKEN
-      }
-    });
+    this.setupToolHandlers(server);
+    this.setupResourceHandlers(server);
+    this.setupPromptHandlers(server);
 
-    this.setupToolHandlers();
-
-    this.server.onerror = (error) => console.error("[MCP Error]", error);
-    process.on("SIGINT", async () => {
-      await this.server.close();
-      process.exit(0);
-    });
-  }
-
-  hasPermission(permission: string): boolean {
-    return this.allowedPermissions.includes(permission);
+    server.onerror = (error) => console.error("[MCP Error]", error);
+    return server;
   }
 
-  private setupToolHandlers() {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      // Generate standard tools based on permissions
-      const tools = generateTools(this);
-
+  private setupToolHandlers(server: Server) {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      // Generate standard tools based on the permissions of all instances
+      const tools = generateTools(this.instances, this.instances.names());
 
       return { tools };
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
       if (!request.params.arguments) {
         throw new McpError(ErrorCode.InvalidParams, "Arguments are required");
       }
 
+      // Every call runs against one instance, with that instance's permissions
+      const instance = resolveInstance(request.params.arguments, this.instances);
+      const axiosInstance = instance.axiosInstance;
+
       try {
         switch (request.params.name) {
           // Note management operations
           case "create_note":
-            return await handleCreateNoteRequest(request.params.arguments, this.axiosInstance, this);
+            return await handleCreateNoteRequest(request.params.arguments, axiosInstance, instance);
+
+          case "create_note_tree":
+            return await handleCreateNoteTreeRequest(request.params.arguments, axiosInstance, instance);
+
+          case "import_markdown_directory":
+            return await handleImportMarkdownDirectoryRequest(request.params.arguments, axiosInstance, instance);
+
+          case "import_zip":
+            return await handleImportZipRequest(request.params.arguments, axiosInstance, instance);
 
           case "update_note":
-            return await handleUpdateNoteRequest(request.params.arguments, this.axiosInstance, this);
+            return await handleUpdateNoteRequest(request.params.arguments, axiosInstance, instance);
 
           case "delete_note":
-            return await handleDeleteNoteRequest(request.params.arguments, this.axiosInstance, this);
+            return await handleDeleteNoteRequest(request.params.arguments, axiosInstance, instance, instance.trash);
 
           case "get_note":
-            return await handleGetNoteRequest(request.params.arguments, this.axiosInstance, this);
+            return await handleGetNoteRequest(request.params.arguments, axiosInstance, instance);
+
+          case "get_note_tree":
+            return await handleGetNoteTreeRequest(request.params.arguments, axiosInstance, instance);
+
+          case "export_subtree":
+            return await handleExportSubtreeRequest(request.params.arguments, axiosInstance, instance);
 
           case "search_and_replace_note":
-            return await handleSearchReplaceNoteRequest(request.params.arguments, this.axiosInstance, this);
+            return await handleSearchReplaceNoteRequest(request.params.arguments, axiosInstance, instance);
+
+          case "edit_section":
+            return await handleEditSectionRequest(request.params.arguments, axiosInstance, instance);
+
+          case "bulk_search_replace":
+            return await handleBulkSearchReplaceRequest(request.params.arguments, axiosInstance, instance);
 
           // Search and listing operations
           case "search_notes":
-            return await handleSearchNotesRequest(request.params.arguments, this.axiosInstance, this);
+            return await handleSearchNotesRequest(request.params.arguments, axiosInstance, instance);
 
           case "resolve_note_id":
-            return await handleResolveNoteRequest(request.params.arguments, this, this.axiosInstance);
+            return await handleResolveNoteRequest(request.params.arguments, instance, axiosInstance);
 
           case "read_attributes":
-            return await handleReadAttributes(request.params.arguments as any, this.axiosInstance, this);
+            return await handleReadAttributes(request.params.arguments as any, axiosInstance, instance);
 
           case "manage_attributes":
-            return await handleManageAttributes(request.params.arguments as any, this.axiosInstance, this);
+            return await handleManageAttributes(request.params.arguments as any, axiosInstance, instance);
+
+          // Branch (tree placement) operations
+          case "move_note":
+            return await handleMoveNoteRequest(request.params.arguments, axiosInstance, instance);
+
+          case "clone_note":
+            return await handleCloneNoteRequest(request.params.arguments, axiosInstance, instance);
+
+          case "remove_from_parent":
+            return await handleRemoveFromParentRequest(request.params.arguments, axiosInstance, instance);
+
+          case "update_branch":
+            return await handleUpdateBranchRequest(request.params.arguments, axiosInstance, instance);
+
+          case "reorder_children":
+            return await handleReorderChildrenRequest(request.params.arguments, axiosInstance, instance);
+
+          // Trash operations (soft delete mode)
+          case "restore_note":
+            return await handleRestoreNoteRequest(request.params.arguments, axiosInstance, instance, instance.trash);
+
+          case "purge_trash":
+            return await handlePurgeTrashRequest(request.params.arguments, axiosInstance, instance, instance.trash);
+
+          // Operation journal
+          case "list_operations":
+            return await handleListOperationsRequest(request.params.arguments, instance);
+
+          case "undo_last_operation":
+            return await handleUndoLastOperationRequest(request.params.arguments, instance);
+
+          case "undo_operation":
+            return await handleUndoOperationRequest(request.params.arguments, instance);
+
+          // Instance operations
+          case "list_instances":
+            return await handleListInstancesRequest(this.instances);
 
           default:
             throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${request.params.name}`);
@@ -133,10 +248,97 @@ class TriliumServer {
     });
   }
 
+  /**
+   * Resources and prompts are served from the default instance
+   */
+  private setupResourceHandlers(server: Server) {
+    const instance = this.instances.getDefault();
+
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return await handleListResourcesRequest(instance.axiosInstance, instance);
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return await handleListResourceTemplatesRequest(instance);
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      return await handleReadResourceRequest(request.params, instance.axiosInstance, instance);
+    });
+
+    // One poller per server instance, so every HTTP session only hears about its own subscriptions
+    const poller = new ResourceChangePoller(
+      instance.axiosInstance,
+      (uri) => server.sendResourceUpdated({ uri }),
+      RESOURCE_POLL_INTERVAL_MS
+    );
+    server.onclose = () => poller.close();
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      return await handleSubscribeRequest(request.params, poller, instance);
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      return await handleUnsubscribeRequest(request.params, poller);
+    });
+  }
+
+  private setupPromptHandlers(server: Server) {
+    const instance = this.instances.getDefault();
+
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return await handleListPromptsRequest(instance, this.customPrompts);
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      return await handleGetPromptRequest(request.params, instance, this.customPrompts);
+    });
+  }
+
   async run() {
+    if (MCP_TRANSPORT === "http") {
+      await this.runHttp();
+      return;
+    }
+
+    if (MCP_TRANSPORT !== "stdio") {
+      throw new Error(`Invalid MCP_TRANSPORT: '${MCP_TRANSPORT}'. Must be either 'stdio' or 'http'`);
+    }
+
+    const server = this.createServer();
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await server.connect(transport);
     console.error("TriliumNext MCP server running on stdio");
+
+    process.on("SIGINT", async () => {
+      await server.close();
+      process.exit(0);
+    });
+  }
+
+  private async runHttp() {
+    if (isNaN(MCP_HTTP_PORT)) {
+      throw new Error(`Invalid MCP_HTTP_PORT: '${process.env.MCP_HTTP_PORT}'`);
+    }
+
+    const handle: HttpTransportHandle = await startHttpTransport(() => this.createServer(), {
+      host: MCP_HTTP_HOST,
+      port: MCP_HTTP_PORT,
+      authToken: MCP_AUTH_TOKEN
+    });
+    console.error(`TriliumNext MCP server running on http://${MCP_HTTP_HOST}:${MCP_HTTP_PORT}/mcp (SSE fallback at /sse)`);
+
+    let shuttingDown = false;
+    const shutdown = async (signal: string) => {
+      if (shuttingDown) return;
+      shuttingDown = true;
+      console.error(`Received ${signal}, closing HTTP sessions...`);
+      await handle.close();
+      process.exit(0);
+    };
+
+    process.on("SIGINT", () => shutdown("SIGINT"));
+    process.on("SIGTERM", () => shutdown("SIGTERM"));
   }
 }
 
@@ -6,6 +6,7 @@
 import { AxiosInstance } from 'axios';
 import axios from 'axios';
 import { logVerbose, logVerboseApi, logVerboseAxiosError } from "../utils/verboseUtils.js";
+import { recordOperation } from "./journalManager.js";
 
 export interface Attribute {
   type: "label" | "relation";
@@ -25,6 +26,11 @@ export interface ManageAttributesParams {
   attributes: Attribute[];
 }
 
+export interface ManageAttributesOptions {
+  // Record the change in the operation journal (default: true); off for internal bookkeeping labels
+  journal?: boolean;
+}
+
 export interface AttributeOperationResult {
   success: boolean;
   message: string;
@@ -44,21 +50,24 @@ export interface AttributeOperationResult {
  */
 export async function manage_attributes(
   params: ManageAttributesParams,
-  axiosInstance: AxiosInstance
+  axiosInstance: AxiosInstance,
+  options: ManageAttributesOptions = {}
 ): Promise<AttributeOperationResult> {
+  const journal = options.journal !== false;
+
   try {
     switch (params.operation) {
       case "create":
-        return await create_single_attribute(params.noteId, params.attributes[0], axiosInstance);
+        return await create_single_attribute(params.noteId, params.attributes[0], axiosInstance, journal);
 
       case "batch_create":
-        return await create_batch_attributes(params.noteId, params.attributes, axiosInstance);
+        return await create_batch_attributes(params.noteId, params.attributes, axiosInstance, journal);
 
       case "update":
-        return await update_attribute(params.noteId, params.attributes[0], axiosInstance);
+        return await update_attribute(params.noteId, params.attributes[0], axiosInstance, journal);
 
       case "delete":
-        return await delete_attribute(params.noteId, params.attributes[0], axiosInstance);
+        return await delete_attribute(params.noteId, params.attributes[0], axiosInstance, journal);
 
       default:
         return {
@@ -82,7 +91,8 @@ export async function manage_attributes(
 async function create_single_attribute(
   noteId: string,
   attribute: Attribute,
-  axiosInstance: AxiosInstance
+  axiosInstance: AxiosInstance,
+  journal: boolean
 ): Promise<AttributeOperationResult> {
   try {
     // Validate attribute
@@ -111,6 +121,15 @@ async function create_single_attribute(
       attributeData
     );
 
+    if (journal) {
+      recordOperation(axiosInstance, {
+        operation: "manage_attributes",
+        noteId,
+        description: `Created ${attribute.type} '${attribute.name}' on note ${noteId}`,
+        undo: [{ action: 'deleteAttribute', attributeId: response.data.attributeId }]
+      });
+    }
+
     return {
       success: true,
       message: `Successfully created ${attribute.type} '${attribute.name}' on note ${noteId}`,
@@ -131,7 +150,8 @@ async function create_single_attribute(
 async function create_batch_attributes(
   noteId: string,
   attributes: Attribute[],
-  axiosInstance: AxiosInstance
+  axiosInstance: AxiosInstance,
+  journal: boolean
 ): Promise<AttributeOperationResult> {
   if (!attributes.length) {
     return {
@@ -189,6 +209,16 @@ async function create_batch_attributes(
   const successCount = results.length;
   const totalCount = attributes.length;
 
+  // One entry for the whole batch, covering only the attributes that were actually created
+  if (journal) {
+    recordOperation(axiosInstance, {
+      operation: "manage_attributes",
+      noteId,
+      description: `Created ${successCount} attribute(s) on note ${noteId}: ${results.map(attr => `${attr.type} '${attr.name}'`).join(', ')}`,
+      undo: results.map((attr: any) => ({ action: 'deleteAttribute' as const, attributeId: attr.attributeId }))
+    });
+  }
+
   return {
     success: successCount > 0,
     message: `Created ${successCount}/${totalCount} attributes successfully${errors.length > 0 ? ` with ${errors.length} errors` : ''}`,
@@ -203,7 +233,8 @@ async function create_batch_attributes(
 async function update_attribute(
   noteId: string,
   attribute: Attribute,
-  axiosInstance: AxiosInstance
+  axiosInstance: AxiosInstance,
+  journal: boolean
 ): Promise<AttributeOperationResult> {
   try {
     // For update, we need the attribute ID, which requires finding it first
@@ -266,6 +297,20 @@ async function update_attribute(
       updateData
     );
 
+    if (journal) {
+      recordOperation(axiosInstance, {
+        operation: "manage_attributes",
+        noteId,
+        description: `Updated ${attribute.type} '${attribute.name}' on note ${noteId}`,
+        undo: [{
+          action: 'updateAttribute',
+          attributeId: targetAttribute.attributeId,
+          value: attribute.type === "label" ? targetAttribute.value : undefined,
+          position: targetAttribute.position
+        }]
+      });
+    }
+
     return {
       success: true,
       message: `Successfully updated ${attribute.type} '${attribute.name}' on note ${noteId}`,
@@ -295,7 +340,8 @@ async function update_attribute(
 async function delete_attribute(
   noteId: string,
   attribute: Attribute,
-  axiosInstance: AxiosInstance
+  axiosInstance: AxiosInstance,
+  journal: boolean
 ): Promise<AttributeOperationResult> {
   try {
     // For delete, we need the attribute ID, which requires finding it first
@@ -316,6 +362,23 @@ async function delete_attribute(
 
     await axiosInstance.delete(`/attributes/${targetAttribute.attributeId}`);
 
+    if (journal) {
+      recordOperation(axiosInstance, {
+        operation: "manage_attributes",
+        noteId,
+        description: `Deleted ${attribute.type} '${attribute.name}' from note ${noteId}`,
+        undo: [{
+          action: 'createAttribute',
+          noteId,
+          type: targetAttribute.type,
+          name: targetAttribute.name,
+          value: targetAttribute.value || "",
+          position: targetAttribute.position,
+          isInheritable: targetAttribute.isInheritable
+        }]
+      });
+    }
+
     return {
       success: true,
       message: `Successfully deleted ${attribute.type} '${attribute.name}' from note ${noteId}`
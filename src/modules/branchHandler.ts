@@ -0,0 +1,241 @@
+/**
+ * Branch Handler Module
+ * Centralized request handling for branch (tree placement) operations
+ */
+
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { PermissionChecker } from "../utils/permissionUtils.js";
+import {
+  BranchOperation,
+  handleMoveNote,
+  handleCloneNote,
+  handleRemoveFromParent,
+  handleUpdateBranch,
+  handleReorderChildren
+} from "./branchManager.js";
+
+/**
+ * Validate the parameters shared by all branch operations
+ */
+function validateBranchArgs(args: any): void {
+  if (!args.noteId) {
+    throw new McpError(ErrorCode.InvalidParams, "Missing required parameter 'noteId'.");
+  }
+
+  if (!args.parentNoteId) {
+    throw new McpError(ErrorCode.InvalidParams, "Missing required parameter 'parentNoteId'.");
+  }
+
+  if (args.notePosition !== undefined && (typeof args.notePosition !== 'number' || !Number.isInteger(args.notePosition))) {
+    throw new McpError(ErrorCode.InvalidParams, "Parameter 'notePosition' must be an integer.");
+  }
+}
+
+/**
+ * Handle move_note tool requests
+ */
+export async function handleMoveNoteRequest(
+  args: any,
+  axiosInstance: any,
+  permissionChecker: PermissionChecker
+): Promise<{ content: Array<{ type: string; text: string }> }> {
+  if (!permissionChecker.hasPermission("WRITE")) {
+    throw new McpError(ErrorCode.InvalidRequest, "Permission denied: Not authorized to move notes.");
+  }
+
+  validateBranchArgs(args);
+
+  try {
+    const branchOperation: BranchOperation = {
+      noteId: args.noteId,
+      parentNoteId: args.parentNoteId,
+      fromParentNoteId: args.fromParentNoteId,
+      prefix: args.prefix,
+      notePosition: args.notePosition
+    };
+
+    const result = await handleMoveNote(branchOperation, axiosInstance);
+
+    return {
+      content: [{
+        type: "text",
+        text: result.message
+      }]
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Handle clone_note tool requests
+ */
+export async function handleCloneNoteRequest(
+  args: any,
+  axiosInstance: any,
+  permissionChecker: PermissionChecker
+): Promise<{ content: Array<{ type: string; text: string }> }> {
+  if (!permissionChecker.hasPermission("WRITE")) {
+    throw new McpError(ErrorCode.InvalidRequest, "Permission denied: Not authorized to clone notes.");
+  }
+
+  validateBranchArgs(args);
+
+  try {
+    const branchOperation: BranchOperation = {
+      noteId: args.noteId,
+      parentNoteId: args.parentNoteId,
+      prefix: args.prefix,
+      notePosition: args.notePosition
+    };
+
+    const result = await handleCloneNote(branchOperation, axiosInstance);
+
+    return {
+      content: [{
+        type: "text",
+        text: result.message
+      }]
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Handle remove_from_parent tool requests
+ */
+export async function handleRemoveFromParentRequest(
+  args: any,
+  axiosInstance: any,
+  permissionChecker: PermissionChecker
+): Promise<{ content: Array<{ type: string; text: string }> }> {
+  if (!permissionChecker.hasPermission("WRITE")) {
+    throw new McpError(ErrorCode.InvalidRequest, "Permission denied: Not authorized to remove notes from parents.");
+  }
+
+  validateBranchArgs(args);
+
+  try {
+    const branchOperation: BranchOperation = {
+      noteId: args.noteId,
+      parentNoteId: args.parentNoteId
+    };
+
+    const result = await handleRemoveFromParent(branchOperation, axiosInstance);
+
+    return {
+      content: [{
+        type: "text",
+        text: result.message
+      }]
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Handle update_branch tool requests
+ */
+export async function handleUpdateBranchRequest(
+  args: any,
+  axiosInstance: any,
+  permissionChecker: PermissionChecker
+): Promise<{ content: Array<{ type: string; text: string }> }> {
+  if (!permissionChecker.hasPermission("WRITE")) {
+    throw new McpError(ErrorCode.InvalidRequest, "Permission denied: Not authorized to update branches.");
+  }
+
+  if (!args.noteId) {
+    throw new McpError(ErrorCode.InvalidParams, "Missing required parameter 'noteId'.");
+  }
+
+  if (args.notePosition !== undefined && (typeof args.notePosition !== 'number' || !Number.isInteger(args.notePosition))) {
+    throw new McpError(ErrorCode.InvalidParams, "Parameter 'notePosition' must be an integer.");
+  }
+
+  if (args.isExpanded !== undefined && typeof args.isExpanded !== 'boolean') {
+    throw new McpError(ErrorCode.InvalidParams, "Parameter 'isExpanded' must be a boolean.");
+  }
+
+  try {
+    const branchOperation: BranchOperation = {
+      noteId: args.noteId,
+      parentNoteId: args.parentNoteId,
+      prefix: args.prefix,
+      notePosition: args.notePosition,
+      isExpanded: args.isExpanded
+    };
+
+    const result = await handleUpdateBranch(branchOperation, axiosInstance);
+
+    return {
+      content: [{
+        type: "text",
+        text: result.message
+      }]
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Handle reorder_children tool requests
+ */
+export async function handleReorderChildrenRequest(
+  args: any,
+  axiosInstance: any,
+  permissionChecker: PermissionChecker
+): Promise<{ content: Array<{ type: string; text: string }> }> {
+  if (!permissionChecker.hasPermission("WRITE")) {
+    throw new McpError(ErrorCode.InvalidRequest, "Permission denied: Not authorized to reorder notes.");
+  }
+
+  if (!args.parentNoteId) {
+    throw new McpError(ErrorCode.InvalidParams, "Missing required parameter 'parentNoteId'.");
+  }
+
+  if (args.orderedNoteIds !== undefined && (!Array.isArray(args.orderedNoteIds) || args.orderedNoteIds.length === 0)) {
+    throw new McpError(ErrorCode.InvalidParams, "Parameter 'orderedNoteIds' must be a non-empty array of note IDs.");
+  }
+
+  if (args.sortDirection !== undefined && !['asc', 'desc'].includes(args.sortDirection)) {
+    throw new McpError(ErrorCode.InvalidParams, "Parameter 'sortDirection' must be 'asc' or 'desc'.");
+  }
+
+  try {
+    const result = await handleReorderChildren({
+      parentNoteId: args.parentNoteId,
+      orderedNoteIds: args.orderedNoteIds,
+      sortBy: args.sortBy,
+      sortDirection: args.sortDirection,
+      clearSorted: args.clearSorted
+    }, axiosInstance);
+
+    return {
+      content: [{
+        type: "text",
+        text: `${result.message}\n${JSON.stringify(result.order, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+}
@@ -0,0 +1,496 @@
+/**
+ * Branch Management Module
+ * Handles tree placement of TriliumNext notes (move, clone, unlink, ordering) via the /branches endpoints
+ */
+
+import { buildSearchQuery } from './searchQueryBuilder.js';
+import { manage_attributes } from './attributeManager.js';
+import { logVerbose, logVerboseApi } from '../utils/verboseUtils.js';
+
+export interface BranchOperation {
+  noteId: string;
+  parentNoteId?: string;
+  fromParentNoteId?: string;
+  prefix?: string;
+  notePosition?: number;
+  isExpanded?: boolean;
+}
+
+export interface ReorderOperation {
+  parentNoteId: string;
+  orderedNoteIds?: string[];
+  sortBy?: string;
+  sortDirection?: 'asc' | 'desc';
+  clearSorted?: boolean;
+}
+
+export interface ReorderResponse {
+  parentNoteId: string;
+  order: Array<{ noteId: string; notePosition: number }>;
+  sortedLabel?: string | null;
+  message: string;
+}
+
+export interface Branch {
+  branchId: string;
+  noteId: string;
+  parentNoteId: string;
+  prefix?: string | null;
+  notePosition?: number;
+  isExpanded?: boolean;
+}
+
+export interface BranchResponse {
+  noteId: string;
+  branchId?: string;
+  parentNoteIds: string[];
+  message: string;
+}
+
+/**
+ * Get all branches (parent placements) of a note
+ */
+export async function getNoteBranches(noteId: string, axiosInstance: any): Promise<Branch[]> {
+  const noteResponse = await axiosInstance.get(`/notes/${noteId}`);
+  const parentBranchIds: string[] = noteResponse.data.parentBranchIds || [];
+
+  const branches: Branch[] = [];
+  for (const branchId of parentBranchIds) {
+    const branchResponse = await axiosInstance.get(`/branches/${branchId}`);
+    branches.push(branchResponse.data);
+  }
+
+  return branches;
+}
+
+/**
+ * Check whether placing noteId under parentNoteId would create a cycle
+ */
+async function wouldCreateCycle(noteId: string, parentNoteId: string, axiosInstance: any): Promise<boolean> {
+  if (noteId === parentNoteId) {
+    return true;
+  }
+
+  const query = buildSearchQuery({
+    searchCriteria: [
+      { property: "noteId", type: "noteProperty", op: "=", value: parentNoteId, logic: "AND" },
+      { property: "ancestors.noteId", type: "noteProperty", op: "=", value: noteId }
+    ]
+  });
+
+  const params = new URLSearchParams();
+  params.append("search", query);
+  params.append("fastSearch", "false");
+  params.append("includeArchivedNotes", "true");
+
+  const response = await axiosInstance.get(`/notes?${params.toString()}`);
+  return (response.data.results || []).length > 0;
+}
+
+/**
+ * Ensure the target parent exists and can take the note
+ */
+async function validateTargetParent(noteId: string, parentNoteId: string, axiosInstance: any): Promise<void> {
+  if (noteId === "root") {
+    throw new Error("The root note cannot be moved or cloned.");
+  }
+
+  try {
+    await axiosInstance.get(`/notes/${parentNoteId}`);
+  } catch (error) {
+    if ((error as any).response?.status === 404) {
+      throw new Error(`Parent note not found: ${parentNoteId}`);
+    }
+    throw error;
+  }
+
+  if (await wouldCreateCycle(noteId, parentNoteId, axiosInstance)) {
+    throw new Error(`Cannot place note ${noteId} under ${parentNoteId}: the target is the note itself or one of its descendants.`);
+  }
+}
+
+/**
+ * Create a new branch placing noteId under parentNoteId
+ */
+async function createBranch(
+  noteId: string,
+  parentNoteId: string,
+  axiosInstance: any,
+  prefix?: string | null,
+  notePosition?: number
+): Promise<Branch> {
+  const branchData: any = { noteId, parentNoteId };
+  if (prefix) {
+    branchData.prefix = prefix;
+  }
+  if (notePosition !== undefined) {
+    branchData.notePosition = notePosition;
+  }
+
+  logVerboseApi("POST", `/branches`, branchData);
+  const response = await axiosInstance.post(`/branches`, branchData);
+  return response.data;
+}
+
+/**
+ * Handle move note operation
+ * The new branch is created before the old one is deleted, so the note is never left without a parent
+ */
+export async function handleMoveNote(
+  args: BranchOperation,
+  axiosInstance: any
+): Promise<BranchResponse> {
+  const { noteId, parentNoteId, fromParentNoteId, notePosition } = args;
+
+  if (!noteId || !parentNoteId) {
+    throw new Error("noteId and parentNoteId are required for move operation.");
+  }
+
+  const branches = await getNoteBranches(noteId, axiosInstance);
+
+  let sourceBranch: Branch | undefined;
+  if (fromParentNoteId) {
+    sourceBranch = branches.find(branch => branch.parentNoteId === fromParentNoteId);
+    if (!sourceBranch) {
+      throw new Error(`Note ${noteId} is not a child of ${fromParentNoteId}. Current parents: ${branches.map(b => b.parentNoteId).join(', ')}`);
+    }
+  } else if (branches.length === 1) {
+    sourceBranch = branches[0];
+  } else {
+    throw new Error(`Note ${noteId} has ${branches.length} parents (${branches.map(b => b.parentNoteId).join(', ')}). Specify 'fromParentNoteId' to choose which placement to move.`);
+  }
+
+  if (sourceBranch.parentNoteId === parentNoteId) {
+    throw new Error(`Note ${noteId} is already a child of ${parentNoteId}.`);
+  }
+
+  if (branches.some(branch => branch.parentNoteId === parentNoteId)) {
+    throw new Error(`Note ${noteId} is already cloned under ${parentNoteId}. Use remove_from_parent to remove the placement under ${sourceBranch.parentNoteId} instead.`);
+  }
+
+  await validateTargetParent(noteId, parentNoteId, axiosInstance);
+
+  const prefix = args.prefix !== undefined ? args.prefix : sourceBranch.prefix;
+  const newBranch = await createBranch(noteId, parentNoteId, axiosInstance, prefix, notePosition);
+  logVerbose("handleMoveNote", `Created branch ${newBranch.branchId} for note ${noteId} under ${parentNoteId}`);
+
+  logVerboseApi("DELETE", `/branches/${sourceBranch.branchId}`);
+  await axiosInstance.delete(`/branches/${sourceBranch.branchId}`);
+
+  const parentNoteIds = branches
+    .filter(branch => branch.branchId !== sourceBranch!.branchId)
+    .map(branch => branch.parentNoteId)
+    .concat(parentNoteId);
+
+  return {
+    noteId,
+    branchId: newBranch.branchId,
+    parentNoteIds,
+    message: `Moved note ${noteId} from ${sourceBranch.parentNoteId} to ${parentNoteId} (branch: ${newBranch.branchId}). Note ID and links are unchanged.`
+  };
+}
+
+/**
+ * Handle clone note operation (place an existing note under an additional parent)
+ */
+export async function handleCloneNote(
+  args: BranchOperation,
+  axiosInstance: any
+): Promise<BranchResponse> {
+  const { noteId, parentNoteId, prefix, notePosition } = args;
+
+  if (!noteId || !parentNoteId) {
+    throw new Error("noteId and parentNoteId are required for clone operation.");
+  }
+
+  const branches = await getNoteBranches(noteId, axiosInstance);
+
+  // POST /branches would silently update the existing branch instead of creating a clone
+  if (branches.some(branch => branch.parentNoteId === parentNoteId)) {
+    throw new Error(`Note ${noteId} is already a child of ${parentNoteId}.`);
+  }
+
+  await validateTargetParent(noteId, parentNoteId, axiosInstance);
+
+  const newBranch = await createBranch(noteId, parentNoteId, axiosInstance, prefix, notePosition);
+  const parentNoteIds = branches.map(branch => branch.parentNoteId).concat(parentNoteId);
+
+  return {
+    noteId,
+    branchId: newBranch.branchId,
+    parentNoteIds,
+    message: `Cloned note ${noteId} under ${parentNoteId} (branch: ${newBranch.branchId}). The note now has ${parentNoteIds.length} parents: ${parentNoteIds.join(', ')}`
+  };
+}
+
+/**
+ * Handle remove from parent operation
+ * Refuses to remove the last branch, because ETAPI deletes a note together with its last branch
+ */
+export async function handleRemoveFromParent(
+  args: BranchOperation,
+  axiosInstance: any
+): Promise<BranchResponse> {
+  const { noteId, parentNoteId } = args;
+
+  if (!noteId || !parentNoteId) {
+    throw new Error("noteId and parentNoteId are required for remove from parent operation.");
+  }
+
+  const branches = await getNoteBranches(noteId, axiosInstance);
+  const branch = branches.find(b => b.parentNoteId === parentNoteId);
+
+  if (!branch) {
+    throw new Error(`Note ${noteId} is not a child of ${parentNoteId}. Current parents: ${branches.map(b => b.parentNoteId).join(', ')}`);
+  }
+
+  if (branches.length <= 1) {
+    throw new Error(`Refusing to remove note ${noteId} from ${parentNoteId}: this is its only parent, and removing the last branch would delete the note. Use move_note to relocate it or delete_note to delete it.`);
+  }
+
+  logVerboseApi("DELETE", `/branches/${branch.branchId}`);
+  await axiosInstance.delete(`/branches/${branch.branchId}`);
+
+  const parentNoteIds = branches
+    .filter(b => b.branchId !== branch.branchId)
+    .map(b => b.parentNoteId);
+
+  return {
+    noteId,
+    branchId: branch.branchId,
+    parentNoteIds,
+    message: `Removed note ${noteId} from ${parentNoteId}. Remaining parents: ${parentNoteIds.join(', ')}`
+  };
+}
+
+/**
+ * Get the child branches of a note, in their current order
+ */
+export async function getChildBranches(parentNoteId: string, axiosInstance: any): Promise<Branch[]> {
+  const noteResponse = await axiosInstance.get(`/notes/${parentNoteId}`);
+  const childBranchIds: string[] = noteResponse.data.childBranchIds || [];
+
+  const branches: Branch[] = [];
+  for (const branchId of childBranchIds) {
+    const branchResponse = await axiosInstance.get(`/branches/${branchId}`);
+    branches.push(branchResponse.data);
+  }
+
+  return branches.sort((a, b) => (a.notePosition ?? 0) - (b.notePosition ?? 0));
+}
+
+/**
+ * Ask Trilium to push changed note positions to connected clients
+ */
+async function refreshNoteOrdering(parentNoteId: string, axiosInstance: any): Promise<void> {
+  logVerboseApi("POST", `/refresh-note-ordering/${parentNoteId}`);
+  await axiosInstance.post(`/refresh-note-ordering/${parentNoteId}`);
+}
+
+/**
+ * Handle update branch operation (prefix, position and expansion state of one placement)
+ */
+export async function handleUpdateBranch(
+  args: BranchOperation,
+  axiosInstance: any
+): Promise<BranchResponse> {
+  const { noteId, parentNoteId, prefix, notePosition, isExpanded } = args;
+
+  if (!noteId) {
+    throw new Error("noteId is required for update branch operation.");
+  }
+
+  if (prefix === undefined && notePosition === undefined && isExpanded === undefined) {
+    throw new Error("At least one of 'prefix', 'notePosition' or 'isExpanded' must be provided.");
+  }
+
+  const branches = await getNoteBranches(noteId, axiosInstance);
+
+  let branch: Branch | undefined;
+  if (parentNoteId) {
+    branch = branches.find(b => b.parentNoteId === parentNoteId);
+    if (!branch) {
+      throw new Error(`Note ${noteId} is not a child of ${parentNoteId}. Current parents: ${branches.map(b => b.parentNoteId).join(', ')}`);
+    }
+  } else if (branches.length === 1) {
+    branch = branches[0];
+  } else {
+    throw new Error(`Note ${noteId} has ${branches.length} parents (${branches.map(b => b.parentNoteId).join(', ')}). Specify 'parentNoteId' to choose which placement to update.`);
+  }
+
+  let updated: Branch;
+  if (isExpanded !== undefined) {
+    // PATCH only accepts prefix and notePosition; POST on an existing parent/child pair
+    // updates prefix, notePosition and isExpanded of that branch instead of creating a clone
+    const branchData = {
+      noteId,
+      parentNoteId: branch.parentNoteId,
+      prefix: prefix !== undefined ? prefix : branch.prefix,
+      notePosition: notePosition !== undefined ? notePosition : branch.notePosition,
+      isExpanded
+    };
+    logVerboseApi("POST", `/branches`, branchData);
+    updated = (await axiosInstance.post(`/branches`, branchData)).data;
+  } else {
+    const patchData: any = {};
+    if (prefix !== undefined) {
+      patchData.prefix = prefix;
+    }
+    if (notePosition !== undefined) {
+      patchData.notePosition = notePosition;
+    }
+    logVerboseApi("PATCH", `/branches/${branch.branchId}`, patchData);
+    updated = (await axiosInstance.patch(`/branches/${branch.branchId}`, patchData)).data;
+  }
+
+  if (notePosition !== undefined) {
+    await refreshNoteOrdering(branch.parentNoteId, axiosInstance);
+  }
+
+  const changes = [
+    prefix !== undefined ? `prefix='${prefix}'` : null,
+    notePosition !== undefined ? `notePosition=${notePosition}` : null,
+    isExpanded !== undefined ? `isExpanded=${isExpanded}` : null
+  ].filter(Boolean).join(', ');
+
+  return {
+    noteId,
+    branchId: updated?.branchId || branch.branchId,
+    parentNoteIds: branches.map(b => b.parentNoteId),
+    message: `Updated branch ${branch.branchId} of note ${noteId} under ${branch.parentNoteId}: ${changes}`
+  };
+}
+
+/**
+ * Set or remove the #sorted / #sortDirection labels on a parent note
+ */
+async function setSortedLabels(
+  parentNoteId: string,
+  sortBy: string | null,
+  sortDirection: 'asc' | 'desc' | undefined,
+  axiosInstance: any
+): Promise<void> {
+  const noteResponse = await axiosInstance.get(`/notes/${parentNoteId}`);
+  const ownedLabels = (noteResponse.data.attributes || []).filter(
+    (attr: any) => attr.type === 'label' && attr.noteId === parentNoteId
+  );
+  const hasLabel = (name: string) => ownedLabels.some((attr: any) => attr.name === name);
+
+  const apply = async (operation: 'create' | 'update' | 'delete', name: string, value?: string) => {
+    const result = await manage_attributes(
+      { noteId: parentNoteId, operation, attributes: [{ type: 'label', name, value }] },
+      axiosInstance
+    );
+    if (!result.success) {
+      throw new Error(result.message);
+    }
+  };
+
+  if (sortBy === null) {
+    if (hasLabel('sorted')) {
+      await apply('delete', 'sorted');
+    }
+    if (hasLabel('sortDirection')) {
+      await apply('delete', 'sortDirection');
+    }
+    return;
+  }
+
+  // An empty #sorted value makes Trilium sort by title
+  const sortedValue = sortBy === 'title' ? '' : sortBy;
+  await apply(hasLabel('sorted') ? 'update' : 'create', 'sorted', sortedValue);
+
+  if (sortDirection === 'desc') {
+    await apply(hasLabel('sortDirection') ? 'update' : 'create', 'sortDirection', 'desc');
+  } else if (hasLabel('sortDirection')) {
+    await apply('delete', 'sortDirection');
+  }
+}
+
+/**
+ * Handle reorder children operation
+ * - orderedNoteIds: listed children first in the given order, the rest keep their relative order
+ * - sortBy: let Trilium keep the children sorted via #sorted
+ * - clearSorted: remove #sorted and keep the current order
+ */
+export async function handleReorderChildren(
+  args: ReorderOperation,
+  axiosInstance: any
+): Promise<ReorderResponse> {
+  const { parentNoteId, orderedNoteIds, sortBy, sortDirection, clearSorted } = args;
+
+  if (!parentNoteId) {
+    throw new Error("parentNoteId is required for reorder operation.");
+  }
+
+  const modes = [orderedNoteIds !== undefined, sortBy !== undefined, clearSorted === true].filter(Boolean).length;
+  if (modes !== 1) {
+    throw new Error("Provide exactly one of 'orderedNoteIds', 'sortBy' or 'clearSorted'.");
+  }
+
+  if (sortBy !== undefined) {
+    await setSortedLabels(parentNoteId, sortBy, sortDirection, axiosInstance);
+    await refreshNoteOrdering(parentNoteId, axiosInstance);
+    const label = sortBy === 'title' ? '#sorted' : `#sorted=${sortBy}`;
+
+    return {
+      parentNoteId,
+      order: [],
+      sortedLabel: label,
+      message: `Applied ${label}${sortDirection === 'desc' ? ' #sortDirection=desc' : ''} to ${parentNoteId}. Trilium now keeps its children sorted automatically.`
+    };
+  }
+
+  if (clearSorted) {
+    await setSortedLabels(parentNoteId, null, undefined, axiosInstance);
+    const children = await getChildBranches(parentNoteId, axiosInstance);
+
+    return {
+      parentNoteId,
+      order: children.map(b => ({ noteId: b.noteId, notePosition: b.notePosition ?? 0 })),
+      sortedLabel: null,
+      message: `Removed #sorted from ${parentNoteId}. Children can now be ordered manually.`
+    };
+  }
+
+  const children = await getChildBranches(parentNoteId, axiosInstance);
+  const childIds = new Set(children.map(b => b.noteId));
+
+  const duplicates = orderedNoteIds!.filter((id, index) => orderedNoteIds!.indexOf(id) !== index);
+  if (duplicates.length > 0) {
+    throw new Error(`Duplicate noteIds in 'orderedNoteIds': ${Array.from(new Set(duplicates)).join(', ')}`);
+  }
+
+  const unknown = orderedNoteIds!.filter(id => !childIds.has(id));
+  if (unknown.length > 0) {
+    throw new Error(`Not children of ${parentNoteId}: ${unknown.join(', ')}`);
+  }
+
+  // #sorted would override any manual order, so it has to go
+  await setSortedLabels(parentNoteId, null, undefined, axiosInstance);
+
+  const listed = orderedNoteIds!.map(id => children.find(b => b.noteId === id)!);
+  const rest = children.filter(b => !orderedNoteIds!.includes(b.noteId));
+  const newOrder = [...listed, ...rest];
+
+  let changed = 0;
+  for (let index = 0; index < newOrder.length; index++) {
+    const branch = newOrder[index];
+    const notePosition = (index + 1) * 10;
+    if (branch.notePosition !== notePosition) {
+      logVerboseApi("PATCH", `/branches/${branch.branchId}`, { notePosition });
+      await axiosInstance.patch(`/branches/${branch.branchId}`, { notePosition });
+      changed++;
+    }
+  }
+
+  await refreshNoteOrdering(parentNoteId, axiosInstance);
+  logVerbose("handleReorderChildren", `Updated ${changed} of ${newOrder.length} positions under ${parentNoteId}`);
+
+  return {
+    parentNoteId,
+    order: newOrder.map((b, index) => ({ noteId: b.noteId, notePosition: (index + 1) * 10 })),
+    sortedLabel: null,
+    message: `Reordered ${newOrder.length} children of ${parentNoteId} (${changed} positions changed).`
+  };
+}
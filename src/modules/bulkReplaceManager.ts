@@ -0,0 +1,188 @@
+/**
+ * Bulk Search and Replace Module
+ * Previews and applies one search and replace across every note matched by a search
+ */
+
+import { handleSearchNotes, SearchOperation } from './searchManager.js';
+import { handleSearchReplaceNote, NoteSearchReplaceResponse } from './noteManager.js';
+import { logVerbose } from '../utils/verboseUtils.js';
+
+// Note types whose stored content is editable text
+const REPLACEABLE_NOTE_TYPES = new Set(['text', 'code', 'mermaid']);
+
+const DEFAULT_MAX_NOTES = 50;
+
+export type BulkReplaceStatus = 'matched' | 'applied' | 'no_matches' | 'conflicted' | 'invalid' | 'skipped' | 'failed';
+
+export interface BulkSearchReplaceOperation extends SearchOperation {
+  searchPattern: string;
+  replacePattern: string;
+  useRegex?: boolean;
+  searchFlags?: string;
+  htmlMode?: 'raw' | 'text';
+  // blobIds returned by the preview, keyed by noteId; providing them applies the replacement
+  expectedHashes?: Record<string, string>;
+  revision?: boolean;
+  maxNotes?: number;
+}
+
+export interface BulkReplaceNoteResult {
+  noteId: string;
+  title: string;
+  status: BulkReplaceStatus;
+  matches: number;
+  blobId?: string;
+  message?: string;
+  diff?: string;
+}
+
+export interface BulkSearchReplaceResponse {
+  preview: boolean;
+  notesSearched: number;
+  totalMatches: number;
+  results: BulkReplaceNoteResult[];
+  // For the preview: blobIds of the notes with matches, to pass back as expectedHashes
+  expectedHashes?: Record<string, string>;
+}
+
+/**
+ * Classify the outcome of a single-note search and replace
+ */
+function toNoteResult(note: any, response: NoteSearchReplaceResponse, preview: boolean, blobId?: string): BulkReplaceNoteResult {
+  const base = { noteId: note.noteId, title: note.title, blobId };
+
+  if (response.conflict) {
+    return { ...base, status: 'conflicted', matches: 0, message: response.message };
+  }
+  if (response.message.startsWith('CONTENT_TYPE_MISMATCH')) {
+    return { ...base, status: 'invalid', matches: response.matchesFound, message: response.message };
+  }
+  if (response.matchesFound === 0) {
+    return { ...base, status: 'no_matches', matches: 0 };
+  }
+  return preview
+    ? { ...base, status: 'matched', matches: response.matchesFound, diff: response.diff }
+    : { ...base, status: 'applied', matches: response.replacementsMade, message: response.message };
+}
+
+/**
+ * Search and replace across all notes returned by a search
+ * Without expectedHashes this is a preview: per-note match counts and diffs, nothing is written.
+ * With expectedHashes (from the preview) each previewed note is updated only if its blobId is unchanged.
+ */
+export async function handleBulkSearchReplace(
+  args: BulkSearchReplaceOperation,
+  axiosInstance: any
+): Promise<BulkSearchReplaceResponse> {
+  const {
+    text,
+    searchCriteria,
+    limit,
+    searchPattern,
+    replacePattern,
+    useRegex = true,
+    searchFlags = 'g',
+    htmlMode = 'raw',
+    expectedHashes,
+    revision = true,
+    maxNotes = DEFAULT_MAX_NOTES
+  } = args;
+
+  if (!searchPattern || !replacePattern) {
+    throw new Error("searchPattern and replacePattern are required for bulk search and replace.");
+  }
+
+  const preview = !expectedHashes;
+  const { results: notes } = await handleSearchNotes({ text, searchCriteria, limit }, axiosInstance);
+
+  if (notes.length > maxNotes) {
+    throw new Error(`The search matches ${notes.length} notes, more than maxNotes (${maxNotes}). Narrow the search criteria or raise maxNotes.`);
+  }
+
+  const results: BulkReplaceNoteResult[] = [];
+
+  for (const note of notes) {
+    if (!REPLACEABLE_NOTE_TYPES.has(note.type)) {
+      results.push({
+        noteId: note.noteId,
+        title: note.title,
+        status: 'invalid',
+        matches: 0,
+        message: `Notes of type '${note.type}' have no editable text content.`
+      });
+      continue;
+    }
+
+    if (note.isProtected) {
+      results.push({ noteId: note.noteId, title: note.title, status: 'skipped', matches: 0, message: "Protected notes cannot be read through ETAPI." });
+      continue;
+    }
+
+    let expectedHash: string;
+    if (preview) {
+      const current = await axiosInstance.get(`/notes/${note.noteId}`);
+      expectedHash = current.data.blobId;
+    } else if (expectedHashes![note.noteId]) {
+      expectedHash = expectedHashes![note.noteId];
+    } else {
+      results.push({ noteId: note.noteId, title: note.title, status: 'skipped', matches: 0, message: "Not part of the preview; run the preview again to include it." });
+      continue;
+    }
+
+    try {
+      const response = await handleSearchReplaceNote({
+        noteId: note.noteId,
+        searchPattern,
+        replacePattern,
+        useRegex,
+        searchFlags,
+        htmlMode,
+        revision,
+        expectedHash,
+        dryRun: preview
+      }, axiosInstance);
+      results.push(toNoteResult(note, response, preview, preview ? expectedHash : undefined));
+    } catch (error) {
+      // An invalid pattern fails the same way for every note
+      if (error instanceof Error && /^Search and replace failed/.test(error.message)) {
+        throw error;
+      }
+      results.push({
+        noteId: note.noteId,
+        title: note.title,
+        status: 'failed',
+        matches: 0,
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  // Previewed notes that the search no longer returns are reported rather than silently dropped
+  if (!preview) {
+    const searched = new Set(notes.map(note => note.noteId));
+    for (const noteId of Object.keys(expectedHashes!)) {
+      if (!searched.has(noteId)) {
+        results.push({ noteId, title: '', status: 'skipped', matches: 0, message: "No longer returned by the search." });
+      }
+    }
+  }
+
+  const totalMatches = results
+    .filter(result => result.status === 'matched' || result.status === 'applied')
+    .reduce((sum, result) => sum + result.matches, 0);
+
+  logVerbose("handleBulkSearchReplace", `${preview ? 'Previewed' : 'Applied'} "${searchPattern}" on ${notes.length} note(s)`, {
+    totalMatches,
+    statuses: results.map(result => `${result.noteId}:${result.status}`)
+  });
+
+  const response: BulkSearchReplaceResponse = { preview, notesSearched: notes.length, totalMatches, results };
+
+  if (preview) {
+    response.expectedHashes = Object.fromEntries(
+      results.filter(result => result.status === 'matched').map(result => [result.noteId, result.blobId!])
+    );
+  }
+
+  return response;
+}
@@ -0,0 +1,269 @@
+/**
+ * Delete Preview Module
+ * Computes the impact of deleting a note (subtree census, incoming links, content size)
+ * and the confirmation token that delete_note requires
+ */
+
+import { createHash } from 'crypto';
+import { buildSearchQuery } from './searchQueryBuilder.js';
+import { logVerbose } from '../utils/verboseUtils.js';
+
+/**
+ * Relations Trilium creates automatically for links inside note content
+ */
+const REFERENCE_LINK_RELATIONS = ['internalLink', 'includeNoteLink', 'imageLink', 'relationMapLink'];
+
+// Upper bound of notes whose content is downloaded to compute the size
+const MAX_SIZED_NOTES = 500;
+
+// Deleted note IDs OR'ed into one incoming link search
+const LINK_SEARCH_BATCH = 20;
+
+export interface DeleteCensus {
+  note: { noteId: string; title: string; type: string };
+  // Notes that would be deleted, including the target itself
+  deleted: Array<{ noteId: string; title: string; blobId?: string }>;
+  // Descendants that would survive because they are cloned outside the deleted subtree
+  survivingClones: Array<{ noteId: string; title: string; parentNoteIds: string[] }>;
+}
+
+export interface IncomingLink {
+  noteId: string;
+  title: string;
+  targetNoteId: string;
+  relationName?: string;
+}
+
+export interface DeletePreview {
+  noteId: string;
+  title: string;
+  descendants: {
+    total: number;
+    deleted: number;
+    survivingClones: DeleteCensus["survivingClones"];
+  };
+  incomingLinks: {
+    relations: IncomingLink[];
+    referenceLinks: IncomingLink[];
+  };
+  contentSize: {
+    bytes: number;
+    notesMeasured: number;
+    truncated: boolean;
+  };
+  deletedNotes: Array<{ noteId: string; title: string }>;
+  confirmationToken: string;
+}
+
+/**
+ * Search notes with the shared query builder
+ */
+async function searchNotes(searchCriteria: any[], axiosInstance: any): Promise<any[]> {
+  const params = new URLSearchParams();
+  params.append("search", buildSearchQuery({ searchCriteria }));
+  params.append("fastSearch", "false");
+  params.append("includeArchivedNotes", "true");
+
+  const response = await axiosInstance.get(`/notes?${params.toString()}`);
+  return response.data.results || [];
+}
+
+/**
+ * Work out which notes a delete would remove
+ * A descendant is deleted only when all of its parents are deleted; clones with a parent
+ * outside the deleted set survive, together with everything only reachable through them
+ */
+export async function computeDeleteCensus(noteId: string, axiosInstance: any): Promise<DeleteCensus> {
+  const noteResponse = await axiosInstance.get(`/notes/${noteId}`);
+  const note = noteResponse.data;
+
+  const descendants = await searchNotes(
+    [{ property: "ancestors.noteId", type: "noteProperty", op: "=", value: noteId }],
+    axiosInstance
+  );
+
+  const deletedIds = new Set<string>([noteId]);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const descendant of descendants) {
+      if (deletedIds.has(descendant.noteId)) {
+        continue;
+      }
+      const parentNoteIds: string[] = descendant.parentNoteIds || [];
+      if (parentNoteIds.length > 0 && parentNoteIds.every(parentId => deletedIds.has(parentId))) {
+        deletedIds.add(descendant.noteId);
+        changed = true;
+      }
+    }
+  }
+
+  const deleted = [
+    { noteId: note.noteId, title: note.title, blobId: note.blobId },
+    ...descendants
+      .filter(d => deletedIds.has(d.noteId))
+      .map(d => ({ noteId: d.noteId, title: d.title, blobId: d.blobId }))
+  ];
+
+  const survivingClones = descendants
+    .filter(d => !deletedIds.has(d.noteId))
+    .map(d => ({ noteId: d.noteId, title: d.title, parentNoteIds: d.parentNoteIds || [] }));
+
+  logVerbose("computeDeleteCensus", `Deleting ${noteId} removes ${deleted.length} notes, ${survivingClones.length} descendants survive`);
+
+  return {
+    note: { noteId: note.noteId, title: note.title, type: note.type },
+    deleted,
+    survivingClones
+  };
+}
+
+/**
+ * Derive the confirmation token from the census
+ * Stateless: the token changes whenever the set of deleted notes or their content changes
+ */
+export function createConfirmationToken(census: DeleteCensus): string {
+  const fingerprint = {
+    noteId: census.note.noteId,
+    deleted: census.deleted.map(n => `${n.noteId}:${n.blobId || ''}`).sort(),
+    surviving: census.survivingClones.map(n => n.noteId).sort()
+  };
+
+  return createHash('sha256').update(JSON.stringify(fingerprint)).digest('hex').substring(0, 16);
+}
+
+/**
+ * Search for notes matching any of the deleted note IDs, a batch of IDs per query
+ */
+async function searchByDeletedIds(
+  noteIds: string[],
+  toCriteria: (noteId: string) => any,
+  axiosInstance: any
+): Promise<any[]> {
+  const found = new Map<string, any>();
+  for (let start = 0; start < noteIds.length; start += LINK_SEARCH_BATCH) {
+    const batch = noteIds.slice(start, start + LINK_SEARCH_BATCH);
+    const results = await searchNotes(batch.map(noteId => ({ ...toCriteria(noteId), logic: "OR" })), axiosInstance);
+    for (const note of results) {
+      found.set(note.noteId, note);
+    }
+  }
+  return Array.from(found.values());
+}
+
+/**
+ * Find notes outside the deleted set that link into it
+ */
+async function findIncomingLinks(
+  census: DeleteCensus,
+  axiosInstance: any
+): Promise<DeletePreview["incomingLinks"]> {
+  const deletedIds = new Set(census.deleted.map(n => n.noteId));
+  const relations: IncomingLink[] = [];
+  const referenceLinks: IncomingLink[] = [];
+
+  // Notes with a relation (including the ones Trilium maintains for links in content) targeting a deleted note
+  const relationSources = await searchByDeletedIds(
+    Array.from(deletedIds),
+    noteId => ({ property: "*.noteId", type: "relation", op: "=", value: noteId }),
+    axiosInstance
+  );
+
+  for (const source of relationSources) {
+    if (deletedIds.has(source.noteId)) {
+      continue;
+    }
+    for (const attr of source.attributes || []) {
+      if (attr.type !== 'relation' || attr.noteId !== source.noteId || !deletedIds.has(attr.value)) {
+        continue;
+      }
+      const link = { noteId: source.noteId, title: source.title, targetNoteId: attr.value, relationName: attr.name };
+      (REFERENCE_LINK_RELATIONS.includes(attr.name) ? referenceLinks : relations).push(link);
+    }
+  }
+
+  // Reference links in content that Trilium has not (yet) turned into link relations
+  const contentSources = await searchByDeletedIds(
+    Array.from(deletedIds),
+    noteId => ({ property: "content", type: "noteProperty", op: "contains", value: noteId }),
+    axiosInstance
+  );
+
+  for (const source of contentSources) {
+    if (deletedIds.has(source.noteId)) {
+      continue;
+    }
+    // A link's href is the note path, ending with the linked note: #root/parent/target
+    const content = String((await axiosInstance.get(`/notes/${source.noteId}/content`)).data ?? '');
+    const linkedIds = new Set(Array.from(content.matchAll(/href="#root\/(?:[^"/]+\/)*([^"/?]+)"/g), match => match[1]));
+    for (const targetNoteId of linkedIds) {
+      const alreadyListed = referenceLinks.some(link => link.noteId === source.noteId && link.targetNoteId === targetNoteId);
+      if (deletedIds.has(targetNoteId) && !alreadyListed) {
+        referenceLinks.push({ noteId: source.noteId, title: source.title, targetNoteId });
+      }
+    }
+  }
+
+  return { relations, referenceLinks };
+}
+
+/**
+ * Sum the raw content size of the notes that would be deleted
+ */
+async function measureContentSize(
+  census: DeleteCensus,
+  axiosInstance: any
+): Promise<DeletePreview["contentSize"]> {
+  const toMeasure = census.deleted.slice(0, MAX_SIZED_NOTES);
+  let bytes = 0;
+
+  for (const note of toMeasure) {
+    try {
+      const response = await axiosInstance.get(`/notes/${note.noteId}/content`, { responseType: 'arraybuffer' });
+      bytes += Buffer.byteLength(response.data);
+    } catch (error) {
+      logVerbose("measureContentSize", `Could not fetch content of ${note.noteId}`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return {
+    bytes,
+    notesMeasured: toMeasure.length,
+    truncated: census.deleted.length > toMeasure.length
+  };
+}
+
+/**
+ * Preview the impact of deleting a note
+ */
+export async function previewDeleteNote(noteId: string, axiosInstance: any): Promise<DeletePreview> {
+  const census = await computeDeleteCensus(noteId, axiosInstance);
+  const incomingLinks = await findIncomingLinks(census, axiosInstance);
+  const contentSize = await measureContentSize(census, axiosInstance);
+
+  return {
+    noteId,
+    title: census.note.title,
+    descendants: {
+      total: census.deleted.length - 1 + census.survivingClones.length,
+      deleted: census.deleted.length - 1,
+      survivingClones: census.survivingClones
+    },
+    incomingLinks,
+    contentSize,
+    deletedNotes: census.deleted.map(n => ({ noteId: n.noteId, title: n.title })),
+    confirmationToken: createConfirmationToken(census)
+  };
+}
+
+/**
+ * Check a confirmation token against the current state of the subtree
+ */
+export async function verifyConfirmationToken(
+  noteId: string,
+  confirmationToken: string,
+  axiosInstance: any
+): Promise<boolean> {
+  const census = await computeDeleteCensus(noteId, axiosInstance);
+  return createConfirmationToken(census) === confirmationToken;
+}
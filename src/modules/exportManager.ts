@@ -0,0 +1,216 @@
+/**
+ * Subtree Export Module
+ * Saves ETAPI subtree exports (ZIP of HTML or Markdown files) to a local directory, optionally extracted
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { pipeline } from 'stream/promises';
+import yauzl from 'yauzl';
+import { logVerbose, logVerboseApi } from '../utils/verboseUtils.js';
+
+const DEFAULT_FILENAME_TEMPLATE = '{title}-{date}';
+
+export type ExportFormat = 'html' | 'markdown';
+
+export interface ExportSubtreeOperation {
+  noteId: string;
+  format?: ExportFormat;
+  // Path of the ZIP below the export directory; placeholders {title}, {noteId}, {format}, {date}, {time}
+  filename?: string;
+  // Also unpack the ZIP into a folder of the same name (without .zip)
+  extract?: boolean;
+  // Replace an existing ZIP (and extraction folder) instead of failing
+  overwrite?: boolean;
+}
+
+export interface ExportSubtreeResponse {
+  noteId: string;
+  title: string;
+  format: ExportFormat;
+  zipPath: string;
+  bytes: number;
+  extractedTo?: string;
+  extractedFiles?: number;
+  message: string;
+}
+
+/**
+ * Directory exports are written to; export_subtree is disabled unless EXPORT_DIRECTORY is set
+ */
+export function getExportDirectory(): string | undefined {
+  return process.env.EXPORT_DIRECTORY || undefined;
+}
+
+/**
+ * Make a placeholder value safe as (part of) a file name
+ */
+function sanitizeFileName(value: string): string {
+  return value.replace(/[\\/:*?"<>|\x00-\x1f]+/g, '_').replace(/^[\s.]+|[\s.]+$/g, '') || 'untitled';
+}
+
+/**
+ * Expand the filename template and resolve it inside the export directory
+ */
+export function resolveExportPath(
+  exportDirectory: string,
+  template: string,
+  values: { title: string; noteId: string; format: ExportFormat },
+  now: Date = new Date()
+): string {
+  const iso = now.toISOString();
+  const placeholders: Record<string, string> = {
+    title: sanitizeFileName(values.title),
+    noteId: sanitizeFileName(values.noteId),
+    format: values.format,
+    date: iso.slice(0, 10),
+    time: iso.slice(11, 19).replace(/:/g, '-')
+  };
+
+  const relative = template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    if (!(name in placeholders)) {
+      throw new Error(`Unknown placeholder ${placeholder} in filename. Use {title}, {noteId}, {format}, {date} or {time}.`);
+    }
+    return placeholders[name];
+  });
+
+  const base = path.resolve(exportDirectory);
+  const target = path.resolve(base, relative.toLowerCase().endsWith('.zip') ? relative : `${relative}.zip`);
+  const inside = path.relative(base, target);
+  if (!inside || inside.startsWith('..') || path.isAbsolute(inside)) {
+    throw new Error(`filename "${template}" resolves outside the export directory ${base}.`);
+  }
+  // '.zip' or 'sub/.zip' would extract into the export directory (or sub) itself
+  if (!path.basename(target).replace(/\.zip$/i, '')) {
+    throw new Error(`filename "${template}" has no name before .zip.`);
+  }
+
+  return target;
+}
+
+/**
+ * Unpack a ZIP into a directory, refusing entries that would land outside it
+ */
+async function extractZip(zipPath: string, targetDirectory: string): Promise<number> {
+  const zipFile = await new Promise<yauzl.ZipFile>((resolve, reject) => {
+    yauzl.open(zipPath, { lazyEntries: true }, (error, file) => error ? reject(error) : resolve(file!));
+  });
+
+  return await new Promise<number>((resolve, reject) => {
+    let files = 0;
+    const fail = (error: Error) => {
+      zipFile.close();
+      reject(error);
+    };
+
+    zipFile.on('error', fail);
+    zipFile.on('end', () => resolve(files));
+    zipFile.on('entry', (entry: yauzl.Entry) => {
+      const destination = path.resolve(targetDirectory, entry.fileName);
+      const inside = path.relative(targetDirectory, destination);
+      if (inside.startsWith('..') || path.isAbsolute(inside)) {
+        fail(new Error(`ZIP entry "${entry.fileName}" would be extracted outside ${targetDirectory}.`));
+        return;
+      }
+
+      if (entry.fileName.endsWith('/')) {
+        fs.mkdirSync(destination, { recursive: true });
+        zipFile.readEntry();
+        return;
+      }
+
+      fs.mkdirSync(path.dirname(destination), { recursive: true });
+      zipFile.openReadStream(entry, async (error, stream) => {
+        if (error) {
+          fail(error);
+          return;
+        }
+        try {
+          await pipeline(stream!, fs.createWriteStream(destination));
+          files++;
+          zipFile.readEntry();
+        } catch (streamError) {
+          fail(streamError as Error);
+        }
+      });
+    });
+
+    zipFile.readEntry();
+  });
+}
+
+/**
+ * Export a note subtree through ETAPI and save the ZIP below EXPORT_DIRECTORY
+ * The download is streamed to a temporary file and renamed, so an interrupted export never
+ * replaces a previous snapshot with a partial one.
+ */
+export async function handleExportSubtree(
+  args: ExportSubtreeOperation,
+  axiosInstance: any
+): Promise<ExportSubtreeResponse> {
+  const { noteId, format = 'html', filename = DEFAULT_FILENAME_TEMPLATE, extract = false, overwrite = false } = args;
+
+  const exportDirectory = getExportDirectory();
+  if (!exportDirectory) {
+    throw new Error("export_subtree is disabled: set EXPORT_DIRECTORY to the local directory exports should be written to.");
+  }
+  if (!noteId) {
+    throw new Error("noteId is required for export.");
+  }
+  if (format !== 'html' && format !== 'markdown') {
+    throw new Error(`Invalid format: ${format}. Format must be 'html' or 'markdown'.`);
+  }
+
+  const note = (await axiosInstance.get(`/notes/${noteId}`)).data;
+  const zipPath = resolveExportPath(exportDirectory, filename, { title: note.title, noteId, format });
+  const extractedTo = extract ? zipPath.replace(/\.zip$/i, '') : undefined;
+  // Replacing the extraction folder removes it recursively: it must be a folder of its own next to the ZIP
+  if (extractedTo) {
+    const fromBase = path.relative(path.resolve(exportDirectory), extractedTo);
+    const zipFromFolder = path.relative(extractedTo, zipPath);
+    if (!fromBase || fromBase.startsWith('..') || path.isAbsolute(fromBase) || !zipFromFolder.startsWith('..')) {
+      throw new Error(`Cannot extract ${zipPath} to ${extractedTo}: the folder must be inside the export directory and not contain the ZIP.`);
+    }
+  }
+
+  for (const existing of [zipPath, extractedTo]) {
+    if (existing && fs.existsSync(existing) && !overwrite) {
+      throw new Error(`${existing} already exists. Pass overwrite: true to replace it, or use a filename with {date}/{time}.`);
+    }
+  }
+
+  fs.mkdirSync(path.dirname(zipPath), { recursive: true });
+  const partialPath = `${zipPath}.part`;
+
+  logVerboseApi("GET", `/notes/${noteId}/export?format=${format}`);
+  const response = await axiosInstance.get(`/notes/${noteId}/export?format=${format}`, { responseType: 'stream' });
+  try {
+    await pipeline(response.data, fs.createWriteStream(partialPath));
+    fs.renameSync(partialPath, zipPath);
+  } catch (error) {
+    fs.rmSync(partialPath, { force: true });
+    throw error;
+  }
+
+  const bytes = fs.statSync(zipPath).size;
+  logVerbose("handleExportSubtree", `Exported ${noteId} as ${format} to ${zipPath} (${bytes} bytes)`);
+
+  let extractedFiles: number | undefined;
+  if (extractedTo) {
+    fs.rmSync(extractedTo, { recursive: true, force: true });
+    fs.mkdirSync(extractedTo, { recursive: true });
+    extractedFiles = await extractZip(zipPath, extractedTo);
+    logVerbose("handleExportSubtree", `Extracted ${extractedFiles} files to ${extractedTo}`);
+  }
+
+  return {
+    noteId,
+    title: note.title,
+    format,
+    zipPath,
+    bytes,
+    extractedTo,
+    extractedFiles,
+    message: `Exported "${note.title}" (${noteId}) and its subtree as ${format} to ${zipPath} (${bytes} bytes)${extractedTo ? `, extracted ${extractedFiles} file(s) to ${extractedTo}` : ''}.`
+  };
+}
@@ -46,11 +46,15 @@ export interface CreateNoteResult {
   };
 }
 
+// Upload size limit, also applied to ZIP imports
+export const DEFAULT_MAX_FILE_SIZE = 50 * 1024 * 1024;
+
 export class FileManager {
   private axiosClient: AxiosInstance;
-  private readonly maxFileSize: number;
+  // Largest upload accepted, in bytes
+  readonly maxFileSize: number;
 
-  constructor(axiosClient: AxiosInstance, maxFileSize: number = 50 * 1024 * 1024) {
+  constructor(axiosClient: AxiosInstance, maxFileSize: number = DEFAULT_MAX_FILE_SIZE) {
     this.axiosClient = axiosClient;
     this.maxFileSize = maxFileSize;
   }
@@ -299,6 +303,53 @@ export class FileManager {
     return validation;
   }
 
+  /**
+   * Upload a local image as an attachment of a note, following the same two-step process:
+   * 1. Create the attachment metadata with role="image"
+   * 2. Upload the binary content to the created attachment
+   * Returns the attachment ID, referenced from note HTML as api/attachments/<id>/image/<title>
+   */
+  async createImageAttachment(ownerId: string, filePath: string, mimeType: string, title: string): Promise<string> {
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`File not found: ${filePath}`);
+    }
+
+    const size = fs.statSync(filePath).size;
+    if (size > this.maxFileSize) {
+      throw new Error(`File too large: ${(size / 1024 / 1024).toFixed(2)}MB. Maximum allowed: ${(this.maxFileSize / 1024 / 1024).toFixed(2)}MB`);
+    }
+
+    try {
+      const attachmentResponse = await this.axiosClient.post('/attachments', {
+        ownerId,
+        role: 'image',
+        mime: mimeType,
+        title,
+        content: ''
+      });
+      const attachmentId: string = attachmentResponse.data.attachmentId;
+
+      await this.axiosClient.put(`/attachments/${attachmentId}/content`, fs.createReadStream(filePath), {
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'Content-Transfer-Encoding': 'binary'
+        },
+        maxContentLength: Infinity,
+        maxBodyLength: Infinity
+      });
+
+      return attachmentId;
+
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const status = error.response?.status;
+        const message = error.response?.data?.message || error.message;
+        throw new Error(`Failed to upload attachment (${status}): ${message}`);
+      }
+      throw new Error(`Failed to upload attachment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Check if a note is a file note
    */
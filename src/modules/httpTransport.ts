@@ -0,0 +1,313 @@
+/**
+ * HTTP Transport Module
+ * Serves the MCP server over Streamable HTTP (with legacy SSE fallback)
+ * so that a single long-running process can handle many clients
+ */
+
+import http, { IncomingMessage, ServerResponse } from "node:http";
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { logVerbose, logVerboseError } from "../utils/verboseUtils.js";
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  authToken?: string;
+  maxBodySize?: number;
+}
+
+export interface HttpTransportHandle {
+  close(): Promise<void>;
+}
+
+interface HttpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+}
+
+const MCP_ENDPOINT = "/mcp";
+const SSE_ENDPOINT = "/sse";
+const SSE_MESSAGES_ENDPOINT = "/messages";
+const HEALTH_ENDPOINT = "/health";
+
+// JSON-RPC error codes
+const JSON_RPC_PARSE_ERROR = -32700;
+const JSON_RPC_SERVER_ERROR = -32000;
+
+/**
+ * A request body that cannot be accepted, answered with its own HTTP status instead of 500
+ */
+class RequestBodyError extends Error {
+  constructor(message: string, readonly status: number, readonly code: number) {
+    super(message);
+    this.name = "RequestBodyError";
+  }
+}
+
+/**
+ * Start the HTTP transport
+ * A fresh MCP server is created for every session via createServer()
+ */
+export async function startHttpTransport(
+  createServer: () => Server,
+  options: HttpTransportOptions
+): Promise<HttpTransportHandle> {
+  const sessions = new Map<string, HttpSession>();
+  const maxBodySize = options.maxBodySize || 50 * 1024 * 1024;
+
+  if (!options.authToken && !isLoopbackHost(options.host)) {
+    console.error(`Warning: MCP_AUTH_TOKEN is not set while listening on ${options.host}. Any client that can reach this port has full access to your notes.`);
+  }
+
+  const httpServer = http.createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url || "/", `http://${req.headers.host || "localhost"}`);
+
+      if (url.pathname === HEALTH_ENDPOINT && req.method === "GET") {
+        sendJson(res, 200, { status: "ok", sessions: sessions.size });
+        return;
+      }
+
+      if (!isAuthorized(req, options.authToken)) {
+        res.setHeader("WWW-Authenticate", 'Bearer realm="triliumnext-mcp"');
+        sendJsonRpcError(res, 401, "Unauthorized: missing or invalid bearer token");
+        return;
+      }
+
+      switch (url.pathname) {
+        case MCP_ENDPOINT:
+          await handleStreamableRequest(req, res, sessions, createServer, maxBodySize);
+          return;
+
+        case SSE_ENDPOINT:
+          if (req.method !== "GET") {
+            sendJsonRpcError(res, 405, "Method not allowed");
+            return;
+          }
+          await handleSseConnect(res, sessions, createServer);
+          return;
+
+        case SSE_MESSAGES_ENDPOINT:
+          if (req.method !== "POST") {
+            sendJsonRpcError(res, 405, "Method not allowed");
+            return;
+          }
+          await handleSseMessage(req, res, url, sessions, maxBodySize);
+          return;
+
+        default:
+          sendJsonRpcError(res, 404, `Not found: ${url.pathname}`);
+      }
+    } catch (error) {
+      if (error instanceof RequestBodyError) {
+        if (!res.headersSent) {
+          sendJsonRpcError(res, error.status, error.message, error.code);
+        }
+        return;
+      }
+      logVerboseError("httpTransport", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, `Internal server error: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  return {
+    async close() {
+      // Close every open session first so that clients receive a clean shutdown
+      const openSessions = Array.from(sessions.values());
+      sessions.clear();
+      await Promise.allSettled(openSessions.map(async (session) => {
+        await session.transport.close();
+        await session.server.close();
+      }));
+
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    }
+  };
+}
+
+/**
+ * Handle POST/GET/DELETE requests on the Streamable HTTP endpoint
+ */
+async function handleStreamableRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  sessions: Map<string, HttpSession>,
+  createServer: () => Server,
+  maxBodySize: number
+): Promise<void> {
+  const sessionId = req.headers["mcp-session-id"] as string | undefined;
+  const body = req.method === "POST" ? await readJsonBody(req, maxBodySize) : undefined;
+
+  if (sessionId) {
+    const session = sessions.get(sessionId);
+    if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+      sendJsonRpcError(res, 404, `Session not found: ${sessionId}`);
+      return;
+    }
+    await session.transport.handleRequest(req, res, body);
+    return;
+  }
+
+  // A request without session ID must be an initialize request
+  if (req.method !== "POST" || !isInitializeRequest(body)) {
+    sendJsonRpcError(res, 400, "Bad Request: No valid session ID provided");
+    return;
+  }
+
+  const server = createServer();
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: (newSessionId) => {
+      sessions.set(newSessionId, { server, transport });
+      logVerbose("httpTransport", `Session initialized: ${newSessionId}`);
+    }
+  });
+
+  transport.onclose = () => {
+    if (transport.sessionId && sessions.delete(transport.sessionId)) {
+      logVerbose("httpTransport", `Session closed: ${transport.sessionId}`);
+    }
+  };
+
+  await server.connect(transport);
+  await transport.handleRequest(req, res, body);
+}
+
+/**
+ * Open a legacy SSE stream (protocol version 2024-11-05 clients)
+ */
+async function handleSseConnect(
+  res: ServerResponse,
+  sessions: Map<string, HttpSession>,
+  createServer: () => Server
+): Promise<void> {
+  const server = createServer();
+  const transport = new SSEServerTransport(SSE_MESSAGES_ENDPOINT, res);
+  sessions.set(transport.sessionId, { server, transport });
+  logVerbose("httpTransport", `SSE session opened: ${transport.sessionId}`);
+
+  res.on("close", () => {
+    sessions.delete(transport.sessionId);
+    logVerbose("httpTransport", `SSE session closed: ${transport.sessionId}`);
+    server.close().catch((error) => logVerboseError("httpTransport", error));
+  });
+
+  // connect() starts the transport, which writes the SSE headers and endpoint event
+  await server.connect(transport);
+}
+
+/**
+ * Route a client message to its legacy SSE session
+ */
+async function handleSseMessage(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  sessions: Map<string, HttpSession>,
+  maxBodySize: number
+): Promise<void> {
+  const sessionId = url.searchParams.get("sessionId") || "";
+  const session = sessions.get(sessionId);
+
+  if (!session || !(session.transport instanceof SSEServerTransport)) {
+    sendJsonRpcError(res, 404, `Session not found: ${sessionId}`);
+    return;
+  }
+
+  const body = await readJsonBody(req, maxBodySize);
+  await session.transport.handlePostMessage(req, res, body);
+}
+
+/**
+ * Check the bearer token when authentication is configured
+ */
+function isAuthorized(req: IncomingMessage, authToken?: string): boolean {
+  if (!authToken) {
+    return true;
+  }
+
+  const header = req.headers.authorization || "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return false;
+  }
+
+  const provided = Buffer.from(match[1].trim());
+  const expected = Buffer.from(authToken);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * Read and parse a JSON request body with a size limit
+ * Oversized bodies are rejected with 413 and malformed JSON with 400 (JSON-RPC parse error).
+ */
+async function readJsonBody(req: IncomingMessage, maxBodySize: number): Promise<unknown> {
+  const tooLarge = new RequestBodyError(
+    `Request body too large. Maximum allowed: ${(maxBodySize / 1024 / 1024).toFixed(2)}MB`,
+    413,
+    JSON_RPC_SERVER_ERROR
+  );
+
+  if (Number(req.headers["content-length"]) > maxBodySize) {
+    req.resume();
+    throw tooLarge;
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  // Keep draining an oversized body so the 413 response still reaches the client
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size <= maxBodySize) {
+      chunks.push(chunk as Buffer);
+    }
+  }
+  if (size > maxBodySize) {
+    throw tooLarge;
+  }
+
+  const raw = Buffer.concat(chunks).toString("utf8");
+  if (!raw.trim()) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new RequestBodyError("Parse error: request body is not valid JSON", 400, JSON_RPC_PARSE_ERROR);
+  }
+}
+
+function isLoopbackHost(host: string): boolean {
+  return ["127.0.0.1", "localhost", "::1"].includes(host);
+}
+
+function sendJson(res: ServerResponse, status: number, payload: any): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(payload));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, code: number = JSON_RPC_SERVER_ERROR): void {
+  sendJson(res, status, {
+    jsonrpc: "2.0",
+    error: { code, message },
+    id: null
+  });
+}
@@ -0,0 +1,41 @@
+/**
+ * Instance Handler Module
+ * Handles list_instances requests and per-call instance selection
+ */
+
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { InstanceRegistry, TriliumInstance } from "./instanceManager.js";
+
+/**
+ * Handle list_instances tool requests
+ */
+export async function handleListInstancesRequest(
+  registry: InstanceRegistry
+): Promise<{ content: Array<{ type: string; text: string }> }> {
+  const result = {
+    defaultInstance: registry.defaultInstanceName,
+    instances: registry.list()
+  };
+
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify(result, null, 2)
+    }]
+  };
+}
+
+/**
+ * Resolve the instance a tool call targets from its optional 'instance' argument
+ */
+export function resolveInstance(args: any, registry: InstanceRegistry): TriliumInstance {
+  if (args?.instance !== undefined && typeof args.instance !== 'string') {
+    throw new McpError(ErrorCode.InvalidParams, "Parameter 'instance' must be a string.");
+  }
+
+  try {
+    return registry.get(args?.instance);
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Instance Management Module
+ * Registry of named TriliumNext instances, each with its own ETAPI client and permission set
+ */
+
+import * as fs from 'fs';
+import axios, { AxiosInstance } from 'axios';
+import { PermissionChecker } from '../utils/permissionUtils.js';
+import { safeValidate, instancesConfigSchema } from '../utils/validationUtils.js';
+import { DeleteMode, TrashOptions } from './trashManager.js';
+import { registerJournalInstance } from './journalManager.js';
+
+export const DEFAULT_INSTANCE_NAME = "default";
+
+export interface InstanceConfig {
+  url?: string;
+  token: string;
+  permissions: string;
+  deleteMode: DeleteMode;
+  trashNoteId?: string;
+}
+
+export interface TriliumInstance extends PermissionChecker {
+  name: string;
+  url?: string;
+  permissions: string[];
+  axiosInstance: AxiosInstance;
+  trash: TrashOptions;
+}
+
+export interface InstanceSummary {
+  name: string;
+  url?: string;
+  permissions: string[];
+  deleteMode: DeleteMode;
+  isDefault: boolean;
+}
+
+export class InstanceRegistry implements PermissionChecker {
+  private instances = new Map<string, TriliumInstance>();
+  readonly defaultInstanceName: string;
+
+  constructor(configs: Record<string, InstanceConfig>, defaultInstanceName?: string) {
+    for (const [name, config] of Object.entries(configs)) {
+      this.instances.set(name, createInstance(name, config));
+    }
+
+    if (this.instances.size === 0) {
+      throw new Error("At least one Trilium instance must be configured");
+    }
+
+    this.defaultInstanceName = defaultInstanceName || this.instances.keys().next().value!;
+    if (!this.instances.has(this.defaultInstanceName)) {
+      throw new Error(`Default instance '${this.defaultInstanceName}' is not configured`);
+    }
+  }
+
+  /**
+   * Get an instance by name, or the default instance when no name is given
+   */
+  get(name?: string): TriliumInstance {
+    const instance = this.instances.get(name || this.defaultInstanceName);
+    if (!instance) {
+      throw new Error(`Unknown instance '${name}'. Available instances: ${this.names().join(', ')}`);
+    }
+    return instance;
+  }
+
+  getDefault(): TriliumInstance {
+    return this.get(this.defaultInstanceName);
+  }
+
+  names(): string[] {
+    return Array.from(this.instances.keys());
+  }
+
+  /**
+   * Describe all instances without exposing their tokens
+   */
+  list(): InstanceSummary[] {
+    return Array.from(this.instances.values()).map(instance => ({
+      name: instance.name,
+      url: instance.url,
+      permissions: instance.permissions,
+      deleteMode: instance.trash.mode,
+      isDefault: instance.name === this.defaultInstanceName
+    }));
+  }
+
+  /**
+   * True when at least one instance grants the permission
+   * Used to decide which tools to advertise; every call is checked against its own instance
+   */
+  hasPermission(permission: string): boolean {
+    return Array.from(this.instances.values()).some(instance => instance.hasPermission(permission));
+  }
+}
+
+/**
+ * Create an instance with its own ETAPI client
+ */
+function createInstance(name: string, config: InstanceConfig): TriliumInstance {
+  const permissions = config.permissions.split(';').map(p => p.trim()).filter(Boolean);
+  const axiosInstance = axios.create({
+    baseURL: config.url,
+    headers: {
+      Authorization: config.token
+    }
+  });
+
+  // Journal entries record which instance they belong to
+  registerJournalInstance(axiosInstance, name);
+
+  return {
+    name,
+    url: config.url,
+    permissions,
+    axiosInstance,
+    trash: {
+      mode: config.deleteMode,
+      trashNoteId: config.trashNoteId
+    },
+    hasPermission(permission: string): boolean {
+      return permissions.includes(permission);
+    }
+  };
+}
+
+/**
+ * Load the instance registry
+ * Uses the JSON file at configPath when given, otherwise a single "default" instance
+ * built from TRILIUM_API_URL / TRILIUM_API_TOKEN / PERMISSIONS / DELETE_MODE / TRASH_NOTE_ID
+ */
+export function loadInstanceRegistry(
+  configPath: string | undefined,
+  fallback: { url?: string; token?: string; permissions: string; deleteMode: DeleteMode; trashNoteId?: string }
+): InstanceRegistry {
+  if (!configPath) {
+    if (!fallback.token) {
+      throw new Error("TRILIUM_API_TOKEN environment variable is required");
+    }
+    return new InstanceRegistry({
+      [DEFAULT_INSTANCE_NAME]: {
+        url: fallback.url,
+        token: fallback.token,
+        permissions: fallback.permissions,
+        deleteMode: fallback.deleteMode,
+        trashNoteId: fallback.trashNoteId
+      }
+    });
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to read instances config '${configPath}': ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const validation = safeValidate(instancesConfigSchema, parsed);
+  if (!validation.success || !validation.data) {
+    throw new Error(`Invalid instances config '${configPath}': ${validation.error}`);
+  }
+
+  const configs: Record<string, InstanceConfig> = {};
+  for (const [name, instance] of Object.entries(validation.data.instances)) {
+    // Tokens can be kept out of the config file by referencing an environment variable
+    const token = instance.token || (instance.tokenEnv ? process.env[instance.tokenEnv] : undefined);
+    if (!token) {
+      throw new Error(`Instance '${name}' has no token. Set 'token' or point 'tokenEnv' at a defined environment variable`);
+    }
+
+    configs[name] = {
+      url: instance.url,
+      token,
+      permissions: instance.permissions || fallback.permissions,
+      deleteMode: instance.deleteMode || fallback.deleteMode,
+      // An explicit trash note only makes sense for the instance it belongs to
+      trashNoteId: instance.trashNoteId
+    };
+  }
+
+  return new InstanceRegistry(configs, validation.data.defaultInstance);
+}
@@ -0,0 +1,103 @@
+/**
+ * Journal Handler Module
+ * Centralized request handling for the operation journal and undo
+ */
+
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { TriliumInstance } from "./instanceManager.js";
+import { listOperations, undoOperation } from "./undoManager.js";
+
+/**
+ * Handle list_operations tool requests
+ */
+export async function handleListOperationsRequest(
+  args: any,
+  instance: TriliumInstance
+): Promise<{ content: Array<{ type: string; text: string }> }> {
+  if (!instance.hasPermission("WRITE")) {
+    throw new McpError(ErrorCode.InvalidRequest, "Permission denied: Not authorized to view the operation journal.");
+  }
+
+  if (args.limit !== undefined && (typeof args.limit !== 'number' || args.limit < 1)) {
+    throw new McpError(ErrorCode.InvalidParams, "Parameter 'limit' must be a number >= 1.");
+  }
+
+  try {
+    const operations = listOperations(instance.name, args.limit);
+
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify(operations.map(entry => ({
+          id: entry.id,
+          timestamp: entry.timestamp,
+          operation: entry.operation,
+          noteId: entry.noteId,
+          description: entry.description,
+          undone: entry.undone,
+          reversible: entry.undo.length > 0,
+          irreversible: entry.irreversible
+        })), null, 2)
+      }]
+    };
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidRequest, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Undo an operation and format the result
+ */
+async function undo(
+  instance: TriliumInstance,
+  operationId: string | undefined,
+  force: boolean
+): Promise<{ content: Array<{ type: string; text: string }> }> {
+  try {
+    const result = await undoOperation(instance.axiosInstance, instance.name, instance.trash, operationId, force);
+
+    return {
+      content: [{
+        type: "text",
+        text: result.message
+      }]
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Handle undo_last_operation tool requests
+ */
+export async function handleUndoLastOperationRequest(
+  args: any,
+  instance: TriliumInstance
+): Promise<{ content: Array<{ type: string; text: string }> }> {
+  if (!instance.hasPermission("WRITE")) {
+    throw new McpError(ErrorCode.InvalidRequest, "Permission denied: Not authorized to undo operations.");
+  }
+
+  return undo(instance, undefined, args.force === true);
+}
+
+/**
+ * Handle undo_operation tool requests
+ */
+export async function handleUndoOperationRequest(
+  args: any,
+  instance: TriliumInstance
+): Promise<{ content: Array<{ type: string; text: string }> }> {
+  if (!instance.hasPermission("WRITE")) {
+    throw new McpError(ErrorCode.InvalidRequest, "Permission denied: Not authorized to undo operations.");
+  }
+
+  if (!args.operationId) {
+    throw new McpError(ErrorCode.InvalidParams, "Missing required parameter 'operationId'.");
+  }
+
+  return undo(instance, args.operationId, args.force === true);
+}
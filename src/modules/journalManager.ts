@@ -0,0 +1,155 @@
+/**
+ * Operation Journal Module
+ * Append-only JSONL log of write operations with the steps needed to reverse them
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { logVerbose, logVerboseError } from '../utils/verboseUtils.js';
+
+/**
+ * One step of the inverse of an operation, replayed by undo_operation
+ */
+export type UndoStep =
+  // Put back the content a write replaced; expectedBlobId is the blob the write produced
+  | { action: 'setContent'; noteId: string; content: string; expectedBlobId?: string }
+  | { action: 'setTitle'; noteId: string; title: string }
+  // Undo of note creation; childCount is the number of children created along with it
+  | { action: 'deleteNote'; noteId: string; childCount?: number }
+  // Undo of a soft delete
+  | { action: 'restoreFromTrash'; noteId: string }
+  | { action: 'deleteAttribute'; attributeId: string }
+  | { action: 'updateAttribute'; attributeId: string; value?: string; position?: number }
+  | {
+      action: 'createAttribute';
+      noteId: string;
+      type: 'label' | 'relation';
+      name: string;
+      value: string;
+      position?: number;
+      isInheritable?: boolean;
+    };
+
+export interface JournalOperation {
+  // Tool (or internal operation) that made the change
+  operation: string;
+  noteId: string;
+  description: string;
+  // Steps in the order they must be replayed; empty when the operation cannot be reversed
+  undo: UndoStep[];
+  // Why (part of) the operation cannot be reversed
+  irreversible?: string;
+}
+
+export interface JournalEntry extends JournalOperation {
+  id: string;
+  timestamp: string;
+  instance: string;
+}
+
+export interface JournalEntryStatus extends JournalEntry {
+  undone: boolean;
+}
+
+type JournalLine =
+  | ({ type: 'operation' } & JournalEntry)
+  | { type: 'undo'; operationId: string; timestamp: string };
+
+// Instance names of the ETAPI clients, so entries can be replayed against the right instance
+const instanceNames = new WeakMap<object, string>();
+
+/**
+ * Journal file location; journaling is disabled unless OPERATION_JOURNAL_PATH is set
+ */
+export function getJournalPath(): string | undefined {
+  return process.env.OPERATION_JOURNAL_PATH || undefined;
+}
+
+export function isJournalEnabled(): boolean {
+  return getJournalPath() !== undefined;
+}
+
+/**
+ * Associate an ETAPI client with the name of its instance
+ */
+export function registerJournalInstance(axiosInstance: object, instanceName: string): void {
+  instanceNames.set(axiosInstance, instanceName);
+}
+
+function appendLine(line: JournalLine): void {
+  const journalPath = getJournalPath()!;
+  fs.mkdirSync(path.dirname(journalPath), { recursive: true });
+  fs.appendFileSync(journalPath, JSON.stringify(line) + "\n", 'utf8');
+}
+
+/**
+ * Append an operation to the journal
+ * Never throws: a journal failure must not turn a successful write into an error
+ */
+export function recordOperation(axiosInstance: object, operation: JournalOperation): string | undefined {
+  if (!isJournalEnabled()) {
+    return undefined;
+  }
+
+  const entry: JournalEntry = {
+    id: `op_${Date.now().toString(36)}${randomBytes(3).toString('hex')}`,
+    timestamp: new Date().toISOString(),
+    instance: instanceNames.get(axiosInstance) || 'default',
+    ...operation
+  };
+
+  try {
+    appendLine({ type: 'operation', ...entry });
+    logVerbose("recordOperation", `Journaled ${entry.operation} on ${entry.noteId} as ${entry.id}`);
+    return entry.id;
+  } catch (error) {
+    logVerboseError("recordOperation", error);
+    console.error(`Warning: Failed to write operation journal entry for ${operation.operation} on ${operation.noteId}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Mark an operation as undone
+ */
+export function recordUndo(operationId: string): void {
+  appendLine({ type: 'undo', operationId, timestamp: new Date().toISOString() });
+}
+
+/**
+ * Read all journaled operations of an instance, oldest first
+ */
+export function readJournal(instanceName: string): JournalEntryStatus[] {
+  const journalPath = getJournalPath();
+  if (!journalPath || !fs.existsSync(journalPath)) {
+    return [];
+  }
+
+  const entries: JournalEntry[] = [];
+  const undone = new Set<string>();
+
+  for (const rawLine of fs.readFileSync(journalPath, 'utf8').split("\n")) {
+    if (!rawLine.trim()) {
+      continue;
+    }
+
+    let line: JournalLine;
+    try {
+      line = JSON.parse(rawLine);
+    } catch {
+      // A partially written line (e.g. after a crash) must not make the whole journal unreadable
+      logVerbose("readJournal", "Skipping unparseable journal line", rawLine);
+      continue;
+    }
+
+    if (line.type === 'undo') {
+      undone.add(line.operationId);
+    } else if (line.type === 'operation' && line.instance === instanceName) {
+      const { type, ...entry } = line;
+      entries.push(entry);
+    }
+  }
+
+  return entries.map(entry => ({ ...entry, undone: undone.has(entry.id) }));
+}
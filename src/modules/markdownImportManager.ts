@@ -0,0 +1,428 @@
+/**
+ * Markdown Import Module
+ * Imports a local folder of Markdown files as a subtree: folders become book notes, .md files text notes
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { convertMarkdownToHtml } from '../utils/contentProcessor.js';
+import { detectMimeType, detectNoteTypeFromPath } from '../utils/fileUtils.js';
+import { logVerbose, logVerboseApi, logVerboseError } from '../utils/verboseUtils.js';
+import { handleSearchNotes } from './searchManager.js';
+import { FileManager } from './fileManager.js';
+import { UndoStep, recordOperation } from './journalManager.js';
+
+// Label holding the source of an imported note: the absolute directory on the import root, relative paths below it
+export const IMPORT_SOURCE_LABEL = 'importSource';
+// Label holding the sha256 of the imported Markdown, to skip unchanged files on re-import
+export const IMPORT_HASH_LABEL = 'importSourceHash';
+
+const MARKDOWN_EXTENSIONS = new Set(['.md', '.markdown']);
+const DEFAULT_MAX_FILES = 500;
+
+export interface ImportMarkdownDirectoryOperation {
+  directoryPath: string;
+  parentNoteId: string;
+  // Title of the note mirroring the directory itself (default: the directory name)
+  title?: string;
+  maxFiles?: number;
+}
+
+export type ImportEntryStatus = 'created' | 'updated' | 'unchanged' | 'failed';
+
+export interface ImportEntry {
+  // Path relative to the imported directory ('/' separated)
+  sourcePath: string;
+  kind: 'folder' | 'file';
+  status: ImportEntryStatus;
+  noteId?: string;
+  message?: string;
+}
+
+export interface ImportMarkdownDirectoryResponse {
+  rootNoteId: string;
+  message: string;
+  entries: ImportEntry[];
+  imagesUploaded: number;
+  // Relative links and images that could not be mapped to an imported note or a local image
+  unresolvedLinks: Array<{ sourcePath: string; link: string }>;
+  missingImages: Array<{ sourcePath: string; image: string }>;
+}
+
+interface ExistingImport {
+  noteId: string;
+  hash?: string;
+  hashAttributeId?: string;
+}
+
+interface ImportState {
+  axiosInstance: any;
+  directory: string;
+  // The directory with symbolic links resolved, to check that images really are inside it
+  realDirectory: string;
+  // sourcePath -> noteId of every folder and file of this import
+  noteIds: Map<string, string>;
+  response: ImportMarkdownDirectoryResponse;
+  fileManager: FileManager;
+}
+
+/**
+ * List the Markdown files and the folders containing them, parents before children
+ * Hidden entries (starting with '.') and symbolic links are ignored
+ */
+function scanDirectory(directory: string, relative: string = ''): { folders: string[]; files: string[] } {
+  const folders: string[] = [];
+  const files: string[] = [];
+  const entries = fs.readdirSync(path.join(directory, relative), { withFileTypes: true })
+    .filter(entry => !entry.name.startsWith('.'))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of entries) {
+    const entryPath = relative ? `${relative}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      const nested = scanDirectory(directory, entryPath);
+      if (nested.files.length > 0) {
+        folders.push(entryPath, ...nested.folders);
+        files.push(...nested.files);
+      }
+    } else if (entry.isFile() && MARKDOWN_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+      files.push(entryPath);
+    }
+  }
+
+  return { folders, files };
+}
+
+function parentSourcePath(sourcePath: string): string {
+  return path.posix.dirname(sourcePath) === '.' ? '' : path.posix.dirname(sourcePath);
+}
+
+/**
+ * Find the notes of a previous import of the same directory under the same parent
+ */
+async function findPreviousImport(
+  parentNoteId: string,
+  directory: string,
+  axiosInstance: any
+): Promise<{ rootNoteId?: string; notes: Map<string, ExistingImport> }> {
+  const notes = new Map<string, ExistingImport>();
+
+  const roots = await handleSearchNotes({
+    searchCriteria: [
+      { property: IMPORT_SOURCE_LABEL, type: 'label', op: '=', value: directory, logic: 'AND' },
+      { property: 'parents.noteId', type: 'noteProperty', op: '=', value: parentNoteId, logic: 'AND' }
+    ]
+  }, axiosInstance);
+
+  if (roots.results.length === 0) {
+    return { notes };
+  }
+
+  const rootNoteId = roots.results[0].noteId;
+  const imported = await handleSearchNotes({
+    searchCriteria: [
+      { property: IMPORT_SOURCE_LABEL, type: 'label', op: 'exists', logic: 'AND' },
+      { property: 'ancestors.noteId', type: 'noteProperty', op: '=', value: rootNoteId, logic: 'AND' }
+    ]
+  }, axiosInstance);
+
+  for (const note of imported.results) {
+    const source = note.attributes.find((attr: any) => attr.type === 'label' && attr.name === IMPORT_SOURCE_LABEL);
+    const hash = note.attributes.find((attr: any) => attr.type === 'label' && attr.name === IMPORT_HASH_LABEL);
+    if (source && !notes.has(source.value)) {
+      notes.set(source.value, { noteId: note.noteId, hash: hash?.value, hashAttributeId: hash?.attributeId });
+    }
+  }
+
+  return { rootNoteId, notes };
+}
+
+async function createLabel(noteId: string, name: string, value: string, axiosInstance: any): Promise<void> {
+  const attributeData = { noteId, type: 'label', name, value, position: 10, isInheritable: false };
+  logVerboseApi("POST", "/attributes", attributeData);
+  await axiosInstance.post("/attributes", attributeData);
+}
+
+async function createImportNote(
+  parentNoteId: string,
+  title: string,
+  type: 'book' | 'text',
+  sourcePath: string,
+  axiosInstance: any
+): Promise<string> {
+  const noteData = { parentNoteId, title, type, content: '' };
+  logVerboseApi("POST", "/create-note", noteData);
+  const response = await axiosInstance.post("/create-note", noteData);
+  const noteId = response.data.note.noteId;
+  await createLabel(noteId, IMPORT_SOURCE_LABEL, sourcePath, axiosInstance);
+  return noteId;
+}
+
+/**
+ * Resolve a relative link or image source of a Markdown file to a path relative to the imported directory
+ * Returns null for external URLs, in-page anchors and absolute paths
+ */
+function resolveRelativePath(sourcePath: string, reference: string): string | null {
+  const decoded = reference.replace(/&amp;/g, '&');
+  if (!decoded || /^[a-z][a-z0-9+.-]*:/i.test(decoded) || decoded.startsWith('#') || decoded.startsWith('/')) {
+    return null;
+  }
+
+  let target = decoded.split('#')[0].split('?')[0];
+  try {
+    target = decodeURIComponent(target);
+  } catch {
+    // Keep the raw reference when it is not valid percent-encoding
+  }
+
+  return path.posix.normalize(path.posix.join(parentSourcePath(sourcePath), target)).replace(/\/$/, '');
+}
+
+/**
+ * Whether an existing file is inside a directory once symbolic links are resolved
+ */
+function isInsideDirectory(filePath: string, realDirectory: string): boolean {
+  let realPath: string;
+  try {
+    realPath = fs.realpathSync(filePath);
+  } catch {
+    return false;
+  }
+  const inside = path.relative(realDirectory, realPath);
+  return !inside.startsWith('..') && !path.isAbsolute(inside) && fs.statSync(realPath).isFile();
+}
+
+/**
+ * Add the reference-link class to an anchor's attributes, merged into its class attribute if it has one
+ */
+function addReferenceLinkClass(before: string, after: string): [string, string] {
+  const hasClass = /\sclass="/i;
+  if (!hasClass.test(before) && !hasClass.test(after)) {
+    return [` class="reference-link"${before}`, after];
+  }
+  const merge = (attributes: string) =>
+    attributes.replace(/\sclass="([^"]*)"/i, (_, classes: string) => ` class="reference-link ${classes}"`);
+  return [merge(before), merge(after)];
+}
+
+/**
+ * Upload the local images of a converted file and rewrite links between imported files
+ */
+async function rewriteReferences(html: string, sourcePath: string, noteId: string, state: ImportState): Promise<string> {
+  const { response, noteIds } = state;
+
+  // Upload each local image once per note
+  const uploaded = new Map<string, string>();
+  for (const match of html.matchAll(/<img\b[^>]*?\ssrc="([^"]*)"/gi)) {
+    const src = match[1];
+    const target = resolveRelativePath(sourcePath, src);
+    if (target === null || uploaded.has(src)) {
+      continue;
+    }
+
+    // Images outside the imported directory ('../../secret.png', or a symbolic link pointing out of it) are never read
+    const filePath = path.resolve(state.directory, target);
+    if (!isInsideDirectory(filePath, state.realDirectory) || detectNoteTypeFromPath(filePath) !== 'image') {
+      response.missingImages.push({ sourcePath, image: src });
+      continue;
+    }
+
+    const fileName = path.basename(filePath);
+    const attachmentId = await state.fileManager.createImageAttachment(noteId, filePath, detectMimeType(filePath), fileName);
+    uploaded.set(src, `api/attachments/${attachmentId}/image/${encodeURIComponent(fileName)}`);
+    response.imagesUploaded++;
+  }
+
+  const withImages = html.replace(/(<img\b[^>]*?\ssrc=")([^"]*)(")/gi, (whole, before: string, src: string, after: string) =>
+    uploaded.has(src) ? `${before}${uploaded.get(src)}${after}` : whole
+  );
+
+  // Links to imported files (or folders) become Trilium reference links
+  return withImages.replace(/<a\b([^>]*?)\shref="([^"]*)"([^>]*)>/gi, (whole, before: string, href: string, after: string) => {
+    const target = resolveRelativePath(sourcePath, href);
+    if (target === null) {
+      return whole;
+    }
+    const targetNoteId = noteIds.get(target);
+    if (!targetNoteId) {
+      response.unresolvedLinks.push({ sourcePath, link: href });
+      return whole;
+    }
+    const [attributesBefore, attributesAfter] = addReferenceLinkClass(before, after);
+    return `<a${attributesBefore} href="#root/${targetNoteId}"${attributesAfter}>`;
+  });
+}
+
+/**
+ * Import a local directory of Markdown files under parentNoteId
+ * Re-running the import updates the same notes (found by their importSource label) and skips files whose
+ * content hash is unchanged.
+ */
+export async function handleImportMarkdownDirectory(
+  args: ImportMarkdownDirectoryOperation,
+  axiosInstance: any
+): Promise<ImportMarkdownDirectoryResponse> {
+  const { parentNoteId, maxFiles = DEFAULT_MAX_FILES } = args;
+
+  if (!args.directoryPath || !parentNoteId) {
+    throw new Error("directoryPath and parentNoteId are required to import a Markdown directory.");
+  }
+
+  const directory = path.resolve(args.directoryPath);
+  if (!fs.existsSync(directory) || !fs.statSync(directory).isDirectory()) {
+    throw new Error(`Directory not found: ${directory}`);
+  }
+
+  const { folders, files } = scanDirectory(directory);
+  if (files.length === 0) {
+    throw new Error(`No Markdown files (.md, .markdown) found in ${directory}.`);
+  }
+  if (files.length > maxFiles) {
+    throw new Error(`${directory} contains ${files.length} Markdown files, more than maxFiles (${maxFiles}). Import a subdirectory or raise maxFiles.`);
+  }
+
+  const previous = await findPreviousImport(parentNoteId, directory, axiosInstance);
+
+  const response: ImportMarkdownDirectoryResponse = {
+    rootNoteId: '',
+    message: '',
+    entries: [],
+    imagesUploaded: 0,
+    unresolvedLinks: [],
+    missingImages: []
+  };
+  const state: ImportState = {
+    axiosInstance,
+    directory,
+    realDirectory: fs.realpathSync(directory),
+    noteIds: new Map(),
+    response,
+    fileManager: new FileManager(axiosInstance)
+  };
+
+  // Journal: new notes whose parent already existed are deleted on undo, updated notes get their content back
+  const undo: UndoStep[] = [];
+  const createdNotes = new Set<string>();
+  const childCounts = new Map<string, number>();
+  const trackCreated = (noteId: string, parentId: string) => {
+    createdNotes.add(noteId);
+    if (createdNotes.has(parentId)) {
+      childCounts.set(parentId, (childCounts.get(parentId) || 0) + 1);
+    } else {
+      undo.push({ action: 'deleteNote', noteId });
+    }
+  };
+
+  // Pass 1: make sure a note exists for the directory, every folder and every file, so links can be resolved
+  let rootNoteId = previous.rootNoteId;
+  if (!rootNoteId) {
+    rootNoteId = await createImportNote(parentNoteId, args.title || path.basename(directory), 'book', directory, axiosInstance);
+    trackCreated(rootNoteId, parentNoteId);
+  }
+  response.rootNoteId = rootNoteId;
+  state.noteIds.set('.', rootNoteId);
+
+  const noteIdFor = (sourcePath: string) => state.noteIds.get(parentSourcePath(sourcePath) || '.')!;
+  const newFiles = new Set<string>();
+
+  for (const folder of folders) {
+    const existing = previous.notes.get(folder);
+    if (existing) {
+      state.noteIds.set(folder, existing.noteId);
+      response.entries.push({ sourcePath: folder, kind: 'folder', status: 'unchanged', noteId: existing.noteId });
+      continue;
+    }
+    const parentId = noteIdFor(folder);
+    const noteId = await createImportNote(parentId, path.posix.basename(folder), 'book', folder, axiosInstance);
+    trackCreated(noteId, parentId);
+    state.noteIds.set(folder, noteId);
+    response.entries.push({ sourcePath: folder, kind: 'folder', status: 'created', noteId });
+  }
+
+  for (const file of files) {
+    const existing = previous.notes.get(file);
+    if (existing) {
+      state.noteIds.set(file, existing.noteId);
+      continue;
+    }
+    const parentId = noteIdFor(file);
+    const title = path.posix.basename(file).replace(/\.(md|markdown)$/i, '');
+    const noteId = await createImportNote(parentId, title, 'text', file, axiosInstance);
+    trackCreated(noteId, parentId);
+    state.noteIds.set(file, noteId);
+    newFiles.add(file);
+  }
+
+  // Pass 2: convert and write the content of new and changed files
+  for (const file of files) {
+    const noteId = state.noteIds.get(file)!;
+    const existing = previous.notes.get(file);
+
+    try {
+      const markdown = fs.readFileSync(path.join(directory, file), 'utf8');
+      const hash = createHash('sha256').update(markdown).digest('hex');
+
+      if (existing && existing.hash === hash) {
+        response.entries.push({ sourcePath: file, kind: 'file', status: 'unchanged', noteId });
+        continue;
+      }
+
+      const html = await rewriteReferences(await convertMarkdownToHtml(markdown), file, noteId, state);
+
+      if (existing) {
+        const previousContent = await axiosInstance.get(`/notes/${noteId}/content`, { responseType: 'text' });
+        undo.push({ action: 'setContent', noteId, content: previousContent.data });
+        try {
+          await axiosInstance.post(`/notes/${noteId}/revision`);
+        } catch (error) {
+          console.error(`Warning: Failed to create revision for note ${noteId}:`, error);
+        }
+      }
+
+      logVerboseApi("PUT", `/notes/${noteId}/content`);
+      await axiosInstance.put(`/notes/${noteId}/content`, html, {
+        headers: { "Content-Type": "text/plain" }
+      });
+
+      // The hash is written last, so a failed write is retried by the next import
+      if (existing?.hashAttributeId) {
+        await axiosInstance.patch(`/attributes/${existing.hashAttributeId}`, { value: hash });
+      } else {
+        await createLabel(noteId, IMPORT_HASH_LABEL, hash, axiosInstance);
+      }
+
+      response.entries.push({ sourcePath: file, kind: 'file', status: newFiles.has(file) ? 'created' : 'updated', noteId });
+    } catch (error) {
+      logVerboseError("handleImportMarkdownDirectory", error);
+      response.entries.push({
+        sourcePath: file,
+        kind: 'file',
+        status: 'failed',
+        noteId,
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  if (undo.length > 0) {
+    recordOperation(axiosInstance, {
+      operation: "import_markdown_directory",
+      noteId: rootNoteId,
+      description: `Imported Markdown directory ${directory} under ${parentNoteId}`,
+      undo: undo.map(step => step.action === 'deleteNote' ? { ...step, childCount: childCounts.get(step.noteId) || 0 } : step),
+      irreversible: response.imagesUploaded > 0 ? "image attachments uploaded to updated notes are not removed" : undefined
+    });
+  }
+
+  const count = (status: ImportEntryStatus) => response.entries.filter(entry => entry.kind === 'file' && entry.status === status).length;
+  response.message = `Imported ${directory} into note ${rootNoteId}: ${count('created')} file(s) created, ${count('updated')} updated, ` +
+    `${count('unchanged')} unchanged, ${count('failed')} failed; ${response.imagesUploaded} image(s) uploaded.`;
+
+  logVerbose("handleImportMarkdownDirectory", response.message, {
+    unresolvedLinks: response.unresolvedLinks,
+    missingImages: response.missingImages
+  });
+
+  return response;
+}
@@ -13,6 +13,21 @@ import {
   handleGetNote,
   handleSearchReplaceNote
 } from "./noteManager.js";
+import { TrashOptions } from "./trashManager.js";
+import { previewDeleteNote, verifyConfirmationToken } from "./deletePreviewManager.js";
+import { handleEditSection } from "./sectionManager.js";
+import { handleBulkSearchReplace } from "./bulkReplaceManager.js";
+import { handleCreateNoteTree, handleGetNoteTree } from "./noteTreeManager.js";
+import { handleImportMarkdownDirectory } from "./markdownImportManager.js";
+import { handleExportSubtree } from "./exportManager.js";
+import { handleImportZip } from "./zipImportManager.js";
+
+/**
+ * Append a dry-run diff to a result message
+ */
+function formatWithDiff(message: string, diff?: string): string {
+  return diff ? `${message}\n\n\`\`\`diff\n${diff}\n\`\`\`` : message;
+}
 
 /**
  * Handle create_note tool requests
@@ -89,6 +104,124 @@ export async function handleCreateNoteRequest(
   }
 }
 
+/**
+ * Handle create_note_tree tool requests
+ */
+export async function handleCreateNoteTreeRequest(
+  args: any,
+  axiosInstance: any,
+  permissionChecker: PermissionChecker
+): Promise<{ content: Array<{ type: string; text: string }> }> {
+  if (!permissionChecker.hasPermission("WRITE")) {
+    throw new McpError(ErrorCode.InvalidRequest, "Permission denied: Not authorized to create notes.");
+  }
+
+  if (!Array.isArray(args.notes) || args.notes.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, "Missing required parameter 'notes': an array of notes (with optional children) to create.");
+  }
+
+  if (args.onError !== undefined && !['rollback', 'keep'].includes(args.onError)) {
+    throw new McpError(ErrorCode.InvalidParams, "Parameter 'onError' must be either 'rollback' or 'keep'.");
+  }
+
+  try {
+    const result = await handleCreateNoteTree({
+      parentNoteId: args.parentNoteId || "root", // Use default value if not provided
+      notes: args.notes,
+      onError: args.onError,
+      forceCreate: args.forceCreate === true
+    }, axiosInstance);
+
+    return {
+      content: [{
+        type: "text",
+        text: `${result.message}\n${JSON.stringify({ idMap: result.idMap, created: result.created }, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Handle import_markdown_directory tool requests
+ */
+export async function handleImportMarkdownDirectoryRequest(
+  args: any,
+  axiosInstance: any,
+  permissionChecker: PermissionChecker
+): Promise<{ content: Array<{ type: string; text: string }> }> {
+  if (!permissionChecker.hasPermission("WRITE")) {
+    throw new McpError(ErrorCode.InvalidRequest, "Permission denied: Not authorized to create notes.");
+  }
+
+  if (!args.directoryPath) {
+    throw new McpError(ErrorCode.InvalidParams, "Missing required parameter 'directoryPath'.");
+  }
+
+  try {
+    const result = await handleImportMarkdownDirectory({
+      directoryPath: args.directoryPath,
+      parentNoteId: args.parentNoteId || "root", // Use default value if not provided
+      title: args.title,
+      maxFiles: args.maxFiles
+    }, axiosInstance);
+
+    const { message, ...details } = result;
+    return {
+      content: [{
+        type: "text",
+        text: `${message}\n${JSON.stringify(details, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Handle import_zip tool requests
+ */
+export async function handleImportZipRequest(
+  args: any,
+  axiosInstance: any,
+  permissionChecker: PermissionChecker
+): Promise<{ content: Array<{ type: string; text: string }> }> {
+  if (!permissionChecker.hasPermission("WRITE")) {
+    throw new McpError(ErrorCode.InvalidRequest, "Permission denied: Not authorized to create notes.");
+  }
+
+  if (!args.zipSource) {
+    throw new McpError(ErrorCode.InvalidParams, "Missing required parameter 'zipSource'.");
+  }
+
+  try {
+    const result = await handleImportZip({
+      zipSource: args.zipSource,
+      parentNoteId: args.parentNoteId || "root" // Use default value if not provided
+    }, axiosInstance);
+
+    const { message, ...details } = result;
+    return {
+      content: [{
+        type: "text",
+        text: `${message}\n${JSON.stringify(details, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+}
+
 /**
  * Handle update_note tool requests
  */
@@ -110,7 +243,9 @@ export async function handleUpdateNoteRequest(
   }
 
   // Validate that either title, content, or fileUri is provided
-  if (!args.title && !args.content && !args.fileUri) {
+  // (replace_range accepts empty content, which deletes the range)
+  const hasContent = args.content || (args.mode === 'replace_range' && typeof args.content === 'string');
+  if (!args.title && !hasContent && !args.fileUri) {
     throw new McpError(
       ErrorCode.InvalidParams,
       "Either 'title', 'content', or 'fileUri' (or any combination) must be provided for update operation."
@@ -199,7 +334,11 @@ export async function handleUpdateNoteRequest(
       fileUri: args.fileUri,
       revision: args.revision !== false, // Default to true (safe behavior)
       expectedHash: args.expectedHash,
-      mode: args.mode
+      mode: args.mode,
+      anchor: args.anchor,
+      anchorType: args.anchorType,
+      range: args.range,
+      dryRun: args.dryRun === true
     };
 
     const result = await handleUpdateNote(noteOperation, axiosInstance);
@@ -207,7 +346,7 @@ export async function handleUpdateNoteRequest(
     return {
       content: [{
         type: "text",
-        text: result.message
+        text: formatWithDiff(result.message, result.diff)
       }]
     };
   } catch (error) {
@@ -225,18 +364,51 @@ export async function handleUpdateNoteRequest(
 export async function handleDeleteNoteRequest(
   args: any,
   axiosInstance: any,
-  permissionChecker: PermissionChecker
+  permissionChecker: PermissionChecker,
+  trashOptions?: TrashOptions
 ): Promise<{ content: Array<{ type: string; text: string }> }> {
   if (!permissionChecker.hasPermission("WRITE")) {
     throw new McpError(ErrorCode.InvalidRequest, "Permission denied: Not authorized to delete notes.");
   }
 
+  if (!args.noteId) {
+    throw new McpError(ErrorCode.InvalidParams, "Missing required parameter 'noteId'.");
+  }
+
   try {
+    if (args.preview === true) {
+      const preview = await previewDeleteNote(args.noteId, axiosInstance);
+      const mode = trashOptions?.mode === 'soft'
+        ? "Delete mode: soft (the note will be moved to the trash and can be restored with restore_note)."
+        : "Delete mode: hard (the deletion is permanent).";
+
+      return {
+        content: [{
+          type: "text",
+          text: `Delete preview for note ${args.noteId}. ${mode} Nothing has been deleted yet; call delete_note again with confirmationToken "${preview.confirmationToken}" to proceed.\n${JSON.stringify(preview, null, 2)}`
+        }]
+      };
+    }
+
+    if (!args.confirmationToken) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "Missing 'confirmationToken'. Call delete_note with preview=true first and review the impact before deleting."
+      );
+    }
+
+    if (!await verifyConfirmationToken(args.noteId, args.confirmationToken, axiosInstance)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "Invalid or outdated 'confirmationToken': the note or its subtree changed since the preview. Run delete_note with preview=true again."
+      );
+    }
+
     const noteOperation: NoteOperation = {
       noteId: args.noteId
     };
 
-    const result = await handleDeleteNote(noteOperation, axiosInstance);
+    const result = await handleDeleteNote(noteOperation, axiosInstance, trashOptions);
 
     return {
       content: [{
@@ -271,7 +443,9 @@ export async function handleGetNoteRequest(
       includeBinaryContent: args.includeBinaryContent || false,
       searchPattern: args.searchPattern,
       useRegex: args.useRegex !== false, // Default to true
-      searchFlags: args.searchFlags || 'g'
+      searchFlags: args.searchFlags || 'g',
+      format: args.format || 'html',
+      includePaths: args.includePaths || false
     };
 
     const result = await handleGetNote(noteOperation, axiosInstance);
@@ -288,6 +462,9 @@ export async function handleGetNoteRequest(
     } else if (result.content) {
       // Standard response, include content but not search
       responseData.content = result.content;
+      if (result.contentFormat) {
+        responseData.contentFormat = result.contentFormat;
+      }
     }
 
     return {
@@ -304,6 +481,87 @@ export async function handleGetNoteRequest(
   }
 }
 
+/**
+ * Handle get_note_tree tool requests
+ */
+export async function handleGetNoteTreeRequest(
+  args: any,
+  axiosInstance: any,
+  permissionChecker: PermissionChecker
+): Promise<{ content: Array<{ type: string; text: string }> }> {
+  if (!permissionChecker.hasPermission("READ")) {
+    throw new McpError(ErrorCode.InvalidRequest, "Permission denied: Not authorized to get notes.");
+  }
+
+  try {
+    const result = await handleGetNoteTree({
+      noteId: args.noteId || "root",
+      depth: args.depth,
+      includeArchived: args.includeArchived || false,
+      format: args.format || 'lines',
+      maxNotes: args.maxNotes
+    }, axiosInstance);
+
+    const truncatedMsg = result.truncated
+      ? `\n(truncated after ${result.noteCount} notes; list a subtree or lower depth to see the rest)`
+      : "";
+
+    return {
+      content: [{
+        type: "text",
+        text: result.lines
+          ? `${result.lines.join("\n")}${truncatedMsg}`
+          : `${JSON.stringify(result.tree, null, 2)}${truncatedMsg}`
+      }]
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Handle export_subtree tool requests
+ */
+export async function handleExportSubtreeRequest(
+  args: any,
+  axiosInstance: any,
+  permissionChecker: PermissionChecker
+): Promise<{ content: Array<{ type: string; text: string }> }> {
+  if (!permissionChecker.hasPermission("READ")) {
+    throw new McpError(ErrorCode.InvalidRequest, "Permission denied: Not authorized to export notes.");
+  }
+
+  if (!args.noteId) {
+    throw new McpError(ErrorCode.InvalidParams, "Missing required parameter 'noteId'.");
+  }
+
+  try {
+    const result = await handleExportSubtree({
+      noteId: args.noteId,
+      format: args.format,
+      filename: args.filename,
+      extract: args.extract || false,
+      overwrite: args.overwrite || false
+    }, axiosInstance);
+
+    const { message, ...details } = result;
+    return {
+      content: [{
+        type: "text",
+        text: `${message}\n${JSON.stringify(details, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+}
+
 /**
  * Handle search_and_replace_note tool requests
  */
@@ -346,8 +604,10 @@ export async function handleSearchReplaceNoteRequest(
       replacePattern: args.replacePattern,
       useRegex: args.useRegex !== false, // Default to true
       searchFlags: args.searchFlags || 'g',
+      htmlMode: args.htmlMode === 'text' ? 'text' : 'raw',
       revision: args.revision !== false, // Default to true for safety
-      expectedHash: args.expectedHash
+      expectedHash: args.expectedHash,
+      dryRun: args.dryRun === true
     };
 
     const result = await handleSearchReplaceNote(noteOperation, axiosInstance);
@@ -355,7 +615,7 @@ export async function handleSearchReplaceNoteRequest(
     return {
       content: [{
         type: "text",
-        text: result.message
+        text: formatWithDiff(result.message, result.diff)
       }]
     };
   } catch (error) {
@@ -364,4 +624,129 @@ export async function handleSearchReplaceNoteRequest(
     }
     throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Handle edit_section tool requests
+ */
+export async function handleEditSectionRequest(
+  args: any,
+  axiosInstance: any,
+  permissionChecker: PermissionChecker
+): Promise<{ content: Array<{ type: string; text: string }> }> {
+  if (!permissionChecker.hasPermission("WRITE")) {
+    throw new McpError(ErrorCode.InvalidRequest, "Permission denied: Not authorized to edit notes.");
+  }
+
+  if (!args.noteId || !args.headingPath) {
+    throw new McpError(ErrorCode.InvalidParams, "Missing required parameters 'noteId' and 'headingPath'.");
+  }
+
+  if (!args.expectedHash) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      "Missing required parameter 'expectedHash'. You must call get_note first to retrieve the current blobId."
+    );
+  }
+
+  if (!['replace', 'insert_before', 'insert_after', 'delete'].includes(args.operation)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      "Parameter 'operation' must be one of 'replace', 'insert_before', 'insert_after', 'delete'."
+    );
+  }
+
+  try {
+    const result = await handleEditSection({
+      noteId: args.noteId,
+      headingPath: args.headingPath,
+      operation: args.operation,
+      content: args.content,
+      expectedHash: args.expectedHash,
+      revision: args.revision !== false,
+      dryRun: args.dryRun === true
+    }, axiosInstance);
+
+    return {
+      content: [{
+        type: "text",
+        text: formatWithDiff(result.message, result.diff)
+      }]
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Handle bulk_search_replace tool requests
+ */
+export async function handleBulkSearchReplaceRequest(
+  args: any,
+  axiosInstance: any,
+  permissionChecker: PermissionChecker
+): Promise<{ content: Array<{ type: string; text: string }> }> {
+  if (!permissionChecker.hasPermission("WRITE")) {
+    throw new McpError(ErrorCode.InvalidRequest, "Permission denied: Not authorized to modify notes.");
+  }
+
+  if (!args.text && (!Array.isArray(args.searchCriteria) || args.searchCriteria.length === 0)) {
+    throw new McpError(ErrorCode.InvalidParams, "Either 'text' or 'searchCriteria' is required to select the notes to edit.");
+  }
+
+  if (!args.searchPattern || !args.replacePattern) {
+    throw new McpError(ErrorCode.InvalidParams, "Missing required parameters 'searchPattern' and 'replacePattern'.");
+  }
+
+  try {
+    const result = await handleBulkSearchReplace({
+      text: args.text,
+      searchCriteria: args.searchCriteria,
+      limit: args.limit,
+      searchPattern: args.searchPattern,
+      replacePattern: args.replacePattern,
+      useRegex: args.useRegex !== false, // Default to true
+      searchFlags: args.searchFlags || 'g',
+      htmlMode: args.htmlMode === 'text' ? 'text' : 'raw',
+      expectedHashes: args.expectedHashes,
+      revision: args.revision !== false, // Default to true for safety
+      maxNotes: args.maxNotes
+    }, axiosInstance);
+
+    const lines = result.results.map(note =>
+      `- ${note.noteId} "${note.title}": ${note.status}${note.matches ? ` (${note.matches} match(es))` : ''}${note.message && note.status !== 'applied' ? ` - ${note.message}` : ''}`
+    );
+
+    let text: string;
+    if (result.preview) {
+      const count = Object.keys(result.expectedHashes || {}).length;
+      text = `Bulk search and replace preview: ${result.totalMatches} match(es) in ${count} of ${result.notesSearched} note(s). Nothing has been written yet; ` +
+        `call bulk_search_replace again with the same arguments plus expectedHashes to apply.\n${lines.join('\n')}\n\n` +
+        `expectedHashes: ${JSON.stringify(result.expectedHashes)}`;
+      const diffs = result.results
+        .filter(note => note.diff)
+        .map(note => `\`\`\`diff\n${note.diff}\n\`\`\``);
+      if (diffs.length > 0) {
+        text += `\n\n${diffs.join('\n\n')}`;
+      }
+    } else {
+      const applied = result.results.filter(note => note.status === 'applied').length;
+      text = `Bulk search and replace applied: ${result.totalMatches} replacement(s) in ${applied} note(s).\n${lines.join('\n')}`;
+    }
+
+    return {
+      content: [{
+        type: "text",
+        text
+      }]
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+}
@@ -3,10 +3,18 @@
  * Handles CRUD operations for TriliumNext notes
  */
 
-import { processContentArray } from '../utils/contentProcessor.js';
+import { convertHtmlToMarkdown, processContentArray } from '../utils/contentProcessor.js';
 import { logVerbose, logVerboseError, logVerboseApi } from '../utils/verboseUtils.js';
 import { getContentRequirements, validateContentForNoteType, extractTemplateRelation } from '../utils/contentRules.js';
 import { SearchOperation } from './searchManager.js';
+import { TrashOptions, softDeleteNote } from './trashManager.js';
+import { recordOperation, isJournalEnabled } from './journalManager.js';
+import { createUnifiedDiff } from '../utils/diffUtils.js';
+import { findElementById, htmlToText, replaceInHtmlText } from '../utils/htmlUtils.js';
+import { ParsedFrontmatter, buildFrontmatter, parseFrontmatter } from '../utils/frontmatterUtils.js';
+import { buildSearchQuery } from './searchQueryBuilder.js';
+import { manage_attributes } from './attributeManager.js';
+import { NotePathResolver } from './notePathManager.js';
 
 export interface Attribute {
   type: 'label' | 'relation';
@@ -16,6 +24,12 @@ export interface Attribute {
   isInheritable?: boolean;
 }
 
+export type UpdateMode = 'overwrite' | 'append' | 'prepend' | 'insert_after' | 'insert_before' | 'replace_range';
+
+export type AnchorType = 'literal' | 'regex' | 'id';
+
+export type ContentFormat = 'html' | 'markdown' | 'text';
+
 export type NoteType = 'text' | 'code' | 'canvas' | 'render' | 'search' | 'relationMap' | 'book' | 'noteMap' | 'mermaid' | 'webView' | 'file' | 'image';
 
 export interface NoteOperation {
@@ -36,9 +50,27 @@ export interface NoteOperation {
   searchPattern?: string;
   useRegex?: boolean;
   searchFlags?: string;
-  mode?: 'overwrite' | 'append';
+  mode?: UpdateMode;
+  // Anchor for insert_after / insert_before, resolved against the stored content
+  anchor?: string;
+  anchorType?: AnchorType;
+  // Character range for replace_range, as returned in get_note search matches
+  range?: { index: number; length: number };
   // Search and replace parameters
   replacePattern?: string;
+  // 'text' matches against the rendered text of text notes instead of the raw HTML
+  htmlMode?: 'raw' | 'text';
+  // Run validation and processing, return a diff, write nothing
+  dryRun?: boolean;
+  // Representation of text note content returned by get_note
+  format?: ContentFormat;
+  // Add breadcrumb title paths to the note returned by get_note
+  includePaths?: boolean;
+}
+
+export interface CreateNoteOptions {
+  // Record the creation in the operation journal (default: true); off when the caller journals a batch
+  journal?: boolean;
 }
 
 export interface NoteCreateResponse {
@@ -59,6 +91,9 @@ export interface NoteUpdateResponse {
   message: string;
   revisionCreated: boolean;
   conflict?: boolean;
+  dryRun?: boolean;
+  diff?: string;
+  titleChange?: { from: string; to: string };
 }
 
 export interface NoteSearchReplaceResponse {
@@ -71,16 +106,22 @@ export interface NoteSearchReplaceResponse {
   searchPattern?: string;
   replacePattern?: string;
   useRegex?: boolean;
+  htmlMode?: 'raw' | 'text';
+  dryRun?: boolean;
+  diff?: string;
 }
 
 export interface NoteDeleteResponse {
   noteId: string;
   message: string;
+  trashNoteId?: string;
 }
 
 export interface NoteGetResponse {
   note: any;
   content?: string;
+  // Set when text note content was converted from the stored HTML
+  contentFormat?: ContentFormat;
   contentHash?: string;
   contentRequirements?: {
     requiresHtml: boolean;
@@ -116,6 +157,41 @@ function stripHtmlTags(html: string): string {
   return html.replace(/<[^>]*>/g, '');
 }
 
+/**
+ * Journal a content (and optionally title) change so it can be undone
+ * The resulting blobId is recorded so undo can detect later edits
+ */
+export async function journalContentChange(
+  axiosInstance: any,
+  operation: string,
+  noteId: string,
+  previousContent: string,
+  previousTitle: string | undefined,
+  description: string
+): Promise<void> {
+  if (!isJournalEnabled()) {
+    return;
+  }
+
+  let expectedBlobId: string | undefined;
+  try {
+    const updated = await axiosInstance.get(`/notes/${noteId}`);
+    expectedBlobId = updated.data.blobId;
+  } catch (error) {
+    logVerboseError("journalContentChange", error);
+  }
+
+  recordOperation(axiosInstance, {
+    operation,
+    noteId,
+    description,
+    undo: [
+      { action: 'setContent', noteId, content: previousContent, expectedBlobId },
+      ...(previousTitle !== undefined ? [{ action: 'setTitle' as const, noteId, title: previousTitle }] : [])
+    ]
+  });
+}
+
 /**
  * Execute unified search on content (supports both regex and literal search)
  */
@@ -175,19 +251,26 @@ function filterFlagsForMode(flags: string, useRegex: boolean): string {
 
 /**
  * Execute search and replace on content
+ * In text mode only the text nodes of the HTML are searched and edited
  */
 function executeSearchReplace(
   content: string,
   searchPattern: string,
   replacePattern: string,
   useRegex: boolean = true,
-  flags: string = 'g'
+  flags: string = 'g',
+  textOnly: boolean = false
 ): { newContent: string; replacements: number } {
   try {
     let newContent = content;
     let replacements = 0;
 
-    if (useRegex) {
+    if (textOnly) {
+      const regex = new RegExp(useRegex ? searchPattern : escapeRegExp(searchPattern), flags);
+      const result = replaceInHtmlText(content, regex, replacePattern);
+      newContent = result.content;
+      replacements = result.replacements;
+    } else if (useRegex) {
       // Regex-based replacement
       const regex = new RegExp(searchPattern, flags);
       replacements = (content.match(regex) || []).length;
@@ -256,14 +339,218 @@ async function checkDuplicateTitleInDirectory(
   }
 }
 
+const UPDATE_MODE_DESCRIPTIONS: Record<UpdateMode, string> = {
+  overwrite: 'Overwrote',
+  append: 'Appended to',
+  prepend: 'Prepended to',
+  insert_after: 'Inserted after an anchor in',
+  insert_before: 'Inserted before an anchor in',
+  replace_range: 'Replaced a range of'
+};
+
+const UPDATE_MODE_MESSAGES: Record<UpdateMode, string> = {
+  overwrite: 'overwritten',
+  append: 'appended',
+  prepend: 'prepended',
+  insert_after: 'inserted after anchor',
+  insert_before: 'inserted before anchor',
+  replace_range: 'range replaced'
+};
+
+/**
+ * Resolve an anchor to a unique position range in the stored content
+ */
+function resolveAnchor(
+  content: string,
+  anchor: string,
+  anchorType: AnchorType,
+  noteType: string
+): { start: number; end: number } {
+  if (anchorType === 'id') {
+    if (noteType !== 'text') {
+      throw new Error(`anchorType 'id' only works on text notes (HTML element ids); this note is of type '${noteType}'.`);
+    }
+    const element = findElementById(content, anchor);
+    if (!element) {
+      throw new Error(`No element with id="${anchor}" found in the note content.`);
+    }
+    return element;
+  }
+
+  const pattern = anchorType === 'regex' ? anchor : escapeRegExp(anchor);
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, 'g');
+  } catch (error) {
+    throw new Error(`Invalid regex anchor: ${anchor}. Error: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const matches = Array.from(content.matchAll(regex)).filter(match => match[0].length > 0);
+  if (matches.length === 0) {
+    throw new Error(`Anchor ${anchorType === 'regex' ? `/${anchor}/` : `"${anchor}"`} not found in the note content. Use get_note to check the stored content.`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`Anchor ${anchorType === 'regex' ? `/${anchor}/` : `"${anchor}"`} matches ${matches.length} times; it must identify a single position. Use a longer anchor or a regex.`);
+  }
+
+  return { start: matches[0].index!, end: matches[0].index! + matches[0][0].length };
+}
+
+/**
+ * Diff stored content for a dry run, labelled with the note ID
+ * HTML is broken into block-level lines so single-line CKEditor content stays readable
+ */
+function createContentDiff(noteId: string, noteType: string, oldContent: string, newContent: string): string {
+  return createUnifiedDiff(oldContent, newContent, {
+    oldLabel: `${noteId} (stored)`,
+    newLabel: `${noteId} (proposed)`,
+    splitHtml: noteType === 'text'
+  });
+}
+
+/**
+ * Turn a frontmatter block into attributes, resolving relation targets by exact note title
+ * Targets matching no note or several notes are reported instead of failing the write.
+ */
+async function resolveFrontmatterAttributes(
+  frontmatter: ParsedFrontmatter,
+  axiosInstance: any
+): Promise<{ attributes: Attribute[]; unresolved: string[] }> {
+  const attributes: Attribute[] = frontmatter.labels.map(label => ({ type: 'label', name: label.name, value: label.value }));
+  const unresolved: string[] = [];
+  const matchesByTitle = new Map<string, string[]>();
+
+  for (const relation of frontmatter.relations) {
+    if (!matchesByTitle.has(relation.targetTitle)) {
+      const params = new URLSearchParams();
+      params.append("search", buildSearchQuery({
+        searchCriteria: [{ property: "title", type: "noteProperty", op: "=", value: relation.targetTitle }]
+      }));
+      params.append("fastSearch", "false");
+      params.append("includeArchivedNotes", "true");
+
+      const response = await axiosInstance.get(`/notes?${params.toString()}`);
+      matchesByTitle.set(relation.targetTitle, (response.data.results || []).map((note: any) => note.noteId));
+    }
+
+    const matches = matchesByTitle.get(relation.targetTitle)!;
+    if (matches.length === 1) {
+      attributes.push({ type: 'relation', name: relation.name, value: matches[0] });
+    } else {
+      unresolved.push(`~${relation.name}: "${relation.targetTitle}" (${matches.length === 0 ? 'no note has this title' : `${matches.length} notes have this title`})`);
+    }
+  }
+
+  logVerbose("resolveFrontmatterAttributes", `Frontmatter maps to ${attributes.length} attributes, ${unresolved.length} unresolved relations`, attributes);
+  return { attributes, unresolved };
+}
+
+/**
+ * Compare frontmatter attributes with the attributes a note already has
+ * Missing ones are created; a single label value replaces a single differing label of the same name.
+ * Nothing is deleted: keys left out of the frontmatter keep their attributes.
+ */
+function diffFrontmatterAttributes(
+  existing: any[],
+  wanted: Attribute[]
+): { create: Attribute[]; update: Attribute[] } {
+  const create: Attribute[] = [];
+  const update: Attribute[] = [];
+
+  const has = (attribute: Attribute) => existing.some(attr =>
+    attr.type === attribute.type && attr.name === attribute.name && attr.value === (attribute.value || ''));
+
+  for (const attribute of wanted) {
+    if (has(attribute)) {
+      continue;
+    }
+
+    if (attribute.type === 'label') {
+      const sameName = existing.filter(attr => attr.type === 'label' && attr.name === attribute.name);
+      const wantedCount = wanted.filter(attr => attr.type === 'label' && attr.name === attribute.name).length;
+      if (sameName.length === 1 && wantedCount === 1) {
+        update.push(attribute);
+        continue;
+      }
+    }
+
+    create.push(attribute);
+  }
+
+  return { create, update };
+}
+
+/**
+ * Summarize frontmatter attribute changes for the tool response
+ */
+function describeFrontmatterChanges(
+  changes: { create: Attribute[]; update: Attribute[] },
+  unresolved: string[],
+  wouldApply: boolean
+): string {
+  const describe = (attributes: Attribute[]) => attributes
+    .map(attr => `${attr.type === 'relation' ? '~' : '#'}${attr.name}${attr.value ? `=${attr.value}` : ''}`)
+    .join(', ');
+
+  const parts: string[] = [];
+  if (changes.create.length > 0) {
+    parts.push(`${wouldApply ? 'would add' : 'added'} ${describe(changes.create)}`);
+  }
+  if (changes.update.length > 0) {
+    parts.push(`${wouldApply ? 'would update' : 'updated'} ${describe(changes.update)}`);
+  }
+  if (parts.length === 0) {
+    parts.push('attributes already up to date');
+  }
+  if (unresolved.length > 0) {
+    parts.push(`unresolved relations: ${unresolved.join(', ')}`);
+  }
+
+  return ` Frontmatter: ${parts.join('; ')}.`;
+}
+
+/**
+ * Apply frontmatter attribute changes through manage_attributes, which journals them
+ */
+async function applyFrontmatterAttributes(
+  noteId: string,
+  changes: { create: Attribute[]; update: Attribute[] },
+  axiosInstance: any
+): Promise<string[]> {
+  const errors: string[] = [];
+
+  if (changes.create.length > 0) {
+    const result = await manage_attributes({ noteId, operation: "batch_create", attributes: changes.create }, axiosInstance);
+    errors.push(...(result.errors || []));
+  }
+  for (const attribute of changes.update) {
+    const result = await manage_attributes({ noteId, operation: "update", attributes: [attribute] }, axiosInstance);
+    if (!result.success) {
+      errors.push(result.message);
+    }
+  }
+
+  return errors;
+}
+
 /**
  * Handle create note operation
  */
 export async function handleCreateNote(
   args: NoteOperation,
-  axiosInstance: any
+  axiosInstance: any,
+  options: CreateNoteOptions = {}
 ): Promise<NoteCreateResponse> {
-  const { parentNoteId, title, type, content: rawContent, mime, fileUri, attributes, forceCreate = false } = args;
+  const { parentNoteId, type, mime, fileUri, forceCreate = false } = args;
+  let { title, content: rawContent, attributes } = args;
+  const journal = options.journal !== false;
+
+  // YAML frontmatter (e.g. from Obsidian) on text notes: its title wins, its keys become attributes
+  const frontmatter = type === 'text' && rawContent ? parseFrontmatter(rawContent) : null;
+  if (frontmatter) {
+    title = frontmatter.title || title;
+    rawContent = frontmatter.body;
+  }
 
   // Validate required parameters
   if (!parentNoteId || !title || !type) {
@@ -293,6 +580,15 @@ export async function handleCreateNote(
         noteType: type as 'file' | 'image'
       });
 
+      if (journal) {
+        recordOperation(axiosInstance, {
+          operation: "create_note",
+          noteId: fileResult.note.noteId,
+          description: `Created ${type} note "${fileResult.note.title}" under ${parentNoteId}`,
+          undo: [{ action: 'deleteNote', noteId: fileResult.note.noteId }]
+        });
+      }
+
       return {
         noteId: fileResult.note.noteId,
         message: `Created file note: ${fileResult.note.noteId} (${fileResult.note.title})`,
@@ -321,6 +617,19 @@ export async function handleCreateNote(
     }
   }
 
+  // Frontmatter attributes come after the explicit ones; exact duplicates are dropped
+  let unresolvedRelations: string[] = [];
+  if (frontmatter) {
+    const resolved = await resolveFrontmatterAttributes(frontmatter, axiosInstance);
+    const explicit = attributes || [];
+    attributes = [
+      ...explicit,
+      ...resolved.attributes.filter(attribute => !explicit.some(attr =>
+        attr.type === attribute.type && attr.name === attribute.name && (attr.value || '') === attribute.value))
+    ];
+    unresolvedRelations = resolved.unresolved;
+  }
+
   // Process content to ETAPI format
   // Content is optional - if not provided, default to empty string
   const content = rawContent || "";
@@ -384,9 +693,22 @@ export async function handleCreateNote(
     }
   }
 
+  if (journal) {
+    recordOperation(axiosInstance, {
+      operation: "create_note",
+      noteId,
+      description: `Created ${type} note "${title}" under ${parentNoteId}`,
+      undo: [{ action: 'deleteNote', noteId }]
+    });
+  }
+
+  const frontmatterMsg = frontmatter
+    ? ` (frontmatter applied${unresolvedRelations.length > 0 ? `; unresolved relations: ${unresolvedRelations.join(', ')}` : ''})`
+    : "";
+
   return {
     noteId: noteId,
-    message: `Created note: ${noteId}`,
+    message: `Created note: ${noteId}${frontmatterMsg}`,
     duplicateFound: false
   };
 }
@@ -428,15 +750,18 @@ export async function handleUpdateNote(
 ): Promise<NoteUpdateResponse> {
   const {
     noteId,
-    title,
     type,
-    content: rawContent,
     mime,
     fileUri,
     revision = true,
     expectedHash,
-    mode
+    mode,
+    anchor,
+    anchorType = 'literal',
+    range,
+    dryRun = false
   } = args;
+  let { title, content: rawContent } = args;
 
   if (!noteId || !expectedHash) {
     throw new Error("noteId and expectedHash are required for update operation.");
@@ -444,7 +769,15 @@ export async function handleUpdateNote(
 
   // Mode is required only for content updates (non-file notes)
   if (type !== 'file' && !mode) {
-    throw new Error("mode is required for update operation. Please specify either 'overwrite' or 'append'.");
+    throw new Error("mode is required for update operation. Please specify 'overwrite', 'append', 'prepend', 'insert_after', 'insert_before' or 'replace_range'.");
+  }
+
+  if ((mode === 'insert_after' || mode === 'insert_before') && !anchor) {
+    throw new Error(`anchor is required for mode '${mode}'.`);
+  }
+
+  if (mode === 'replace_range' && (!range || !Number.isInteger(range.index) || !Number.isInteger(range.length) || range.index < 0 || range.length < 0)) {
+    throw new Error("range with non-negative integer 'index' and 'length' is required for mode 'replace_range'.");
   }
 
   // Handle file content updates (both 'file' and 'image' types)
@@ -453,6 +786,21 @@ export async function handleUpdateNote(
     const { FileManager } = await import('./fileManager.js');
     const { parseFileDataSource } = await import('../utils/fileUtils.js');
 
+    // Previous title, for the operation journal and dry runs
+    const previousTitle = title ? (await axiosInstance.get(`/notes/${noteId}`)).data.title : undefined;
+
+    if (dryRun) {
+      const titleChange = title && title !== previousTitle ? { from: previousTitle, to: title } : undefined;
+      const fileMsg = fileUri ? " The file content would be replaced (binary content is not diffed)." : "";
+      return {
+        noteId,
+        message: `DRY RUN: nothing was written to note ${noteId}.${titleChange ? ` Title would change from "${previousTitle}" to "${title}".` : ''}${fileMsg}`,
+        revisionCreated: false,
+        dryRun: true,
+        titleChange
+      };
+    }
+
     // If fileUri is provided, update file content
     if (fileUri) {
       // Use FileManager to handle the file upload (supports file paths, base64, data URIs)
@@ -473,6 +821,14 @@ export async function handleUpdateNote(
         const fileData = parseFileDataSource(fileUri);
         await fileManager.uploadFileContentFromData(noteId, fileData, mime || fileData.mimeType);
 
+        recordOperation(axiosInstance, {
+          operation: "update_note",
+          noteId,
+          description: `Uploaded new file content to note ${noteId}${title ? ` and renamed it to "${title}"` : ''}`,
+          undo: previousTitle !== undefined ? [{ action: 'setTitle', noteId, title: previousTitle }] : [],
+          irreversible: "previous file content is not kept in the journal"
+        });
+
         return {
           noteId,
           message: `File note updated: ${noteId} (${title || 'Title unchanged'})`,
@@ -492,6 +848,13 @@ export async function handleUpdateNote(
             headers: { "Content-Type": "application/json" }
           });
 
+          recordOperation(axiosInstance, {
+            operation: "update_note",
+            noteId,
+            description: `Renamed note ${noteId} from "${previousTitle}" to "${title}"`,
+            undo: [{ action: 'setTitle', noteId, title: previousTitle }]
+          });
+
           return {
             noteId,
             message: `File note metadata updated: ${noteId} (title updated to "${title}")`,
@@ -506,14 +869,25 @@ export async function handleUpdateNote(
     }
   }
 
-  // Check if this is a metadata-only update (title only, since type and mime are not changeable)
-  const isMetadataOnlyUpdate = title && !rawContent && !fileUri;
+  // YAML frontmatter on text notes: its title and keys are applied to the note, the block is not stored
+  // replace_range inserts its fragment verbatim, so frontmatter is only recognized in the other modes
+  const frontmatter = type === 'text' && mode !== 'replace_range' && rawContent ? parseFrontmatter(rawContent) : null;
+  if (frontmatter) {
+    title = frontmatter.title || title;
+    rawContent = frontmatter.body;
+  }
+
+  // replace_range with empty content deletes the range, so it counts as a content update
+  const hasContentUpdate = !!rawContent || (mode === 'replace_range' && typeof rawContent === 'string');
+
+  // Check if this is a metadata-only update (title and/or frontmatter attributes, since type and mime are not changeable)
+  const isMetadataOnlyUpdate = (title || frontmatter) && !hasContentUpdate && !fileUri;
 
   // Check if this is a multi-parameter update (title + content)
-  const isMultiParamUpdate = title && (rawContent || fileUri);
+  const isMultiParamUpdate = title && (hasContentUpdate || fileUri);
 
   // For content updates (with or without title), validate required fields
-  if ((rawContent || fileUri) && !type) {
+  if ((hasContentUpdate || fileUri) && !type) {
     throw new Error("type is required when updating content.");
   }
 
@@ -541,25 +915,61 @@ export async function handleUpdateNote(
       }
     }
 
+    // Frontmatter attributes the note is missing or has with another value
+    let frontmatterChanges: { create: Attribute[]; update: Attribute[] } = { create: [], update: [] };
+    let unresolvedRelations: string[] = [];
+    if (frontmatter) {
+      const resolved = await resolveFrontmatterAttributes(frontmatter, axiosInstance);
+      const ownAttributes = (currentNote.data.attributes || []).filter((attr: any) => !attr.noteId || attr.noteId === noteId);
+      frontmatterChanges = diffFrontmatterAttributes(ownAttributes, resolved.attributes);
+      unresolvedRelations = resolved.unresolved;
+    }
+    const frontmatterMsg = (wouldApply: boolean) => frontmatter
+      ? describeFrontmatterChanges(frontmatterChanges, unresolvedRelations, wouldApply)
+      : "";
+
     // Handle metadata-only update (efficient PATCH operation)
+    if (isMetadataOnlyUpdate && dryRun) {
+      const titleChange = title && title !== currentNote.data.title ? { from: currentNote.data.title, to: title } : undefined;
+      return {
+        noteId,
+        message: `DRY RUN: nothing was written to note ${noteId}.${titleChange ? ` Title would change from "${titleChange.from}" to "${titleChange.to}".` : ''}${frontmatterMsg(true)}`,
+        revisionCreated: false,
+        conflict: false,
+        dryRun: true,
+        titleChange
+      };
+    }
+
     if (isMetadataOnlyUpdate) {
       // For metadata-only updates, skip revision creation for efficiency
-      const patchData: any = { title };
+      if (title) {
+        const patchData: any = { title };
 
-      logVerboseApi("PATCH", `/notes/${noteId}`, patchData);
-      const response = await axiosInstance.patch(`/notes/${noteId}`, patchData, {
-        headers: {
-          "Content-Type": "application/json"
+        logVerboseApi("PATCH", `/notes/${noteId}`, patchData);
+        const response = await axiosInstance.patch(`/notes/${noteId}`, patchData, {
+          headers: {
+            "Content-Type": "application/json"
+          }
+        });
+
+        if (response.status !== 200) {
+          throw new Error(`Unexpected response status: ${response.status}`);
         }
-      });
 
-      if (response.status !== 200) {
-        throw new Error(`Unexpected response status: ${response.status}`);
+        recordOperation(axiosInstance, {
+          operation: "update_note",
+          noteId,
+          description: `Renamed note ${noteId} from "${currentNote.data.title}" to "${title}"`,
+          undo: [{ action: 'setTitle', noteId, title: currentNote.data.title }]
+        });
       }
 
+      const attributeErrors = await applyFrontmatterAttributes(noteId, frontmatterChanges, axiosInstance);
+
       return {
         noteId,
-        message: `Note ${noteId} title updated successfully to "${title}"`,
+        message: `Note ${noteId} ${title ? `title updated successfully to "${title}"` : 'metadata updated successfully'}${frontmatterMsg(false)}${attributeErrors.length > 0 ? ` Attribute errors: ${attributeErrors.join('; ')}` : ''}`,
         revisionCreated: false,
         conflict: false
       };
@@ -580,27 +990,108 @@ export async function handleUpdateNote(
     }
 
     // Step 4: Content type validation with template awareness (always enabled)
+    // replace_range edits a fragment of the stored content, so the result is validated instead (step 5)
     let finalContent = rawContent;
-    const validationResult = await validateContentForNoteType(
-      rawContent as string,
-      type as NoteType,
-      currentContent.data,
-      existingTemplateRelation
-    );
+    if (mode !== 'replace_range') {
+      const validationResult = await validateContentForNoteType(
+        rawContent as string,
+        type as NoteType,
+        currentContent.data,
+        existingTemplateRelation
+      );
+
+      if (!validationResult.valid) {
+        return {
+          noteId,
+          message: `CONTENT_VALIDATION_ERROR: ${validationResult.error}`,
+          revisionCreated: false,
+          conflict: false
+        };
+      }
+
+      // Use validated/corrected content
+      finalContent = validationResult.content;
+    }
+
+    // Step 5: Process content and apply it to the stored content based on mode
+    // Content is optional - if not provided, default to empty string
+    finalContent = finalContent || "";
+    const storedContent: string = currentContent.data;
+
+    let processedContent: string;
+
+    if (mode === 'replace_range') {
+      // The fragment is inserted verbatim: no Markdown conversion or <p> wrapping inside existing markup
+      const { index, length } = range!;
+      if (index + length > storedContent.length) {
+        throw new Error(`range ${index}-${index + length} is outside the note content (length ${storedContent.length}). Use the index/length of a current get_note search match.`);
+      }
+      processedContent = storedContent.slice(0, index) + finalContent + storedContent.slice(index + length);
+
+      const resultValidation = await validateContentForNoteType(
+        processedContent,
+        type as NoteType,
+        storedContent,
+        existingTemplateRelation
+      );
+      if (!resultValidation.valid) {
+        return {
+          noteId,
+          message: `CONTENT_VALIDATION_ERROR: ${resultValidation.error}`,
+          revisionCreated: false,
+          conflict: false
+        };
+      }
+    } else {
+      const processed = await processContentArray(finalContent, currentNote.data.type);
+      if (processed.error) {
+        throw new Error(`Content processing error: ${processed.error}`);
+      }
+
+      // Stored content is already in ETAPI format
+      switch (mode) {
+        case 'overwrite':
+          processedContent = processed.content;
+          break;
+        case 'append':
+          processedContent = storedContent + processed.content;
+          break;
+        case 'prepend':
+          processedContent = processed.content + storedContent;
+          break;
+        case 'insert_after':
+        case 'insert_before': {
+          const position = resolveAnchor(storedContent, anchor!, anchorType, currentNote.data.type);
+          const at = mode === 'insert_after' ? position.end : position.start;
+          processedContent = storedContent.slice(0, at) + processed.content + storedContent.slice(at);
+          break;
+        }
+        default:
+          throw new Error(`Invalid mode: ${mode}. Mode must be one of 'overwrite', 'append', 'prepend', 'insert_after', 'insert_before', 'replace_range'.`);
+      }
+    }
+
+    if (dryRun) {
+      const diff = createContentDiff(noteId, currentNote.data.type, currentContent.data, processedContent);
+      const titleChange = (isMultiParamUpdate && title && title !== currentNote.data.title)
+        ? { from: currentNote.data.title, to: title }
+        : undefined;
+      const correctionMsg = (finalContent !== rawContent) ? " Content was auto-corrected." : "";
+      const changeMsg = diff ? "Content would change as shown in the diff." : "Content would not change.";
+      const titleMsg = titleChange ? ` Title would change from "${titleChange.from}" to "${titleChange.to}".` : "";
 
-    if (!validationResult.valid) {
       return {
         noteId,
-        message: `CONTENT_VALIDATION_ERROR: ${validationResult.error}`,
+        message: `DRY RUN: nothing was written to note ${noteId}. ${changeMsg}${titleMsg}${correctionMsg}${frontmatterMsg(true)}`,
         revisionCreated: false,
-        conflict: false
+        conflict: false,
+        dryRun: true,
+        diff,
+        titleChange
       };
     }
 
-    // Use validated/corrected content
-    finalContent = validationResult.content;
-
-    // Step 5: Create revision if requested
+    // Step 6: Create revision if requested
     if (revision) {
       try {
         await axiosInstance.post(`/notes/${noteId}/revision`);
@@ -611,32 +1102,6 @@ export async function handleUpdateNote(
       }
     }
 
-    // Step 6: Process and update content based on mode
-    // Content is optional - if not provided, default to empty string
-    finalContent = finalContent || "";
-
-    let processedContent: string;
-
-    if (mode === 'append') {
-      // For append mode, get current content and append new content
-      const newProcessed = await processContentArray(finalContent, currentNote.data.type);
-      if (newProcessed.error) {
-        throw new Error(`New content processing error: ${newProcessed.error}`);
-      }
-
-      // Append new content to existing content (currentContent.data is already processed)
-      processedContent = currentContent.data + newProcessed.content;
-    } else if (mode === 'overwrite') {
-      // For overwrite mode, replace entire content
-      const processed = await processContentArray(finalContent, currentNote.data.type);
-      if (processed.error) {
-        throw new Error(`Content processing error: ${processed.error}`);
-      }
-      processedContent = processed.content;
-    } else {
-      throw new Error(`Invalid mode: ${mode}. Mode must be either 'overwrite' or 'append'.`);
-    }
-
     const contentResponse = await axiosInstance.put(`/notes/${noteId}/content`, processedContent, {
       headers: {
         "Content-Type": "text/plain"
@@ -663,14 +1128,25 @@ export async function handleUpdateNote(
       }
     }
 
+    await journalContentChange(
+      axiosInstance,
+      "update_note",
+      noteId,
+      currentContent.data,
+      (isMultiParamUpdate && title) ? currentNote.data.title : undefined,
+      `${UPDATE_MODE_DESCRIPTIONS[mode as UpdateMode] || 'Updated'} the content of note ${noteId}${(isMultiParamUpdate && title) ? ` and renamed it to "${title}"` : ''}`
+    );
+
+    const attributeErrors = await applyFrontmatterAttributes(noteId, frontmatterChanges, axiosInstance);
+
     const revisionMsg = revisionCreated ? " (revision created)" : " (no revision)";
     const correctionMsg = (finalContent !== rawContent) ? " (content auto-corrected)" : "";
-    const modeMsg = mode === 'append' ? " (content appended)" : " (content overwritten)";
+    const modeMsg = ` (content ${UPDATE_MODE_MESSAGES[mode as UpdateMode] || 'updated'})`;
     const titleMsg = (isMultiParamUpdate && title) ? ` (title updated to "${title}")` : "";
 
     return {
       noteId,
-      message: `Note ${noteId} updated successfully${revisionMsg}${correctionMsg}${modeMsg}${titleMsg}`,
+      message: `Note ${noteId} updated successfully${revisionMsg}${correctionMsg}${modeMsg}${titleMsg}${frontmatterMsg(false)}${attributeErrors.length > 0 ? ` Attribute errors: ${attributeErrors.join('; ')}` : ''}`,
       revisionCreated,
       conflict: false
     };
@@ -696,8 +1172,10 @@ export async function handleSearchReplaceNote(
     replacePattern,
     useRegex = true,
     searchFlags = 'g',
+    htmlMode = 'raw',
     revision = true,
-    expectedHash
+    expectedHash,
+    dryRun = false
   } = args;
 
   if (!noteId) {
@@ -746,13 +1224,20 @@ export async function handleSearchReplaceNote(
     const noteType = currentNote.data.type;
     const originalContent = currentContent.data;
 
+    // Text mode only applies to HTML; other note types (code, mermaid, ...) are searched as stored
+    const textOnly = htmlMode === 'text' && noteType === 'text';
+    if (htmlMode === 'text' && !textOnly) {
+      logVerbose("handleSearchReplaceNote", `htmlMode 'text' does not apply to ${noteType} notes, searching raw content`);
+    }
+
     // Step 3: Execute search and replace
     const { newContent, replacements } = executeSearchReplace(
       originalContent,
       searchPattern,
       replacePattern,
       useRegex,
-      searchFlags
+      searchFlags,
+      textOnly
     );
 
     // Step 4: Handle no matches case
@@ -766,7 +1251,8 @@ export async function handleSearchReplaceNote(
         conflict: false,
         searchPattern,
         replacePattern,
-        useRegex
+        useRegex,
+        htmlMode: textOnly ? 'text' : 'raw'
       };
     }
 
@@ -787,13 +1273,32 @@ export async function handleSearchReplaceNote(
         conflict: false,
         searchPattern,
         replacePattern,
-        useRegex
+        useRegex,
+        htmlMode: textOnly ? 'text' : 'raw'
       };
     }
 
     // Use validated/corrected content
     const finalContent = validationResult.content;
 
+    if (dryRun) {
+      const correctionMsg = (finalContent !== newContent) ? " Content was auto-corrected." : "";
+      return {
+        noteId,
+        message: `DRY RUN: nothing was written to note ${noteId}. Found ${replacements} match(es); the diff shows the content after replacement.${correctionMsg}`,
+        matchesFound: replacements,
+        replacementsMade: 0,
+        revisionCreated: false,
+        conflict: false,
+        searchPattern,
+        replacePattern,
+        useRegex,
+        htmlMode: textOnly ? 'text' : 'raw',
+        dryRun: true,
+        diff: createContentDiff(noteId, noteType, originalContent, finalContent)
+      };
+    }
+
     // Step 6: Create revision if requested
     if (revision) {
       try {
@@ -816,20 +1321,31 @@ export async function handleSearchReplaceNote(
       throw new Error(`Unexpected response status: ${contentResponse.status}`);
     }
 
+    await journalContentChange(
+      axiosInstance,
+      "search_and_replace_note",
+      noteId,
+      originalContent,
+      undefined,
+      `Replaced ${replacements} match(es) of "${searchPattern}" in note ${noteId}`
+    );
+
     // Step 8: Return success response
     const correctionMsg = (finalContent !== newContent) ? " (content auto-corrected)" : "";
     const revisionMsg = revisionCreated ? " (revision created)" : " (no revision)";
+    const scopeMsg = textOnly ? " (text nodes only)" : "";
 
     return {
       noteId,
-      message: `Search and replace completed successfully for note ${noteId}. Found ${replacements} match(es) and made ${replacements} replacement(s).${correctionMsg}${revisionMsg}`,
+      message: `Search and replace completed successfully for note ${noteId}. Found ${replacements} match(es) and made ${replacements} replacement(s).${scopeMsg}${correctionMsg}${revisionMsg}`,
       matchesFound: replacements,
       replacementsMade: replacements,
       revisionCreated,
       conflict: false,
       searchPattern,
       replacePattern,
-      useRegex
+      useRegex,
+      htmlMode: textOnly ? 'text' : 'raw'
     };
 
   } catch (error) {
@@ -845,7 +1361,8 @@ export async function handleSearchReplaceNote(
  */
 export async function handleDeleteNote(
   args: NoteOperation,
-  axiosInstance: any
+  axiosInstance: any,
+  trashOptions?: TrashOptions
 ): Promise<NoteDeleteResponse> {
   const { noteId } = args;
 
@@ -853,14 +1370,65 @@ export async function handleDeleteNote(
     throw new Error("noteId is required for delete operation.");
   }
 
+  // Soft delete moves the note to the trash instead of removing it
+  if (trashOptions?.mode === 'soft') {
+    const result = await softDeleteNote(noteId, axiosInstance, trashOptions);
+    recordOperation(axiosInstance, {
+      operation: "delete_note",
+      noteId,
+      description: `Moved note ${noteId} to the trash`,
+      undo: [{ action: 'restoreFromTrash', noteId }]
+    });
+    return {
+      noteId,
+      message: result.message,
+      trashNoteId: result.trashNoteId
+    };
+  }
+
   await axiosInstance.delete(`/notes/${noteId}`);
 
+  recordOperation(axiosInstance, {
+    operation: "delete_note",
+    noteId,
+    description: `Permanently deleted note ${noteId}`,
+    undo: [],
+    irreversible: "the note was permanently deleted (hard delete mode)"
+  });
+
   return {
     noteId,
     message: `Deleted note: ${noteId}`
   };
 }
 
+/**
+ * YAML frontmatter with the note title and own attributes, for Markdown output
+ * Relation targets are written as note titles, so the block can be sent back through update_note
+ */
+async function buildNoteFrontmatter(noteData: any, axiosInstance: any): Promise<string> {
+  const ownAttributes = (noteData.attributes || []).filter((attr: any) => !attr.noteId || attr.noteId === noteData.noteId);
+  const relations: Array<{ name: string; targetTitle: string }> = [];
+
+  for (const attr of ownAttributes.filter((attr: any) => attr.type === 'relation')) {
+    let targetTitle = attr.value;
+    try {
+      targetTitle = (await axiosInstance.get(`/notes/${attr.value}`)).data.title;
+    } catch (error) {
+      logVerboseError("buildNoteFrontmatter", error);
+    }
+    relations.push({ name: attr.name, targetTitle });
+  }
+
+  return buildFrontmatter({
+    title: noteData.title,
+    labels: ownAttributes
+      .filter((attr: any) => attr.type === 'label')
+      .map((attr: any) => ({ name: attr.name, value: attr.value || '' })),
+    relations
+  });
+}
+
 /**
  * Handle get note operation
  */
@@ -874,16 +1442,27 @@ export async function handleGetNote(
     includeBinaryContent = false,
     searchPattern,
     useRegex = true,
-    searchFlags = 'g'
+    searchFlags = 'g',
+    format = 'html',
+    includePaths = false
   } = args;
 
   if (!noteId) {
     throw new Error("noteId is required for get operation.");
   }
 
+  if (!['html', 'markdown', 'text'].includes(format)) {
+    throw new Error(`Invalid format: ${format}. Format must be one of 'html', 'markdown', 'text'.`);
+  }
+
   const noteResponse = await axiosInstance.get(`/notes/${noteId}`);
   const noteData = noteResponse.data;
 
+  // Every response below carries the note, so its paths travel with it
+  if (includePaths) {
+    noteData.paths = await new NotePathResolver(axiosInstance).getPaths(noteData);
+  }
+
   if (!includeContent) {
     return {
       note: noteData
@@ -969,6 +1548,15 @@ export async function handleGetNote(
   if (shouldIncludeContent) {
     response.content = noteContent;
     response.contentRequirements = contentRequirements;
+
+    // Only text notes store HTML; other types are already returned as they are stored
+    if (noteData.type === 'text' && format === 'markdown') {
+      response.content = await buildNoteFrontmatter(noteData, axiosInstance) + convertHtmlToMarkdown(noteContent);
+      response.contentFormat = 'markdown';
+    } else if (noteData.type === 'text' && format === 'text') {
+      response.content = htmlToText(noteContent);
+      response.contentFormat = 'text';
+    }
   }
 
   return response;
@@ -0,0 +1,143 @@
+/**
+ * Note Path Module
+ * Builds breadcrumb title paths ("Work / ProjectX / Meeting Notes") for notes, one per branch
+ */
+
+import { logVerboseApi } from "../utils/verboseUtils.js";
+
+export const PATH_SEPARATOR = " / ";
+
+// Clones of clones multiply paths; list at most this many per note
+const MAX_PATHS_PER_NOTE = 10;
+
+/**
+ * Resolves title paths through parent branches, caching every note, branch and path it looks up
+ * Create one per request: parents shared by several results are then fetched only once.
+ */
+export class NotePathResolver {
+  private axiosInstance: any;
+  private notes = new Map<string, Promise<any>>();
+  private branches = new Map<string, Promise<any>>();
+  private chains = new Map<string, string[][]>();
+
+  constructor(axiosInstance: any) {
+    this.axiosInstance = axiosInstance;
+  }
+
+  /**
+   * Seed the cache with notes already at hand (e.g. search results), so they are not fetched again
+   */
+  remember(notes: any[]): void {
+    for (const note of notes) {
+      if (note?.noteId && note.parentNoteIds && !this.notes.has(note.noteId)) {
+        this.notes.set(note.noteId, Promise.resolve(note));
+      }
+    }
+  }
+
+  /**
+   * Title paths of a note from below root down to the note itself, one per placement in the tree
+   */
+  async getPaths(noteOrId: any): Promise<string[]> {
+    const note = typeof noteOrId === 'string' ? await this.getNote(noteOrId) : noteOrId;
+    if (note.noteId === 'root') {
+      return [note.title];
+    }
+
+    const paths: string[] = [];
+    for (const { parentNoteId, title } of await this.getPlacements(note)) {
+      for (const chain of (await this.getChains(parentNoteId, new Set([note.noteId]))).chains) {
+        paths.push([...chain, title].join(PATH_SEPARATOR));
+      }
+    }
+    return paths.slice(0, MAX_PATHS_PER_NOTE);
+  }
+
+  /**
+   * Add a paths field to each note (notes must carry noteId, title and parentNoteIds)
+   */
+  async addPaths<T extends { noteId: string }>(notes: T[], sources: any[] = notes): Promise<Array<T & { paths: string[] }>> {
+    this.remember(sources);
+    const result: Array<T & { paths: string[] }> = [];
+    for (const note of notes) {
+      result.push({ ...note, paths: await this.getPaths(note.noteId) });
+    }
+    return result;
+  }
+
+  private getNote(noteId: string): Promise<any> {
+    let note = this.notes.get(noteId);
+    if (!note) {
+      logVerboseApi("GET", `/notes/${noteId}`);
+      note = this.axiosInstance.get(`/notes/${noteId}`).then((response: any) => response.data);
+      this.notes.set(noteId, note!);
+    }
+    return note!;
+  }
+
+  private getBranch(branchId: string): Promise<any> {
+    let branch = this.branches.get(branchId);
+    if (!branch) {
+      logVerboseApi("GET", `/branches/${branchId}`);
+      branch = this.axiosInstance.get(`/branches/${branchId}`).then((response: any) => response.data);
+      this.branches.set(branchId, branch!);
+    }
+    return branch!;
+  }
+
+  /**
+   * Parents of a note with the title it shows under each: "prefix - title" when the branch has a prefix,
+   * as in Trilium's tree. Notes without parentBranchIds fall back to parentNoteIds and plain titles.
+   */
+  private async getPlacements(note: any): Promise<Array<{ parentNoteId: string; title: string }>> {
+    if (!note.parentBranchIds) {
+      return (note.parentNoteIds || []).map((parentNoteId: string) => ({ parentNoteId, title: note.title }));
+    }
+    const placements: Array<{ parentNoteId: string; title: string }> = [];
+    for (const branchId of note.parentBranchIds) {
+      const branch = await this.getBranch(branchId);
+      placements.push({
+        parentNoteId: branch.parentNoteId,
+        title: branch.prefix ? `${branch.prefix} - ${note.title}` : note.title
+      });
+    }
+    return placements;
+  }
+
+  /**
+   * Title chains from below root down to and including noteId; root itself is the empty chain.
+   * complete is false when a cycle cut a chain short: such results depend on the notes being
+   * visited and are not cached, so a later lookup from elsewhere in the tree is not left without paths.
+   */
+  private async getChains(noteId: string, visiting: Set<string>): Promise<{ chains: string[][]; complete: boolean }> {
+    if (noteId === 'root') {
+      return { chains: [[]], complete: true };
+    }
+    // Trilium prevents cycles, but a corrupted tree must not hang the request
+    if (visiting.has(noteId)) {
+      return { chains: [], complete: false };
+    }
+
+    const cached = this.chains.get(noteId);
+    if (cached) {
+      return { chains: cached, complete: true };
+    }
+
+    const note = await this.getNote(noteId);
+    const chains: string[][] = [];
+    let complete = true;
+    for (const { parentNoteId, title } of await this.getPlacements(note)) {
+      const parent = await this.getChains(parentNoteId, new Set([...visiting, noteId]));
+      complete &&= parent.complete;
+      for (const chain of parent.chains) {
+        chains.push([...chain, title]);
+      }
+    }
+
+    const result = chains.slice(0, MAX_PATHS_PER_NOTE);
+    if (complete) {
+      this.chains.set(noteId, result);
+    }
+    return { chains: result, complete };
+  }
+}
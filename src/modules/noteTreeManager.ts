@@ -0,0 +1,418 @@
+/**
+ * Note Tree Module
+ * Creates a nested structure of notes in one call, with relations between them by local keys,
+ * and lists existing subtrees in branch order
+ */
+
+import { Attribute, NoteType, handleCreateNote } from './noteManager.js';
+import { recordOperation } from './journalManager.js';
+import { getChildBranches } from './branchManager.js';
+import { formatNotesForListing } from '../utils/noteFormatter.js';
+import { logVerbose, logVerboseApi, logVerboseError } from '../utils/verboseUtils.js';
+
+const MAX_TREE_NOTES = 200;
+const DEFAULT_LIST_DEPTH = 2;
+const MAX_LIST_DEPTH = 10;
+const DEFAULT_MAX_LISTED_NOTES = 500;
+
+export interface NoteTreeAttribute extends Attribute {
+  // Relation target given by the key of a note created in the same call (instead of value)
+  targetKey?: string;
+}
+
+export interface NoteTreeNode {
+  // Local reference for relations and for the returned ID map
+  key?: string;
+  title: string;
+  type: NoteType;
+  content?: string;
+  mime?: string;
+  attributes?: NoteTreeAttribute[];
+  children?: NoteTreeNode[];
+}
+
+export interface CreateNoteTreeOperation {
+  parentNoteId: string;
+  notes: NoteTreeNode[];
+  // 'rollback' deletes everything created when a step fails; 'keep' leaves it and reports partial success
+  onError?: 'rollback' | 'keep';
+  forceCreate?: boolean;
+}
+
+export interface CreatedTreeNote {
+  // Titles from the top-level note down to this note
+  path: string[];
+  key?: string;
+  noteId: string;
+}
+
+export interface CreateNoteTreeResponse {
+  success: boolean;
+  message: string;
+  created: CreatedTreeNote[];
+  // Key (or title path joined with ' > ' when the note has no key) -> noteId
+  idMap: Record<string, string>;
+  rolledBack?: boolean;
+  failedAt?: string[];
+  error?: string;
+}
+
+/**
+ * Walk the tree depth-first, parents before children
+ */
+function walkTree(
+  nodes: NoteTreeNode[],
+  visit: (node: NoteTreeNode, path: string[]) => void,
+  parentPath: string[] = []
+): void {
+  for (const node of nodes) {
+    const path = [...parentPath, node.title];
+    visit(node, path);
+    walkTree(node.children || [], visit, path);
+  }
+}
+
+/**
+ * Check the whole structure before anything is created
+ */
+function validateTree(nodes: NoteTreeNode[]): void {
+  const keys = new Set<string>();
+  const targetKeys: string[] = [];
+  let count = 0;
+
+  walkTree(nodes, (node, path) => {
+    count++;
+    if (!node.title || !node.type) {
+      throw new Error(`Every note needs a title and a type (at ${path.join(' > ') || 'top level'}).`);
+    }
+    if (node.type === 'file' || node.type === 'image') {
+      throw new Error(`"${path.join(' > ')}": file and image notes cannot be created by create_note_tree; use create_note with fileUri.`);
+    }
+    if (node.key) {
+      if (keys.has(node.key)) {
+        throw new Error(`Duplicate key "${node.key}" in the note tree.`);
+      }
+      keys.add(node.key);
+    }
+    for (const attribute of node.attributes || []) {
+      if (attribute.targetKey) {
+        if (attribute.type !== 'relation') {
+          throw new Error(`"${path.join(' > ')}": targetKey can only be used on relations (attribute "${attribute.name}").`);
+        }
+        targetKeys.push(attribute.targetKey);
+      }
+    }
+  });
+
+  if (count > MAX_TREE_NOTES) {
+    throw new Error(`The tree has ${count} notes; create_note_tree creates at most ${MAX_TREE_NOTES} notes per call.`);
+  }
+
+  const unknown = targetKeys.filter(key => !keys.has(key));
+  if (unknown.length > 0) {
+    throw new Error(`Relation targetKey(s) not defined in the tree: ${[...new Set(unknown)].join(', ')}.`);
+  }
+}
+
+/**
+ * Delete the created top-level notes (which removes their subtrees), newest first
+ */
+async function rollback(rootNoteIds: string[], axiosInstance: any): Promise<string[]> {
+  const failures: string[] = [];
+  for (const noteId of [...rootNoteIds].reverse()) {
+    try {
+      logVerboseApi("DELETE", `/notes/${noteId}`);
+      await axiosInstance.delete(`/notes/${noteId}`);
+    } catch (error) {
+      logVerboseError("rollback", error);
+      failures.push(noteId);
+    }
+  }
+  return failures;
+}
+
+/**
+ * Create a tree of notes depth-first under parentNoteId
+ * Relations with targetKey are created once all notes exist, so they may point forward in the tree.
+ */
+export async function handleCreateNoteTree(
+  args: CreateNoteTreeOperation,
+  axiosInstance: any
+): Promise<CreateNoteTreeResponse> {
+  const { parentNoteId, notes, onError = 'rollback', forceCreate = false } = args;
+
+  if (!parentNoteId || !Array.isArray(notes) || notes.length === 0) {
+    throw new Error("parentNoteId and a non-empty notes array are required to create a note tree.");
+  }
+
+  validateTree(notes);
+
+  const created: CreatedTreeNote[] = [];
+  const rootNoteIds: string[] = [];
+  const keyToNoteId = new Map<string, string>();
+  // Children created under each note, so undo can tell them from children added later
+  const childCounts = new Map<string, number>();
+  const pendingRelations: Array<{ noteId: string; path: string[]; attribute: NoteTreeAttribute }> = [];
+  let failedAt: string[] | undefined;
+
+  const createNode = async (node: NoteTreeNode, parentId: string, path: string[], isTopLevel: boolean): Promise<void> => {
+    failedAt = path;
+    const result = await handleCreateNote({
+      parentNoteId: parentId,
+      title: node.title,
+      type: node.type,
+      content: node.content,
+      mime: node.mime,
+      attributes: (node.attributes || []).filter(attribute => !attribute.targetKey),
+      // Children are always new notes; only the top level can collide with existing ones
+      forceCreate: forceCreate || !isTopLevel
+    }, axiosInstance, { journal: false });
+
+    if (!result.noteId) {
+      throw new Error(result.duplicateFound
+        ? `A note titled "${node.title}" already exists under ${parentId} (${result.duplicateNoteId}). Pass forceCreate: true to create the tree anyway.`
+        : result.message);
+    }
+
+    created.push({ path, key: node.key, noteId: result.noteId });
+    if (isTopLevel) {
+      rootNoteIds.push(result.noteId);
+    } else {
+      childCounts.set(parentId, (childCounts.get(parentId) || 0) + 1);
+    }
+    if (node.key) {
+      keyToNoteId.set(node.key, result.noteId);
+    }
+    for (const attribute of node.attributes || []) {
+      if (attribute.targetKey) {
+        pendingRelations.push({ noteId: result.noteId, path, attribute });
+      }
+    }
+
+    for (const child of node.children || []) {
+      await createNode(child, result.noteId, [...path, child.title], false);
+    }
+  };
+
+  try {
+    for (const node of notes) {
+      await createNode(node, parentNoteId, [node.title], true);
+    }
+
+    for (const { noteId, path, attribute } of pendingRelations) {
+      failedAt = path;
+      const attributeData = {
+        noteId,
+        type: 'relation',
+        name: attribute.name,
+        value: keyToNoteId.get(attribute.targetKey!),
+        position: attribute.position || 10,
+        isInheritable: attribute.isInheritable || false
+      };
+      logVerboseApi("POST", "/attributes", attributeData);
+      await axiosInstance.post("/attributes", attributeData);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const location = failedAt ? ` at "${failedAt.join(' > ')}"` : "";
+
+    if (onError === 'rollback' && rootNoteIds.length > 0) {
+      const failures = await rollback(rootNoteIds, axiosInstance);
+      const rollbackMsg = failures.length === 0
+        ? `Rolled back: the ${created.length} note(s) created so far were deleted.`
+        : `Rollback incomplete: could not delete ${failures.join(', ')}; delete them manually.`;
+      return {
+        success: false,
+        message: `Creating the note tree failed${location}: ${errorMessage}. ${rollbackMsg}`,
+        created: failures.length === 0 ? [] : created,
+        idMap: {},
+        rolledBack: failures.length === 0,
+        failedAt,
+        error: errorMessage
+      };
+    }
+
+    // Nothing to roll back, or the caller asked to keep what was created
+    if (rootNoteIds.length > 0) {
+      journalTree(axiosInstance, parentNoteId, rootNoteIds, childCounts, created.length);
+    }
+    return {
+      success: false,
+      message: `Creating the note tree failed${location}: ${errorMessage}. ${created.length > 0 ? `${created.length} note(s) were created before the failure and kept.` : 'Nothing was created.'}`,
+      created,
+      idMap: buildIdMap(created),
+      rolledBack: false,
+      failedAt,
+      error: errorMessage
+    };
+  }
+
+  journalTree(axiosInstance, parentNoteId, rootNoteIds, childCounts, created.length);
+  logVerbose("handleCreateNoteTree", `Created ${created.length} notes under ${parentNoteId}`, created);
+
+  return {
+    success: true,
+    message: `Created ${created.length} note(s) under ${parentNoteId}${pendingRelations.length > 0 ? ` with ${pendingRelations.length} relation(s) between them` : ''}.`,
+    created,
+    idMap: buildIdMap(created)
+  };
+}
+
+function buildIdMap(created: CreatedTreeNote[]): Record<string, string> {
+  return Object.fromEntries(created.map(note => [note.key || note.path.join(' > '), note.noteId]));
+}
+
+/**
+ * Journal the whole tree as one operation: undoing it deletes the top-level notes
+ */
+function journalTree(
+  axiosInstance: any,
+  parentNoteId: string,
+  rootNoteIds: string[],
+  childCounts: Map<string, number>,
+  createdCount: number
+): void {
+  recordOperation(axiosInstance, {
+    operation: "create_note_tree",
+    noteId: rootNoteIds[0],
+    description: `Created a tree of ${createdCount} note(s) under ${parentNoteId}`,
+    undo: rootNoteIds.map(noteId => ({ action: 'deleteNote' as const, noteId, childCount: childCounts.get(noteId) || 0 }))
+  });
+}
+
+export interface GetNoteTreeOperation {
+  noteId: string;
+  // Levels of children to list below noteId (1 = direct children only)
+  depth?: number;
+  includeArchived?: boolean;
+  format?: 'json' | 'lines';
+  maxNotes?: number;
+}
+
+export interface NoteTreeEntry {
+  noteId: string;
+  title: string;
+  type: string;
+  // Branch prefix under this parent (shown before the title in Trilium)
+  prefix?: string;
+  dateCreated?: string;
+  childCount: number;
+  isArchived?: boolean;
+  // Archived children left out of children
+  archivedChildrenHidden?: number;
+  // Omitted below the depth limit or when maxNotes was reached
+  children?: NoteTreeEntry[];
+}
+
+export interface GetNoteTreeResponse {
+  tree: NoteTreeEntry;
+  // ls-style lines, one per note, indented by depth (format 'lines')
+  lines?: string[];
+  noteCount: number;
+  truncated: boolean;
+}
+
+function isArchived(note: any): boolean {
+  return (note.attributes || []).some((attr: any) => attr.type === 'label' && attr.name === 'archived');
+}
+
+function toTreeEntry(note: any, prefix?: string | null): NoteTreeEntry {
+  return {
+    noteId: note.noteId,
+    title: note.title,
+    type: note.type,
+    ...(prefix ? { prefix } : {}),
+    dateCreated: note.dateCreated,
+    childCount: (note.childBranchIds || []).length,
+    ...(isArchived(note) ? { isArchived: true } : {})
+  };
+}
+
+/**
+ * Render the tree as formatNotesForListing lines, indented two spaces per level
+ */
+function formatTreeLines(entry: NoteTreeEntry, level: number = 0, lines: string[] = []): string[] {
+  const [line] = formatNotesForListing([{ ...entry, title: entry.prefix ? `${entry.prefix} - ${entry.title}` : entry.title }]);
+  const details = [
+    entry.type,
+    ...(entry.childCount > 0 ? [`${entry.childCount} ${entry.childCount === 1 ? 'child' : 'children'}`] : []),
+    ...(entry.isArchived ? ['archived'] : []),
+    ...(entry.archivedChildrenHidden ? [`${entry.archivedChildrenHidden} archived hidden`] : [])
+  ];
+  lines.push(`${'  '.repeat(level)}${line} [${details.join(', ')}]`);
+
+  for (const child of entry.children || []) {
+    formatTreeLines(child, level + 1, lines);
+  }
+  return lines;
+}
+
+/**
+ * List the subtree under a note in branch order, limited by depth and maxNotes
+ * Archived notes (#archived) are skipped with their subtrees unless includeArchived is set.
+ */
+export async function handleGetNoteTree(
+  args: GetNoteTreeOperation,
+  axiosInstance: any
+): Promise<GetNoteTreeResponse> {
+  const {
+    noteId,
+    depth = DEFAULT_LIST_DEPTH,
+    includeArchived = false,
+    format = 'lines',
+    maxNotes = DEFAULT_MAX_LISTED_NOTES
+  } = args;
+
+  if (!noteId) {
+    throw new Error("noteId is required to list a note tree.");
+  }
+  if (!Number.isInteger(depth) || depth < 1 || depth > MAX_LIST_DEPTH) {
+    throw new Error(`depth must be an integer between 1 and ${MAX_LIST_DEPTH}.`);
+  }
+  if (format !== 'json' && format !== 'lines') {
+    throw new Error(`Invalid format: ${format}. Format must be 'json' or 'lines'.`);
+  }
+
+  const rootNote = (await axiosInstance.get(`/notes/${noteId}`)).data;
+  const tree = toTreeEntry(rootNote);
+  let noteCount = 1;
+  let truncated = false;
+
+  const listChildren = async (entry: NoteTreeEntry, level: number): Promise<void> => {
+    if (entry.childCount === 0 || level > depth) {
+      return;
+    }
+    if (noteCount >= maxNotes) {
+      truncated = true;
+      return;
+    }
+
+    entry.children = [];
+    for (const branch of await getChildBranches(entry.noteId, axiosInstance)) {
+      if (noteCount >= maxNotes) {
+        truncated = true;
+        break;
+      }
+
+      const child = toTreeEntry((await axiosInstance.get(`/notes/${branch.noteId}`)).data, branch.prefix);
+      if (child.isArchived && !includeArchived) {
+        entry.archivedChildrenHidden = (entry.archivedChildrenHidden || 0) + 1;
+        continue;
+      }
+
+      entry.children.push(child);
+      noteCount++;
+      await listChildren(child, level + 1);
+    }
+  };
+
+  await listChildren(tree, 1);
+  logVerbose("handleGetNoteTree", `Listed ${noteCount} notes under ${noteId} (depth ${depth})${truncated ? ', truncated' : ''}`);
+
+  return {
+    tree,
+    ...(format === 'lines' ? { lines: formatTreeLines(tree) } : {}),
+    noteCount,
+    truncated
+  };
+}
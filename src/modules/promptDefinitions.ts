@@ -0,0 +1,179 @@
+/**
+ * Prompt Definition Module
+ * Registry of parameterised MCP prompts that chain the existing tools,
+ * plus user-defined prompts loaded from a JSON config file
+ */
+
+import * as fs from 'fs';
+import { PermissionChecker } from '../utils/permissionUtils.js';
+import { safeValidate, customPromptsConfigSchema } from '../utils/validationUtils.js';
+
+export interface PromptArgumentDefinition {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgumentDefinition[];
+  // Permissions the tools used by this prompt require
+  permissions: Array<'READ' | 'WRITE'>;
+  // Prompt text with {{argumentName}} placeholders
+  template: string;
+}
+
+/**
+ * Built-in prompts for common Trilium workflows
+ */
+export function createBuiltinPrompts(): PromptDefinition[] {
+  return [
+    {
+      name: "summarise_subtree",
+      description: "Summarise a note and everything below it in the tree",
+      arguments: [
+        { name: "note", description: "Note ID or title of the subtree root", required: true },
+        { name: "focus", description: "Optional aspect to focus the summary on (e.g. 'open decisions', 'risks')" }
+      ],
+      permissions: ["READ"],
+      template: `Summarise the Trilium subtree rooted at "{{note}}".
+
+1. If "{{note}}" is not a note ID, call resolve_note_id with noteName "{{note}}" and use the resolved ID.
+2. Call search_notes with searchCriteria [{"property": "ancestors.noteId", "type": "noteProperty", "op": "=", "value": "<noteId>", "logic": "AND"}] to list every descendant.
+3. Call get_note on the root and on the descendants that look relevant (skip empty book/container notes).
+4. Write a structured summary: an overview paragraph, then one section per major child topic, citing note titles and IDs.
+{{#focus}}5. Pay particular attention to: {{focus}}.
+{{/focus}}
+Do not modify any notes.`
+    },
+    {
+      name: "weekly_review",
+      description: "Review all notes modified since a given date",
+      arguments: [
+        { name: "since", description: "ISO date to review from (e.g. 2024-06-01T00:00:00.000Z)", required: true },
+        { name: "scope", description: "Optional note ID or title to limit the review to one subtree" }
+      ],
+      permissions: ["READ"],
+      template: `Prepare a weekly review of my Trilium notes modified since {{since}}.
+
+1. Call search_notes with searchCriteria [{"property": "dateModified", "type": "noteProperty", "op": ">=", "value": "{{since}}", "logic": "AND"}].
+{{#scope}}   Limit the search to the subtree of "{{scope}}" (resolve it with resolve_note_id if needed) by adding {"property": "ancestors.noteId", "type": "noteProperty", "op": "=", "value": "<noteId>"}.
+{{/scope}}2. Group the results by parent/topic and call get_note on the ones whose titles suggest meaningful changes.
+3. Report: what was worked on, decisions made, open questions, and anything that looks stale or unfinished.
+4. End with a short list of suggested follow-ups for next week.
+
+Do not modify any notes.`
+    },
+    {
+      name: "triage_inbox",
+      description: "Go through the notes in an inbox folder and propose where each belongs",
+      arguments: [
+        { name: "inbox", description: "Note ID or title of the inbox folder", required: true }
+      ],
+      permissions: ["READ", "WRITE"],
+      template: `Triage the notes in my Trilium inbox "{{inbox}}".
+
+1. If "{{inbox}}" is not a note ID, call resolve_note_id with noteName "{{inbox}}".
+2. Call search_notes with searchCriteria [{"property": "parents.noteId", "type": "noteProperty", "op": "=", "value": "<inboxNoteId>", "logic": "AND"}] to list the inbox contents.
+3. For each note, call get_note and decide: which existing folder it belongs in (find its ID with resolve_note_id), which labels it should get (e.g. #project, #status), and whether it is actionable.
+4. Present the plan as a table (note, proposed destination, proposed labels, action) and WAIT for my confirmation.
+5. Only after I confirm, move each note with move_note and apply the labels with manage_attributes. Never delete notes during triage.`
+    },
+    {
+      name: "meeting_to_tasks",
+      description: "Turn the action items of a meeting note into task notes",
+      arguments: [
+        { name: "meeting", description: "Note ID or title of the meeting note", required: true },
+        { name: "taskFolder", description: "Optional note ID or title of the folder to create tasks in (defaults to the meeting note itself)" }
+      ],
+      permissions: ["READ", "WRITE"],
+      template: `Turn the meeting note "{{meeting}}" into tasks.
+
+1. If "{{meeting}}" is not a note ID, call resolve_note_id with noteName "{{meeting}}".
+2. Call get_note to read the meeting note and extract every action item: what needs to be done, who owns it, and any due date.
+3. Show me the extracted list and WAIT for my confirmation before creating anything.
+4. For each confirmed item, call create_note with type "text" under {{#taskFolder}}"{{taskFolder}}" (resolve it with resolve_note_id if needed){{/taskFolder}}{{^taskFolder}}the meeting note{{/taskFolder}}, a short imperative title, the context as content, and attributes:
+   - label "task"
+   - label "assignee" with the owner (if known)
+   - label "dueDate" with an ISO date (if known)
+   - relation "meeting" pointing to the meeting note ID
+5. Finish with a list of the created task note IDs.`
+    }
+  ];
+}
+
+/**
+ * Load user-defined prompts from a JSON config file
+ * Format: { "prompts": [{ name, description, arguments, template, permissions? }] }
+ */
+export function loadCustomPrompts(configPath: string): PromptDefinition[] {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(configPath, 'utf8');
+  } catch (error) {
+    throw new Error(`Failed to read prompts config '${configPath}': ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Prompts config '${configPath}' is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const validation = safeValidate(customPromptsConfigSchema, parsed);
+  if (!validation.success || !validation.data) {
+    throw new Error(`Invalid prompts config '${configPath}': ${validation.error}`);
+  }
+
+  return validation.data.prompts.map(prompt => ({
+    name: prompt.name,
+    description: prompt.description,
+    arguments: prompt.arguments || [],
+    // Custom prompts are assumed to be read-only unless they declare otherwise
+    permissions: prompt.permissions || ['READ'],
+    template: prompt.template
+  }));
+}
+
+/**
+ * Generate all prompts available for the given permissions
+ * Custom prompts replace built-in prompts with the same name
+ */
+export function generatePrompts(
+  permissionChecker: PermissionChecker,
+  customPrompts: PromptDefinition[] = []
+): PromptDefinition[] {
+  const prompts = new Map<string, PromptDefinition>();
+
+  for (const prompt of [...createBuiltinPrompts(), ...customPrompts]) {
+    prompts.set(prompt.name, prompt);
+  }
+
+  return Array.from(prompts.values()).filter(prompt =>
+    prompt.permissions.every(permission => permissionChecker.hasPermission(permission))
+  );
+}
+
+/**
+ * Render a prompt template with the given arguments
+ * Supports {{name}} substitution, {{#name}}...{{/name}} (rendered when the argument is set)
+ * and {{^name}}...{{/name}} (rendered when the argument is missing)
+ */
+export function renderPrompt(prompt: PromptDefinition, args: Record<string, string> = {}): string {
+  const missing = prompt.arguments
+    .filter(arg => arg.required && !args[arg.name]?.trim())
+    .map(arg => arg.name);
+
+  if (missing.length > 0) {
+    throw new Error(`Missing required argument(s) for prompt '${prompt.name}': ${missing.join(', ')}`);
+  }
+
+  return prompt.template
+    .replace(/\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g, (_match, kind: string, name: string, body: string) => {
+      const isSet = Boolean(args[name]?.trim());
+      return (kind === '#' ? isSet : !isSet) ? body : '';
+    })
+    .replace(/\{\{(\w+)\}\}/g, (_match, name: string) => args[name] ?? '');
+}
@@ -0,0 +1,57 @@
+/**
+ * Prompt Handler Module
+ * Handles MCP prompts/list and prompts/get requests
+ */
+
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { PermissionChecker } from "../utils/permissionUtils.js";
+import { PromptDefinition, generatePrompts, renderPrompt } from "./promptDefinitions.js";
+
+/**
+ * Handle prompts/list requests
+ */
+export async function handleListPromptsRequest(
+  permissionChecker: PermissionChecker,
+  customPrompts: PromptDefinition[] = []
+): Promise<{ prompts: any[] }> {
+  const prompts = generatePrompts(permissionChecker, customPrompts).map(prompt => ({
+    name: prompt.name,
+    description: prompt.description,
+    arguments: prompt.arguments
+  }));
+
+  return { prompts };
+}
+
+/**
+ * Handle prompts/get requests
+ */
+export async function handleGetPromptRequest(
+  args: any,
+  permissionChecker: PermissionChecker,
+  customPrompts: PromptDefinition[] = []
+): Promise<{ description: string; messages: any[] }> {
+  if (!args?.name) {
+    throw new McpError(ErrorCode.InvalidParams, "Missing required parameter 'name'.");
+  }
+
+  const prompt = generatePrompts(permissionChecker, customPrompts).find(p => p.name === args.name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${args.name}`);
+  }
+
+  try {
+    const text = renderPrompt(prompt, args.arguments || {});
+    return {
+      description: prompt.description,
+      messages: [
+        {
+          role: "user",
+          content: { type: "text", text }
+        }
+      ]
+    };
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+}
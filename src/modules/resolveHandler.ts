@@ -3,7 +3,44 @@
  * Handles resolve_note_id tool requests with permission validation
  */
 
-import { handleResolveNoteId, ResolveNoteOperation } from "./resolveManager.js";
+import { handleResolveNoteId, ResolveNoteOperation, ResolveNoteResponse } from "./resolveManager.js";
+import { PATH_SEPARATOR } from "./notePathManager.js";
+
+/**
+ * Breadcrumb lines shown below a match when includePaths was requested
+ */
+function formatPaths(paths?: string[]): string {
+  return paths && paths.length > 0 ? `\n   Path: ${paths.join('\n   Path: ')}` : '';
+}
+
+/**
+ * Fuzzy score and, for alias matches, the alias that matched
+ */
+function formatScore(match: { score?: number; matchedField?: string; matchedValue?: string }): string {
+  if (match.score === undefined) {
+    return '';
+  }
+  return `, Score: ${match.score}${match.matchedField === 'alias' ? `, via alias "${match.matchedValue}"` : ''}`;
+}
+
+/**
+ * The route a path expression took, shown when includePaths did not add the note's paths
+ */
+function formatResolvedPath(response: ResolveNoteResponse): string[] | undefined {
+  return response.resolvedPath && response.resolvedPath.length > 0
+    ? [response.resolvedPath.map(step => step.title).join(PATH_SEPARATOR)]
+    : undefined;
+}
+
+/**
+ * Path segments that only matched with typo tolerance (autoSelect), so the caller can double-check them
+ */
+function formatFuzzySegments(response: ResolveNoteResponse): string {
+  const fuzzy = (response.resolvedPath || []).filter(step => step.matchType === 'fuzzy');
+  return fuzzy.length > 0
+    ? `, Typo matches: ${fuzzy.map(step => `"${step.segment}" → "${step.title}" (score ${step.score})`).join(', ')}`
+    : '';
+}
 
 export async function handleResolveNoteRequest(args: any, permissionChecker: any, axiosInstance: any): Promise<any> {
   // Permission check
@@ -15,7 +52,8 @@ export async function handleResolveNoteRequest(args: any, permissionChecker: any
     noteName: args.noteName,
     exactMatch: args.exactMatch,
     maxResults: args.maxResults,
-    autoSelect: args.autoSelect
+    autoSelect: args.autoSelect,
+    includePaths: args.includePaths || false
   };
 
   const response = await handleResolveNoteId(resolveOperation, axiosInstance);
@@ -23,14 +61,14 @@ export async function handleResolveNoteRequest(args: any, permissionChecker: any
   // Enhanced response formatting for multiple matches
   if (response.requiresUserChoice && response.topMatches) {
     const choiceList = response.topMatches
-      .map((match, index) => `${index + 1}. ${match.title} (ID: ${match.noteId}, Type: ${match.type}, Modified: ${match.dateModified})`)
+      .map((match, index) => `${index + 1}. ${match.title} (ID: ${match.noteId}, Type: ${match.type}, Modified: ${match.dateModified}${formatScore(match)})${formatPaths(match.paths)}`)
       .join('\n');
 
     return {
       content: [
         {
           type: "text",
-          text: `Found ${response.matches} matches for "${resolveOperation.noteName}". Please choose:\n\n${choiceList}\n\nTo select: Use the note ID directly, or specify autoSelect=true for automatic selection, or refine your search criteria.`
+          text: `Found ${response.matches} matches for "${resolveOperation.noteName}".${response.nextSteps ? ` ${response.nextSteps}` : ''} Please choose:\n\n${choiceList}\n\nTo select: Use the note ID directly, or specify autoSelect=true for automatic selection, or refine your search criteria.`
         }
       ]
     };
@@ -42,7 +80,7 @@ export async function handleResolveNoteRequest(args: any, permissionChecker: any
       content: [
         {
           type: "text",
-          text: `✅ Resolved "${resolveOperation.noteName}" to Note ID: ${response.noteId} (Title: "${response.title}", Matches: ${response.matches})`
+          text: `✅ Resolved "${resolveOperation.noteName}" to Note ID: ${response.noteId} (Title: "${response.title}", Matches: ${response.matches}${formatScore(response)}${formatFuzzySegments(response)})${formatPaths(response.paths ?? formatResolvedPath(response))}`
         }
       ]
     };
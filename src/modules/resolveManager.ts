@@ -1,23 +1,55 @@
 /**
  * Note Resolution Module
- * Handles simple note ID resolution by name/title
- * Built on top of search functionality with title-based search only
+ * Handles note ID resolution by name/title or by path ('Work/ProjectX/Meeting Notes')
+ * Built on top of search functionality
  */
 
 import { buildSearchQuery } from "./searchQueryBuilder.js";
-import { SearchOperation } from "./searchManager.js";
 import { logVerboseInput } from "../utils/verboseUtils.js";
+import { MIN_FUZZY_SCORE, MIN_SUBSTRING_SCORE, foldText, scoreFuzzyMatch } from "../utils/fuzzyMatch.js";
+import { NotePathResolver, PATH_SEPARATOR } from "./notePathManager.js";
+
+// Notes followed per path segment; beyond this the path is too vague to walk
+const MAX_PATH_CANDIDATES = 20;
+
+// Notes scored per title search, and words of the name used to find them
+const MAX_CANDIDATES = 200;
+const MAX_CANDIDATE_WORDS = 5;
+
+// A runner-up scoring within this of the best match makes the choice the user's
+const AMBIGUITY_MARGIN = 0.05;
+// Typo matches (below MIN_SUBSTRING_SCORE) are less certain: the runner-up must trail by this much
+const FUZZY_AMBIGUITY_MARGIN = 0.1;
+
+// Labels whose values are alternative titles (#aliases comes from Obsidian frontmatter)
+const ALIAS_LABELS = ['alias', 'aliases'];
+
+type MatchedField = 'title' | 'alias';
+
+// How a path segment matched a title, indexed by match tier (see matchSegment)
+const SEGMENT_MATCH_TYPES = ['exact', 'folded', 'prefix', 'substring', 'fuzzy'] as const;
+const FUZZY_TIER = SEGMENT_MATCH_TYPES.indexOf('fuzzy');
+
+type SegmentMatchType = typeof SEGMENT_MATCH_TYPES[number];
 
 export interface ResolveNoteOperation {
   noteName: string;
   exactMatch?: boolean;
   maxResults?: number;
   autoSelect?: boolean;
+  // Add breadcrumb title paths to the resolved note and top matches
+  includePaths?: boolean;
 }
 
 export interface ResolveNoteResponse {
   noteId: string | null;
   title: string | null;
+  // Fuzzy score (0-1) of the resolved note and the field it matched on
+  score?: number;
+  matchedField?: MatchedField;
+  // The alias that matched, when matchedField is 'alias'
+  matchedValue?: string;
+  paths?: string[];
   found: boolean;
   matches: number;
   requiresUserChoice?: boolean;
@@ -26,60 +58,374 @@ export interface ResolveNoteResponse {
     title: string;
     type: string;
     dateModified: string;
+    score?: number;
+    matchedField?: MatchedField;
+    matchedValue?: string;
+    paths?: string[];
   }>;
+  // Notes matched for each segment of a path expression, from the first segment down,
+  // with how each title matched its segment
+  resolvedPath?: Array<{ segment: string; noteId: string; title: string; matchType: SegmentMatchType; score: number }>;
   nextSteps?: string;
 }
 
+export interface NotePathExpression {
+  // '~/…' and '/…' start at root; otherwise the first segment may match any note
+  anchored: boolean;
+  segments: string[];
+}
+
+interface ScoredCandidate {
+  note: any;
+  score: number;
+  matchedField: MatchedField;
+  matchedValue?: string;
+}
+
+interface PathCandidate {
+  note: any;
+  // Notes matched for the segments so far, ending with note
+  chain: any[];
+  // Match quality per segment, lower is better (see matchSegment)
+  tiers: number[];
+}
+
+/**
+ * Parse a path expression like 'Work/ProjectX/Meeting Notes' or '~/Journal/2024'
+ * Returns null for plain titles. '\/' is a literal slash inside a segment.
+ */
+export function parseNotePath(noteName: string): NotePathExpression | null {
+  const trimmed = noteName.trim();
+  if (trimmed !== '~' && !/(^|[^\\])\//.test(trimmed)) {
+    return null;
+  }
+
+  const anchored = trimmed === '~' || trimmed.startsWith('~/') || trimmed.startsWith('/');
+  const segments = (anchored ? trimmed.replace(/^~?\/?/, '') : trimmed)
+    .split(/(?<!\\)\//)
+    .map(segment => segment.replace(/\\\//g, '/').trim())
+    .filter(segment => segment.length > 0);
+
+  return { anchored, segments };
+}
+
+/**
+ * How well a title matches a path segment: 0 exact, 1 case- and diacritic-insensitive,
+ * 2 prefix, 3 substring, 4 fuzzy (typos, abbreviations), -1 no match; see SEGMENT_MATCH_TYPES
+ */
+function matchSegment(title: string, segment: string): number {
+  const name = (title || '').trim();
+  if (name === segment) return 0;
+
+  const foldedName = foldText(name);
+  const foldedSegment = foldText(segment);
+  if (foldedName === foldedSegment) return 1;
+  if (!foldedSegment) return -1;
+  if (foldedName.startsWith(foldedSegment)) return 2;
+  if (foldedName.includes(foldedSegment)) return 3;
+  if (scoreFuzzyMatch(segment, name) >= MIN_FUZZY_SCORE) return 4;
+  return -1;
+}
+
+/**
+ * Keep the notes matching a segment in its best tier only, so 'Journal' does not also pick 'Journal Archive'
+ * Typo matches are narrowed further to those scoring within FUZZY_AMBIGUITY_MARGIN of the best, best first.
+ */
+function filterBestMatches(candidates: PathCandidate[], segment: string): PathCandidate[] {
+  const scored = candidates
+    .map(candidate => ({ candidate, tier: matchSegment(candidate.note.title, segment) }))
+    .filter(({ tier }) => tier >= 0);
+  if (scored.length === 0) {
+    return [];
+  }
+
+  const bestTier = Math.min(...scored.map(({ tier }) => tier));
+  let best = scored.filter(({ tier }) => tier === bestTier);
+  if (bestTier === FUZZY_TIER) {
+    const fuzzy = best
+      .map(match => ({ ...match, score: scoreFuzzyMatch(segment, match.candidate.note.title) }))
+      .sort((a, b) => b.score - a.score);
+    best = fuzzy.filter(match => match.score >= fuzzy[0].score - FUZZY_AMBIGUITY_MARGIN);
+  }
+  return best.map(({ candidate, tier }) => ({ ...candidate, tiers: [...candidate.tiers.slice(0, -1), tier] }));
+}
+
+async function searchNotesByCriteria(searchCriteria: any[], axiosInstance: any, limit?: number): Promise<any[]> {
+  const params = new URLSearchParams();
+  params.append("search", buildSearchQuery({ searchCriteria, limit }));
+  params.append("fastSearch", "false");
+  params.append("includeArchivedNotes", "true");
+
+  const response = await axiosInstance.get(`/notes?${params.toString()}`);
+  return response.data.results || [];
+}
+
+function formatChain(chain: any[]): string {
+  return chain.map(note => note.title).join(PATH_SEPARATOR);
+}
+
+function toPathMatch(candidate: PathCandidate) {
+  return {
+    noteId: candidate.note.noteId,
+    title: candidate.note.title,
+    type: candidate.note.type,
+    dateModified: candidate.note.dateModified,
+    // The route the path took, not every placement of the note
+    paths: [formatChain(candidate.chain)]
+  };
+}
+
+/**
+ * Resolve a path expression segment by segment, walking the children of the previous matches
+ */
+async function resolveNotePath(
+  expression: NotePathExpression,
+  args: ResolveNoteOperation,
+  axiosInstance: any
+): Promise<ResolveNoteResponse> {
+  const { noteName, maxResults = 3, autoSelect = false, includePaths = false } = args;
+  const { anchored, segments } = expression;
+  const pathLabel = `"${noteName.trim()}"`;
+
+  if (segments.length === 0) {
+    const root = (await axiosInstance.get('/notes/root')).data;
+    return {
+      noteId: root.noteId,
+      title: root.title,
+      found: true,
+      ...(includePaths ? { paths: await new NotePathResolver(axiosInstance).getPaths(root) } : {}),
+      matches: 1,
+      resolvedPath: []
+    };
+  }
+
+  let candidates: PathCandidate[];
+  if (anchored) {
+    const children = await searchNotesByCriteria(
+      [{ property: "parents.noteId", type: "noteProperty", op: "=", value: "root" }], axiosInstance);
+    candidates = children.map(note => ({ note, chain: [note], tiers: [0] }));
+  } else {
+    const notes = await searchNotesByCriteria(buildCandidateCriteria(segments[0], false), axiosInstance, MAX_CANDIDATES);
+    candidates = notes.map(note => ({ note, chain: [note], tiers: [0] }));
+  }
+  // A typo match is walked when no sibling comes close; 'ProjectY' next to both 'ProjectX' and
+  // 'ProjectX Old' is a guess, so such segments stop the walk unless autoSelect is set
+  let nearMatches: PathCandidate[] = [];
+  const keepSegmentMatches = (matches: PathCandidate[]): PathCandidate[] => {
+    const fuzzy = matches.length > 0 && matches[0].tiers[matches[0].tiers.length - 1] === FUZZY_TIER;
+    const guess = fuzzy && !autoSelect && new Set(matches.map(candidate => candidate.note.noteId)).size > 1;
+    nearMatches = guess ? matches : [];
+    return guess ? [] : matches;
+  };
+  candidates = keepSegmentMatches(filterBestMatches(candidates, segments[0]));
+
+  for (let index = 0; ; index++) {
+    if (candidates.length === 0) {
+      const parents = index === 0 ? 'the top level' : `"${segments[index - 1]}"`;
+      const closest = Array.from(new Set(nearMatches.map(candidate => `"${candidate.note.title}"`)));
+      return {
+        noteId: null,
+        title: null,
+        found: false,
+        matches: 0,
+        nextSteps: closest.length > 0
+          ? `Path ${pathLabel} has no match for segment ${index + 1} "${segments[index]}" below ${parents}; the closest titles there are ${closest.slice(0, maxResults).join(', ')}, about equally similar. Correct the segment, or pass autoSelect: true to take the closest.`
+          : `Path ${pathLabel} has no match for segment ${index + 1} "${segments[index]}" below ${parents}. Use get_note_tree to list the children there, or resolve a shorter path.`
+      };
+    }
+    if (index === segments.length - 1) {
+      break;
+    }
+    if (candidates.length > MAX_PATH_CANDIDATES) {
+      return {
+        noteId: null,
+        title: null,
+        found: true,
+        matches: candidates.length,
+        requiresUserChoice: true,
+        topMatches: candidates.slice(0, maxResults).map(toPathMatch),
+        nextSteps: `Path ${pathLabel} is too vague: segment ${index + 1} "${segments[index]}" matches ${candidates.length} notes. Start the path with '~/' to anchor it at root, or use more exact segments.`
+      };
+    }
+
+    const next: PathCandidate[] = [];
+    for (const candidate of candidates) {
+      const children = await searchNotesByCriteria(
+        [{ property: "parents.noteId", type: "noteProperty", op: "=", value: candidate.note.noteId }], axiosInstance);
+      for (const child of children) {
+        next.push({ note: child, chain: [...candidate.chain, child], tiers: [...candidate.tiers, 0] });
+      }
+    }
+    candidates = keepSegmentMatches(filterBestMatches(next, segments[index + 1]));
+  }
+
+  // A clone reached through several matching routes is still one note
+  const unique = candidates.filter((candidate, position) =>
+    candidates.findIndex(other => other.note.noteId === candidate.note.noteId) === position);
+
+  if (unique.length > 1 && !autoSelect) {
+    // Report the first segment where the routes to the remaining matches split
+    const fork = segments.findIndex((_, index) =>
+      new Set(unique.map(candidate => candidate.chain[index].noteId)).size > 1);
+    const forkOptions = Array.from(new Map(unique.map(candidate =>
+      [candidate.chain[fork].noteId, candidate.chain.slice(0, fork + 1)])).values());
+
+    return {
+      noteId: null,
+      title: null,
+      found: true,
+      matches: unique.length,
+      requiresUserChoice: true,
+      topMatches: unique.slice(0, maxResults).map(toPathMatch),
+      nextSteps: `Path ${pathLabel} is ambiguous at segment ${fork + 1} "${segments[fork]}", which matches ${forkOptions.map(chain => `"${formatChain(chain)}"`).join(', ')}. Spell that segment out exactly to pick one.`
+    };
+  }
+
+  // With autoSelect, prefer the closest matches segment by segment
+  const selected = [...unique].sort((a, b) => {
+    for (let index = 0; index < a.tiers.length; index++) {
+      if (a.tiers[index] !== b.tiers[index]) return a.tiers[index] - b.tiers[index];
+    }
+    return new Date(b.note.dateModified).getTime() - new Date(a.note.dateModified).getTime();
+  })[0];
+
+  return {
+    noteId: selected.note.noteId,
+    title: selected.note.title,
+    found: true,
+    ...(includePaths ? { paths: await new NotePathResolver(axiosInstance).getPaths(selected.note) } : {}),
+    matches: unique.length,
+    resolvedPath: selected.chain.map((note, index) => ({
+      segment: segments[index],
+      noteId: note.noteId,
+      title: note.title,
+      matchType: SEGMENT_MATCH_TYPES[selected.tiers[index]],
+      score: Math.round(scoreFuzzyMatch(segments[index], note.title) * 100) / 100
+    }))
+  };
+}
+
 /**
- * Handle resolve note ID operation - find note ID by name/title
- * Simple title-based search only
+ * Handle resolve note ID operation - find note ID by name/title or path
  */
 export async function handleResolveNoteId(
   args: ResolveNoteOperation,
   axiosInstance: any
 ): Promise<ResolveNoteResponse> {
-  const { noteName, exactMatch = false, maxResults = 3, autoSelect = false } = args;
+  const notePath = args.noteName?.trim() ? parseNotePath(args.noteName) : null;
+  logVerboseInput("resolve_note_id", notePath ? { ...args, notePath } : args);
+  if (!notePath) {
+    return resolveNoteByTitle(args, axiosInstance);
+  }
 
-  // Verbose logging
-  logVerboseInput("resolve_note_id", args);
+  const pathResponse = await resolveNotePath(notePath, args, axiosInstance);
+  if (pathResponse.found || notePath.anchored) {
+    return pathResponse;
+  }
 
-  if (!noteName?.trim()) {
-    throw new Error("Note name must be provided");
+  // Titles like 'TCP/IP' contain slashes too
+  const titleResponse = await resolveNoteByTitle(args, axiosInstance);
+  return titleResponse.found ? titleResponse : pathResponse;
+}
+
+/**
+ * Title/alias search criteria wide enough to catch typos: the whole name, plus the first
+ * letters of each word, so 'meting notse' still finds 'Meeting Notes'
+ */
+function buildCandidateCriteria(name: string, exactMatch: boolean): any[] {
+  const values = [name];
+  if (!exactMatch) {
+    const words = Array.from(new Set(foldText(name).split(' ').filter(word => word.length >= 2)));
+    for (const word of words.slice(0, MAX_CANDIDATE_WORDS)) {
+      values.push(word.slice(0, 3));
+    }
+  }
+
+  const op = exactMatch ? "=" : "contains";
+  const criteria: any[] = [];
+  for (const value of Array.from(new Set(values))) {
+    criteria.push({ property: "title", type: "noteProperty", op, value, logic: "OR" });
+    for (const label of ALIAS_LABELS) {
+      criteria.push({ property: label, type: "label", op, value, logic: "OR" });
+    }
   }
+  return criteria;
+}
+
+/**
+ * Score a note by its title and every #alias, keeping the best field
+ */
+function scoreCandidate(note: any, name: string): ScoredCandidate {
+  let best: ScoredCandidate = { note, score: scoreFuzzyMatch(name, note.title), matchedField: 'title' };
 
-  // Simple title-based search criteria
-  const searchCriteria: any[] = [{
-    property: "title",
-    type: "noteProperty",
-    op: exactMatch ? "=" : "contains",
-    value: noteName.trim()
-  }];
-
-  // Build search query from simple criteria
-  const searchParams: SearchOperation = {
-    searchCriteria
+  for (const attr of note.attributes || []) {
+    if (attr.type === 'label' && ALIAS_LABELS.includes(attr.name) && attr.value) {
+      const score = scoreFuzzyMatch(name, attr.value);
+      if (score > best.score) {
+        best = { note, score, matchedField: 'alias', matchedValue: attr.value };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Rank candidates: fuzzy score → folders → most recent
+ */
+function rankCandidates(notes: any[], name: string, exactMatch: boolean): ScoredCandidate[] {
+  const minScore = exactMatch ? 1 : MIN_FUZZY_SCORE;
+  return notes
+    .map(note => scoreCandidate(note, name))
+    .filter(candidate => candidate.score >= minScore)
+    .sort((a, b) => {
+      if (a.score !== b.score) return b.score - a.score;
+
+      if (a.note.type === 'book' && b.note.type !== 'book') return -1;
+      if (a.note.type !== 'book' && b.note.type === 'book') return 1;
+
+      return new Date(b.note.dateModified).getTime() - new Date(a.note.dateModified).getTime();
+    });
+}
+
+function toScoredMatch(candidate: ScoredCandidate) {
+  return {
+    noteId: candidate.note.noteId,
+    title: candidate.note.title,
+    type: candidate.note.type,
+    dateModified: candidate.note.dateModified,
+    score: Math.round(candidate.score * 100) / 100,
+    matchedField: candidate.matchedField,
+    ...(candidate.matchedValue ? { matchedValue: candidate.matchedValue } : {})
   };
+}
 
-  logVerboseInput("resolve_note_id", searchParams);
+/**
+ * Find note ID by name/title or #alias, tolerating typos
+ */
+async function resolveNoteByTitle(
+  args: ResolveNoteOperation,
+  axiosInstance: any
+): Promise<ResolveNoteResponse> {
+  const { noteName, exactMatch = false, maxResults = 3, autoSelect = false, includePaths = false } = args;
 
-  // Search for notes matching the criteria
-  const query = buildSearchQuery(searchParams);
-  const params = new URLSearchParams();
-  params.append("search", query);
-  params.append("fastSearch", "false");
-  params.append("includeArchivedNotes", "true");
+  if (!noteName?.trim()) {
+    throw new Error("Note name must be provided");
+  }
 
-  const response = await axiosInstance.get(`/notes?${params.toString()}`);
-  let searchResults = response.data.results || [];
+  const name = noteName.trim();
+  const searchCriteria = buildCandidateCriteria(name, exactMatch);
+  logVerboseInput("resolve_note_id", { searchCriteria });
 
-  const totalMatches = searchResults.length;
+  const candidates = await searchNotesByCriteria(searchCriteria, axiosInstance, MAX_CANDIDATES);
+  const ranked = rankCandidates(candidates, name, exactMatch);
+  const totalMatches = ranked.length;
 
-  if (searchResults.length === 0) {
+  if (totalMatches === 0) {
     // Enhanced fallback suggestions when no matches found
     let nextSteps = "No notes found matching the search criteria.";
 
     // Primary fallback: suggest broader search using search_notes
-    nextSteps += ` Consider using search_notes for broader results: search_notes(text: "${noteName.trim()}") to find notes containing "${noteName.trim()}" in title or content.`;
+    nextSteps += ` Consider using search_notes for broader results: search_notes(text: "${name}") to find notes containing "${name}" in title or content.`;
 
     return {
       noteId: null,
@@ -90,95 +436,37 @@ export async function handleResolveNoteId(
     };
   }
 
-  // Store original results for top matches
-  const originalResults = [...searchResults];
-
-  // Check if user choice is required (multiple matches and autoSelect is false)
-  if (totalMatches > 1 && !autoSelect) {
-    // Simple prioritization: exact matches → folders → most recent
-    const topMatches = originalResults
-      .sort((a: any, b: any) => {
-        // First priority: exact title matches
-        const aExact = a.title && a.title.toLowerCase() === noteName.toLowerCase();
-        const bExact = b.title && b.title.toLowerCase() === noteName.toLowerCase();
-        if (aExact && !bExact) return -1;
-        if (!aExact && bExact) return 1;
-
-        // Second priority: book type (folders)
-        if (a.type === 'book' && b.type !== 'book') return -1;
-        if (a.type !== 'book' && b.type === 'book') return 1;
-
-        // Final priority: most recent
-        return new Date(b.dateModified).getTime() - new Date(a.dateModified).getTime();
-      })
-      .slice(0, maxResults)
-      .map((note: any) => ({
-        noteId: note.noteId,
-        title: note.title,
-        type: note.type,
-        dateModified: note.dateModified
-      }));
+  const pathResolver = includePaths ? new NotePathResolver(axiosInstance) : undefined;
+  pathResolver?.remember(candidates);
+  const topMatches = ranked.slice(0, maxResults).map(toScoredMatch);
 
+  // Ask the user when the runner-up is about as good a match as the best one; a typo match needs a
+  // wider lead, so 'ProjectY' is not taken for 'ProjectX' while 'ProjectX Old' scores nearly as well
+  const fuzzyOnly = ranked[0].score < MIN_SUBSTRING_SCORE;
+  const margin = fuzzyOnly ? FUZZY_AMBIGUITY_MARGIN : AMBIGUITY_MARGIN;
+  const ambiguous = totalMatches > 1 && ranked[1].score >= ranked[0].score - margin;
+  if (ambiguous && !autoSelect) {
     return {
       noteId: null,
       title: null,
       found: true,
       matches: totalMatches,
       requiresUserChoice: true,
-      topMatches
+      topMatches: pathResolver ? await pathResolver.addPaths(topMatches) : topMatches,
+      ...(fuzzyOnly ? { nextSteps: `No title or alias contains "${name}"; these are only similar.` } : {})
     };
   }
 
-  // Apply simple prioritization for selecting the best match
-  if (searchResults.length > 1) {
-    searchResults.sort((a: any, b: any) => {
-      // First priority: exact title matches (if not exactMatch mode, prefer exact matches)
-      if (!exactMatch) {
-        const aExact = a.title && a.title.toLowerCase() === noteName.toLowerCase();
-        const bExact = b.title && b.title.toLowerCase() === noteName.toLowerCase();
-        if (aExact && !bExact) return -1;
-        if (!aExact && bExact) return 1;
-      }
-
-      // Second priority: book type (folders)
-      if (a.type === 'book' && b.type !== 'book') return -1;
-      if (a.type !== 'book' && b.type === 'book') return 1;
-
-      // Final priority: most recent
-      return new Date(b.dateModified).getTime() - new Date(a.dateModified).getTime();
-    });
-  }
-
-  // Return the first match (or best match if multiple)
-  const selectedNote = searchResults[0];
-
-  // Prepare top N matches for display (from original results, with simple prioritization)
-  const topMatches = originalResults
-    .sort((a: any, b: any) => {
-      // Simple prioritization: exact matches → folders → most recent
-      const aExact = a.title && a.title.toLowerCase() === noteName.toLowerCase();
-      const bExact = b.title && b.title.toLowerCase() === noteName.toLowerCase();
-      if (aExact && !bExact) return -1;
-      if (!aExact && bExact) return 1;
-
-      if (a.type === 'book' && b.type !== 'book') return -1;
-      if (a.type !== 'book' && b.type === 'book') return 1;
-
-      return new Date(b.dateModified).getTime() - new Date(a.dateModified).getTime();
-    })
-    .slice(0, maxResults)
-    .map((note: any) => ({
-      noteId: note.noteId,
-      title: note.title,
-      type: note.type,
-      dateModified: note.dateModified
-    }));
-
+  const { score, matchedField, matchedValue } = toScoredMatch(ranked[0]);
   return {
-    noteId: selectedNote.noteId,
-    title: selectedNote.title,
+    noteId: ranked[0].note.noteId,
+    title: ranked[0].note.title,
+    score,
+    matchedField,
+    ...(matchedValue ? { matchedValue } : {}),
+    ...(pathResolver ? { paths: await pathResolver.getPaths(ranked[0].note.noteId) } : {}),
     found: true,
     matches: totalMatches,
-    topMatches
+    topMatches: pathResolver ? await pathResolver.addPaths(topMatches) : topMatches
   };
-}
\ No newline at end of file
+}
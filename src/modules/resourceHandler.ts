@@ -0,0 +1,114 @@
+/**
+ * Resource Handler Module
+ * Handles MCP resources/list, resources/templates/list, resources/read
+ * and resources/subscribe|unsubscribe requests
+ */
+
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { PermissionChecker } from "../utils/permissionUtils.js";
+import {
+  NOTE_RESOURCE_TEMPLATES,
+  listNoteResources,
+  readNoteResource
+} from "./resourceManager.js";
+import { ResourceChangePoller } from "./resourceSubscriptionManager.js";
+
+/**
+ * Handle resources/list requests
+ */
+export async function handleListResourcesRequest(
+  axiosInstance: any,
+  permissionChecker: PermissionChecker
+): Promise<{ resources: any[] }> {
+  if (!permissionChecker.hasPermission("READ")) {
+    throw new McpError(ErrorCode.InvalidRequest, "Permission denied: Not authorized to list resources.");
+  }
+
+  const resources = await listNoteResources(axiosInstance);
+  return { resources };
+}
+
+/**
+ * Handle resources/templates/list requests
+ */
+export async function handleListResourceTemplatesRequest(
+  permissionChecker: PermissionChecker
+): Promise<{ resourceTemplates: any[] }> {
+  if (!permissionChecker.hasPermission("READ")) {
+    throw new McpError(ErrorCode.InvalidRequest, "Permission denied: Not authorized to list resources.");
+  }
+
+  return { resourceTemplates: NOTE_RESOURCE_TEMPLATES };
+}
+
+/**
+ * Handle resources/read requests
+ */
+export async function handleReadResourceRequest(
+  args: any,
+  axiosInstance: any,
+  permissionChecker: PermissionChecker
+): Promise<{ contents: any[] }> {
+  if (!permissionChecker.hasPermission("READ")) {
+    throw new McpError(ErrorCode.InvalidRequest, "Permission denied: Not authorized to read resources.");
+  }
+
+  if (!args?.uri) {
+    throw new McpError(ErrorCode.InvalidParams, "Missing required parameter 'uri'.");
+  }
+
+  try {
+    const contents = await readNoteResource(args.uri, axiosInstance);
+    return { contents };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    if ((error as any).response?.status === 404) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${args.uri}`);
+    }
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Handle resources/subscribe requests
+ */
+export async function handleSubscribeRequest(
+  args: any,
+  poller: ResourceChangePoller,
+  permissionChecker: PermissionChecker
+): Promise<{}> {
+  if (!permissionChecker.hasPermission("READ")) {
+    throw new McpError(ErrorCode.InvalidRequest, "Permission denied: Not authorized to subscribe to resources.");
+  }
+
+  if (!args?.uri) {
+    throw new McpError(ErrorCode.InvalidParams, "Missing required parameter 'uri'.");
+  }
+
+  try {
+    await poller.subscribe(args.uri);
+    return {};
+  } catch (error) {
+    if ((error as any).response?.status === 404) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${args.uri}`);
+    }
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Handle resources/unsubscribe requests
+ */
+export async function handleUnsubscribeRequest(
+  args: any,
+  poller: ResourceChangePoller
+): Promise<{}> {
+  if (!args?.uri) {
+    throw new McpError(ErrorCode.InvalidParams, "Missing required parameter 'uri'.");
+  }
+
+  poller.unsubscribe(args.uri);
+  return {};
+}
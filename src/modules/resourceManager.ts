@@ -0,0 +1,216 @@
+/**
+ * Resource Management Module
+ * Exposes TriliumNext notes as MCP resources using the trilium://note/{noteId} URI scheme
+ */
+
+import { buildSearchQuery } from "./searchQueryBuilder.js";
+import { handleGetNote } from "./noteManager.js";
+import { trimNoteResults } from "../utils/noteFormatter.js";
+import { logVerboseInput } from "../utils/verboseUtils.js";
+
+export const NOTE_URI_PREFIX = "trilium://note/";
+
+export interface NoteResourceUri {
+  noteId: string;
+  kind: 'note' | 'content';
+}
+
+export interface NoteResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface NoteResourceContents {
+  uri: string;
+  mimeType: string;
+  text?: string;
+  blob?: string;
+}
+
+/**
+ * Resource templates advertised to clients
+ */
+export const NOTE_RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: "trilium://note/{noteId}",
+    name: "Trilium note",
+    description: "Note metadata (title, type, attributes, content hash) plus a listing of its subtree. Each subtree entry carries its own resource URI.",
+    mimeType: "application/json"
+  },
+  {
+    uriTemplate: "trilium://note/{noteId}/content",
+    name: "Trilium note content",
+    description: "Raw note content. Text notes are returned as HTML, code and mermaid notes as plain text with their MIME type, file and image notes as base64 blobs."
+  }
+];
+
+/**
+ * Build the resource URI of a note
+ */
+export function buildNoteUri(noteId: string, kind: 'note' | 'content' = 'note'): string {
+  return kind === 'content' ? `${NOTE_URI_PREFIX}${noteId}/content` : `${NOTE_URI_PREFIX}${noteId}`;
+}
+
+/**
+ * Parse a trilium://note/{noteId}[/content] URI
+ */
+export function parseNoteUri(uri: string): NoteResourceUri {
+  const match = uri.match(/^trilium:\/\/note\/([^/?#]+)(\/content)?\/?$/);
+  if (!match) {
+    throw new Error(`Invalid resource URI: '${uri}'. Expected trilium://note/{noteId} or trilium://note/{noteId}/content`);
+  }
+
+  return {
+    noteId: decodeURIComponent(match[1]),
+    kind: match[2] ? 'content' : 'note'
+  };
+}
+
+/**
+ * Get the MIME type used when serving a note's content as a resource
+ */
+export function getResourceMimeType(note: any): string {
+  switch (note.type) {
+    case 'text':
+    case 'book':
+    case 'render':
+    case 'webView':
+      return 'text/html';
+    case 'mermaid':
+      return 'text/vnd.mermaid';
+    case 'code':
+      return note.mime || 'text/plain';
+    case 'file':
+    case 'image':
+      return note.mime || 'application/octet-stream';
+    default:
+      return note.mime || 'text/plain';
+  }
+}
+
+/**
+ * List recently modified notes as resources
+ */
+export async function listNoteResources(
+  axiosInstance: any,
+  limit: number = 50
+): Promise<NoteResource[]> {
+  logVerboseInput("listNoteResources", { limit });
+
+  const query = buildSearchQuery({
+    searchCriteria: [{ property: "isArchived", type: "noteProperty", op: "=", value: "false" }]
+  });
+
+  const params = new URLSearchParams();
+  params.append("search", query);
+  params.append("orderBy", "dateModified");
+  params.append("orderDirection", "desc");
+  params.append("limit", String(limit));
+
+  const response = await axiosInstance.get(`/notes?${params.toString()}`);
+  const notes = trimNoteResults(response.data.results || []);
+
+  return notes.map(note => ({
+    uri: buildNoteUri(note.noteId),
+    name: note.title,
+    title: note.title,
+    description: `${note.type} note (modified ${note.dateModified})`,
+    mimeType: "application/json"
+  }));
+}
+
+/**
+ * Read a note resource (metadata + subtree listing, or raw content)
+ */
+export async function readNoteResource(
+  uri: string,
+  axiosInstance: any,
+  subtreeLimit: number = 200
+): Promise<NoteResourceContents[]> {
+  const { noteId, kind } = parseNoteUri(uri);
+  logVerboseInput("readNoteResource", { uri, noteId, kind });
+
+  if (kind === 'content') {
+    return [await readNoteContentResource(uri, noteId, axiosInstance)];
+  }
+
+  const result = await handleGetNote({ noteId, includeContent: false }, axiosInstance);
+  const subtree = await listSubtree(noteId, axiosInstance, subtreeLimit);
+
+  const payload = {
+    ...result.note,
+    contentUri: buildNoteUri(noteId, 'content'),
+    contentMimeType: getResourceMimeType(result.note),
+    subtree: subtree.map(child => ({
+      uri: buildNoteUri(child.noteId),
+      noteId: child.noteId,
+      title: child.title,
+      type: child.type,
+      parentNoteIds: child.parentNoteIds,
+      dateModified: child.dateModified
+    })),
+    subtreeTruncated: subtree.length >= subtreeLimit
+  };
+
+  return [{
+    uri,
+    mimeType: "application/json",
+    text: JSON.stringify(payload, null, 2)
+  }];
+}
+
+/**
+ * Read raw note content with a type-appropriate MIME type
+ */
+async function readNoteContentResource(
+  uri: string,
+  noteId: string,
+  axiosInstance: any
+): Promise<NoteResourceContents> {
+  const noteResponse = await axiosInstance.get(`/notes/${noteId}`);
+  const note = noteResponse.data;
+  const mimeType = getResourceMimeType(note);
+
+  // Binary notes must be fetched as raw bytes, text-based notes go through handleGetNote
+  if (note.type === 'file' || note.type === 'image') {
+    const contentResponse = await axiosInstance.get(`/notes/${noteId}/content`, {
+      responseType: 'arraybuffer'
+    });
+    return {
+      uri,
+      mimeType,
+      blob: Buffer.from(contentResponse.data).toString('base64')
+    };
+  }
+
+  const result = await handleGetNote({ noteId, includeContent: true }, axiosInstance);
+  return {
+    uri,
+    mimeType,
+    text: result.content || ""
+  };
+}
+
+/**
+ * List all descendants of a note (flat, with parentNoteIds to rebuild the hierarchy)
+ */
+async function listSubtree(noteId: string, axiosInstance: any, limit: number): Promise<any[]> {
+  const query = buildSearchQuery({
+    searchCriteria: [{ property: "ancestors.noteId", type: "noteProperty", op: "=", value: noteId }],
+    limit
+  });
+
+  const params = new URLSearchParams();
+  params.append("search", query);
+  params.append("fastSearch", "false");
+  params.append("includeArchivedNotes", "false");
+
+  const response = await axiosInstance.get(`/notes?${params.toString()}`);
+  return (response.data.results || []).map((note: any) => ({
+    ...trimNoteResults([note])[0],
+    parentNoteIds: note.parentNoteIds || []
+  }));
+}
@@ -0,0 +1,169 @@
+/**
+ * Resource Subscription Module
+ * Polls ETAPI search on note.utcDateModified and reports blobId changes
+ * for subscribed trilium://note/{noteId} resources
+ */
+
+import { buildSearchQuery } from "./searchQueryBuilder.js";
+import { parseNoteUri, NoteResourceUri } from "./resourceManager.js";
+import { logVerbose, logVerboseError } from "../utils/verboseUtils.js";
+
+interface ResourceSubscription extends NoteResourceUri {
+  uri: string;
+  blobIds: Map<string, string>;
+}
+
+export class ResourceChangePoller {
+  private axiosInstance: any;
+  private onResourceUpdated: (uri: string) => Promise<void>;
+  private readonly intervalMs: number;
+  private subscriptions = new Map<string, ResourceSubscription>();
+  private timer?: NodeJS.Timeout;
+  private lastPoll = new Date();
+  private polling = false;
+
+  constructor(
+    axiosInstance: any,
+    onResourceUpdated: (uri: string) => Promise<void>,
+    intervalMs: number = 30000
+  ) {
+    this.axiosInstance = axiosInstance;
+    this.onResourceUpdated = onResourceUpdated;
+    this.intervalMs = intervalMs;
+  }
+
+  /**
+   * Subscribe to a resource URI
+   * trilium://note/{noteId} watches the note and its whole subtree,
+   * trilium://note/{noteId}/content watches the note itself only
+   */
+  async subscribe(uri: string): Promise<void> {
+    const parsed = parseNoteUri(uri);
+
+    if (this.subscriptions.has(uri)) {
+      return;
+    }
+
+    const subscription: ResourceSubscription = { ...parsed, uri, blobIds: new Map() };
+
+    // Seed known blobIds so that edits made before subscribing are not reported by the next poll
+    const notes = await this.findModifiedNotes(subscription, this.timer ? this.lastPoll : new Date());
+    for (const note of notes) {
+      subscription.blobIds.set(note.noteId, note.blobId);
+    }
+
+    this.subscriptions.set(uri, subscription);
+    logVerbose("ResourceChangePoller", `Subscribed to ${uri} (${notes.length} recently modified notes seeded)`);
+    this.start();
+  }
+
+  /**
+   * Unsubscribe from a resource URI
+   */
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+    logVerbose("ResourceChangePoller", `Unsubscribed from ${uri}`);
+
+    if (this.subscriptions.size === 0) {
+      this.stop();
+    }
+  }
+
+  /**
+   * Stop polling and drop all subscriptions
+   */
+  close(): void {
+    this.subscriptions.clear();
+    this.stop();
+  }
+
+  /**
+   * Run one polling cycle
+   * Returns the URIs that were reported as updated
+   */
+  async poll(): Promise<string[]> {
+    if (this.polling) {
+      return [];
+    }
+
+    this.polling = true;
+    const pollStartedAt = new Date();
+    const updatedUris: string[] = [];
+
+    try {
+      for (const subscription of Array.from(this.subscriptions.values())) {
+        try {
+          const notes = await this.findModifiedNotes(subscription, this.lastPoll);
+          let changed = false;
+
+          for (const note of notes) {
+            if (subscription.blobIds.get(note.noteId) !== note.blobId) {
+              subscription.blobIds.set(note.noteId, note.blobId);
+              changed = true;
+            }
+          }
+
+          // The subscription may have been removed while we were waiting for ETAPI
+          if (changed && this.subscriptions.has(subscription.uri)) {
+            updatedUris.push(subscription.uri);
+            await this.onResourceUpdated(subscription.uri);
+          }
+        } catch (error) {
+          logVerboseError(`ResourceChangePoller(${subscription.uri})`, error);
+        }
+      }
+
+      this.lastPoll = pollStartedAt;
+    } finally {
+      this.polling = false;
+    }
+
+    return updatedUris;
+  }
+
+  private start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.lastPoll = new Date();
+    this.timer = setInterval(() => {
+      this.poll().catch(error => logVerboseError("ResourceChangePoller", error));
+    }, this.intervalMs);
+
+    // Polling alone must not keep the process alive
+    this.timer.unref();
+  }
+
+  private stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Search for notes covered by a subscription that were modified since a point in time
+   */
+  private async findModifiedNotes(subscription: ResourceSubscription, since: Date): Promise<any[]> {
+    // Trilium compares dates as strings in its own 'YYYY-MM-DD HH:mm:ss.sssZ' format
+    const windowStart = since.toISOString().replace('T', ' ');
+
+    const searchCriteria: any[] = [
+      { property: "utcDateModified", type: "noteProperty", op: ">=", value: windowStart, logic: "AND" },
+      { property: "noteId", type: "noteProperty", op: "=", value: subscription.noteId, logic: "OR" }
+    ];
+
+    if (subscription.kind === 'note') {
+      searchCriteria.push({ property: "ancestors.noteId", type: "noteProperty", op: "=", value: subscription.noteId });
+    }
+
+    const params = new URLSearchParams();
+    params.append("search", buildSearchQuery({ searchCriteria }));
+    params.append("fastSearch", "false");
+    params.append("includeArchivedNotes", "true");
+
+    const response = await this.axiosInstance.get(`/notes?${params.toString()}`);
+    return response.data.results || [];
+  }
+}
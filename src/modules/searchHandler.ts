@@ -27,7 +27,8 @@ export async function handleSearchNotesRequest(
     const searchOperation: SearchOperation = {
       text: args.text,
       searchCriteria: args.searchCriteria,
-      limit: args.limit
+      limit: args.limit,
+      includePaths: args.includePaths || false
     };
 
     const result = await handleSearchNotes(searchOperation, axiosInstance);
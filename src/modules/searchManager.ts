@@ -6,12 +6,15 @@
 import { buildSearchQuery } from "./searchQueryBuilder.js";
 import { trimNoteResults, formatNotesForListing } from "../utils/noteFormatter.js";
 import { createSearchDebugInfo, createListSummary } from "../utils/verboseUtils.js";
+import { NotePathResolver } from "./notePathManager.js";
 
 // Interface for SearchOperation - unified searchCriteria structure
 export interface SearchOperation {
   text?: string;
   searchCriteria?: any[];
   limit?: number;
+  // Add breadcrumb title paths to each result, one per branch
+  includePaths?: boolean;
 }
 
 export interface SearchResponse {
@@ -53,7 +56,9 @@ export async function handleSearchNotes(
   
   let searchResults = response.data.results || [];
 
-  const trimmedResults = trimNoteResults(searchResults);
+  const trimmedResults = args.includePaths
+    ? await new NotePathResolver(axiosInstance).addPaths(trimNoteResults(searchResults), searchResults)
+    : trimNoteResults(searchResults);
   
   return {
     results: trimmedResults,
@@ -303,9 +303,9 @@ function validateMimeType(value: string): string {
  * Validates ISO date format for date properties
  */
 function validateISODate(value: string, property: string): string {
-  // ISO date formats: YYYY-MM-DD or YYYY-MM-DDTHH:mm:ss.sssZ
+  // ISO date formats: YYYY-MM-DD or YYYY-MM-DDTHH:mm:ss.sssZ (or Trilium's own 'YYYY-MM-DD HH:mm:ss.sssZ')
   const isoDateRegex = /^\d{4}-\d{2}-\d{2}$/;
-  const isoDateTimeRegex = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z?$/;
+  const isoDateTimeRegex = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(\.\d{3})?Z?$/;
 
   // Check if it's a valid ISO date or ISO datetime
   const isValidISO = isoDateRegex.test(value) || isoDateTimeRegex.test(value);
@@ -316,7 +316,7 @@ function validateISODate(value: string, property: string): string {
 
   // For ISO dates, check if the date is actually valid
   if (isValidISO) {
-    const dateObj = new Date(value);
+    const dateObj = new Date(value.replace(' ', 'T'));
     if (isNaN(dateObj.getTime())) {
       throw new Error(`Invalid date value for property '${property}': '${value}'. Please provide a valid ISO date.`);
     }
@@ -341,6 +341,9 @@ function buildNotePropertyQuery(criteria: SearchCriteria): string {
   // Map property names to Trilium note properties
   let triliumProperty: string;
   switch (property) {
+    case 'noteId':
+      triliumProperty = 'note.noteId';
+      break;
     case 'isArchived':
       triliumProperty = 'note.isArchived';
       break;
@@ -365,6 +368,12 @@ function buildNotePropertyQuery(criteria: SearchCriteria): string {
     case 'dateModified':
       triliumProperty = 'note.dateModified';
       break;
+    case 'utcDateCreated':
+      triliumProperty = 'note.utcDateCreated';
+      break;
+    case 'utcDateModified':
+      triliumProperty = 'note.utcDateModified';
+      break;
     case 'labelCount':
       triliumProperty = 'note.labelCount';
       break;
@@ -470,7 +479,8 @@ function buildNotePropertyQuery(criteria: SearchCriteria): string {
     // MIME type property - validate and wrap in quotes
     const validatedValue = validateMimeType(value!);
     processedValue = `'${validatedValue.replace(/'/g, "\\'")}'`;
-  } else if (property === 'dateCreated' || property === 'dateModified') {
+  } else if (property === 'dateCreated' || property === 'dateModified' ||
+    property === 'utcDateCreated' || property === 'utcDateModified') {
     // Date properties - validate ISO format and wrap in quotes
     const validatedValue = validateISODate(value!, property);
     processedValue = `'${validatedValue.replace(/'/g, "\\'")}'`;
@@ -0,0 +1,171 @@
+/**
+ * Section Editing Module
+ * Heading-aware edits of text notes: replace, insert around or delete the section under a heading
+ */
+
+import { processContentArray } from '../utils/contentProcessor.js';
+import { parseHeadingOutline, findSections, formatOutline, parseHeadingPath } from '../utils/htmlUtils.js';
+import { createUnifiedDiff } from '../utils/diffUtils.js';
+import { logVerbose, logVerboseApi } from '../utils/verboseUtils.js';
+import { journalContentChange } from './noteManager.js';
+
+export type SectionOperation = 'replace' | 'insert_before' | 'insert_after' | 'delete';
+
+export interface EditSectionOperation {
+  noteId: string;
+  headingPath: string | string[];
+  operation: SectionOperation;
+  content?: string;
+  expectedHash: string;
+  revision?: boolean;
+  dryRun?: boolean;
+}
+
+export interface EditSectionResponse {
+  noteId: string;
+  message: string;
+  section?: string[];
+  revisionCreated: boolean;
+  conflict?: boolean;
+  dryRun?: boolean;
+  diff?: string;
+}
+
+/**
+ * Edit the section under a heading of a text note
+ * - replace: replaces the section body (everything after the heading, including subsections)
+ * - insert_before: inserts content before the heading
+ * - insert_after: inserts content after the section (and its subsections), before the next heading of the same or a higher level
+ * - delete: removes the heading and its whole section
+ */
+export async function handleEditSection(
+  args: EditSectionOperation,
+  axiosInstance: any
+): Promise<EditSectionResponse> {
+  const { noteId, headingPath, operation, content, expectedHash, revision = true, dryRun = false } = args;
+
+  if (operation !== 'delete' && !content) {
+    throw new Error(`content is required for the '${operation}' operation.`);
+  }
+
+  const noteResponse = await axiosInstance.get(`/notes/${noteId}`);
+  const note = noteResponse.data;
+
+  if (note.type !== 'text') {
+    throw new Error(`edit_section only works on text notes; note ${noteId} is of type '${note.type}'. Use update_note or search_and_replace_note instead.`);
+  }
+
+  if (note.blobId !== expectedHash) {
+    return {
+      noteId,
+      message: `CONFLICT: Note has been modified by another user. ` +
+        `Current blobId: ${note.blobId}, expected: ${expectedHash}. ` +
+        `Please get the latest note content and retry.`,
+      revisionCreated: false,
+      conflict: true
+    };
+  }
+
+  const contentResponse = await axiosInstance.get(`/notes/${noteId}/content`, { responseType: 'text' });
+  const html: string = contentResponse.data;
+
+  const outline = parseHeadingOutline(html);
+  const matches = findSections(outline, headingPath);
+  const pathText = parseHeadingPath(headingPath).join(' > ');
+
+  if (matches.length === 0) {
+    const available = outline.length > 0 ? `Headings in this note:\n${formatOutline(outline)}` : "This note has no headings.";
+    throw new Error(`No heading matches "${pathText}" in note ${noteId}. ${available}`);
+  }
+
+  if (matches.length > 1) {
+    const candidates = matches.map(section => section.path.join(' > ')).join('; ');
+    throw new Error(`Heading path "${pathText}" is ambiguous in note ${noteId}: ${candidates}. Add enclosing headings to the path to pick one.`);
+  }
+
+  const section = matches[0];
+
+  let insertion = "";
+  if (operation !== 'delete') {
+    const processed = await processContentArray(content as string, 'text');
+    if (processed.error) {
+      throw new Error(`Content processing error: ${processed.error}`);
+    }
+    insertion = processed.content;
+  }
+
+  let newContent: string;
+  switch (operation) {
+    case 'replace':
+      newContent = html.slice(0, section.bodyStart) + insertion + html.slice(section.end);
+      break;
+    case 'insert_before':
+      newContent = html.slice(0, section.start) + insertion + html.slice(section.start);
+      break;
+    case 'insert_after':
+      newContent = html.slice(0, section.end) + insertion + html.slice(section.end);
+      break;
+    case 'delete':
+      newContent = html.slice(0, section.start) + html.slice(section.end);
+      break;
+    default:
+      throw new Error(`Invalid operation: ${operation}. Must be one of 'replace', 'insert_before', 'insert_after', 'delete'.`);
+  }
+
+  const sectionText = section.path.join(' > ');
+  logVerbose("handleEditSection", `${operation} on section "${sectionText}" of note ${noteId}`, { start: section.start, end: section.end });
+
+  if (dryRun) {
+    return {
+      noteId,
+      message: `DRY RUN: nothing was written to note ${noteId}. The diff shows the content after '${operation}' on section "${sectionText}".`,
+      section: section.path,
+      revisionCreated: false,
+      conflict: false,
+      dryRun: true,
+      diff: createUnifiedDiff(html, newContent, {
+        oldLabel: `${noteId} (stored)`,
+        newLabel: `${noteId} (proposed)`,
+        splitHtml: true
+      })
+    };
+  }
+
+  let revisionCreated = false;
+  if (revision) {
+    try {
+      await axiosInstance.post(`/notes/${noteId}/revision`);
+      revisionCreated = true;
+    } catch (error) {
+      console.error(`Warning: Failed to create revision for note ${noteId}:`, error);
+    }
+  }
+
+  logVerboseApi("PUT", `/notes/${noteId}/content`);
+  const putResponse = await axiosInstance.put(`/notes/${noteId}/content`, newContent, {
+    headers: { "Content-Type": "text/plain" }
+  });
+
+  if (putResponse.status !== 204) {
+    throw new Error(`Unexpected response status: ${putResponse.status}`);
+  }
+
+  await journalContentChange(
+    axiosInstance,
+    "edit_section",
+    noteId,
+    html,
+    undefined,
+    `Applied '${operation}' to section "${sectionText}" of note ${noteId}`
+  );
+
+  const revisionMsg = revisionCreated ? " (revision created)" : " (no revision)";
+
+  return {
+    noteId,
+    message: `Section "${sectionText}" of note ${noteId} updated with '${operation}'${revisionMsg}`,
+    section: section.path,
+    revisionCreated,
+    conflict: false
+  };
+}
@@ -4,11 +4,14 @@
  */
 
 import { PermissionChecker } from '../utils/permissionUtils.js';
+import { isJournalEnabled } from './journalManager.js';
 
 /**
  * Generate write operation tools (CREATE, UPDATE, DELETE operations)
  */
 export function createWriteTools(): any[] {
+  const searchProperties = createSearchProperties();
+
   return [
     {
       name: "create_note",
@@ -23,11 +26,11 @@ export function createWriteTools(): any[] {
           },
           title: {
             type: "string",
-            description: "Title of the note",
+            description: "Title of the note. May be omitted for text notes whose content starts with YAML frontmatter containing 'title' (the frontmatter title is used when both are given).",
           },
           content: {
             type: "string",
-            description: "Content of the note (optional). Content requirements by note type: TEXT notes require HTML content (plain text auto-wrapped in <p> tags, e.g., '<p>Hello world</p>', '<strong>bold</strong>'); CODE/MERMAID notes require plain text ONLY (HTML tags rejected, e.g., 'def fibonacci(n):'); ⚠️ OMIT CONTENT for: 1) FILE notes (binary content uploaded separately via fileUri parameter), 2) WEBVIEW notes (use #webViewSrc label instead), 3) Container templates (Board, Calendar, Grid View, List View, Table, Geo Map), 4) System notes: RENDER (create child HTML note with type='code' and mime='application/x-html', then link with ~renderNote relation), SEARCH (queries in search properties), RELATION_MAP (visual maps), NOTE_MAP (visual hierarchies), BOOK (container notes) - these must be EMPTY to work properly. When omitted, note will be created with empty content."
+            description: "Content of the note (optional). Content requirements by note type: TEXT notes take HTML content (e.g., '<p>Hello world</p>', '<strong>bold</strong>'); content that looks like Markdown (headings, lists, links, emphasis, code) is converted to HTML, other plain text is wrapped in <p> tags; CODE/MERMAID notes require plain text ONLY (HTML tags rejected, e.g., 'def fibonacci(n):'); ⚠️ OMIT CONTENT for: 1) FILE notes (binary content uploaded separately via fileUri parameter), 2) WEBVIEW notes (use #webViewSrc label instead), 3) Container templates (Board, Calendar, Grid View, List View, Table, Geo Map), 4) System notes: RENDER (create child HTML note with type='code' and mime='application/x-html', then link with ~renderNote relation), SEARCH (queries in search properties), RELATION_MAP (visual maps), NOTE_MAP (visual hierarchies), BOOK (container notes) - these must be EMPTY to work properly. When omitted, note will be created with empty content. Markdown for TEXT notes may start with a YAML frontmatter block (e.g. from Obsidian): 'title' sets the note title, '~name: Target Title' keys become relations to the note with that exact title, all other keys become labels (one per list item); the block itself is not stored."
           },
           type: {
             type: "string",
@@ -81,12 +84,128 @@ export function createWriteTools(): any[] {
             default: false
           },
         },
-        required: ["parentNoteId", "title", "type"],
+        required: ["parentNoteId", "type"],
       },
     },
+    {
+      name: "create_note_tree",
+      description: "Create a whole structure of notes in one call (e.g. a project skeleton with sub-pages), instead of many create_note calls. Notes are created depth-first; relations between notes of the same call use local keys ('key' on the target note, 'targetKey' on the relation). Returns an ID map from keys (or title paths like 'Project > Docs') to the new note IDs. Only the top-level notes are checked for duplicate titles under parentNoteId. ONLY use this tool when the user explicitly asks to create notes.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          parentNoteId: {
+            type: "string",
+            description: "ID of the note to create the tree under",
+            default: "root"
+          },
+          notes: {
+            type: "array",
+            description: "Top-level notes to create. Each note may have 'children' with the same shape, nested to any depth (at most 200 notes per call). File and image notes are not supported here; use create_note.",
+            items: {
+              type: "object",
+              properties: {
+                key: {
+                  type: "string",
+                  description: "Local reference, unique within the call, used by relation 'targetKey' and as the ID map key"
+                },
+                title: { type: "string", description: "Title of the note" },
+                type: {
+                  type: "string",
+                  enum: ["text", "code", "render", "search", "relationMap", "book", "noteMap", "mermaid", "webView"],
+                  description: "Type of note, as in create_note"
+                },
+                content: { type: "string", description: "Content of the note (optional), with the same rules as create_note" },
+                mime: { type: "string", description: "MIME type for code notes" },
+                attributes: {
+                  type: "array",
+                  description: "Labels and relations, as in create_note. For a relation to another note of this call, set 'targetKey' to that note's key instead of 'value'.",
+                  items: {
+                    type: "object",
+                    properties: {
+                      type: { type: "string", enum: ["label", "relation"] },
+                      name: { type: "string" },
+                      value: { type: "string" },
+                      targetKey: { type: "string", description: "Key of a note created in the same call (relations only)" },
+                      position: { type: "number", default: 10 },
+                      isInheritable: { type: "boolean", default: false }
+                    },
+                    required: ["type", "name"]
+                  }
+                },
+                children: {
+                  type: "array",
+                  description: "Child notes, with the same shape as this note",
+                  items: { type: "object" }
+                }
+              },
+              required: ["title", "type"]
+            }
+          },
+          onError: {
+            type: "string",
+            enum: ["rollback", "keep"],
+            description: "What to do when a note or relation cannot be created: 'rollback' (default) deletes everything created by this call; 'keep' leaves the notes created so far and reports partial success",
+            default: "rollback"
+          },
+          forceCreate: {
+            type: "boolean",
+            description: "Create the top-level notes even if notes with the same titles already exist under parentNoteId",
+            default: false
+          }
+        },
+        required: ["notes"]
+      }
+    },
+    {
+      name: "import_markdown_directory",
+      description: "Import a local folder of Markdown files (on the machine running this server) as a subtree: the folder and its subfolders become book notes, each .md file a text note converted from Markdown. Local images referenced by the files are uploaded as image attachments, and relative links between the files become Trilium reference links. Every imported note is labelled #importSource with its source path, so running the import again on the same folder and parent updates the same notes and skips files whose content has not changed. ONLY use this tool when the user explicitly asks to import files.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          directoryPath: {
+            type: "string",
+            description: "Path of the local directory to import, e.g. '/home/me/docs'. Hidden files and folders are skipped."
+          },
+          parentNoteId: {
+            type: "string",
+            description: "ID of the note to import the directory under",
+            default: "root"
+          },
+          title: {
+            type: "string",
+            description: "Title of the note created for the directory itself (default: the directory name). Ignored when re-importing."
+          },
+          maxFiles: {
+            type: "number",
+            description: "Refuse to import directories with more Markdown files than this (default: 500)",
+            default: 500
+          }
+        },
+        required: ["directoryPath"]
+      }
+    },
+    {
+      name: "import_zip",
+      description: "Import a ZIP exported from Trilium (by export_subtree or the Trilium UI, HTML or Markdown) under a parent note, recreating the exported subtree with its attributes and attachments. The archive is checked first and refused when it is not a Trilium export. Returns the ID of the imported root note and a census of the imported notes by type. ONLY use this tool when the user explicitly asks to import or restore an export.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          zipSource: {
+            type: "string",
+            description: "The ZIP as a local file path (on the machine running this server, e.g. '/home/me/exports/Project-2024-05-01.zip'), a base64 string, or a data URI. Same size limit as file uploads (50MB)."
+          },
+          parentNoteId: {
+            type: "string",
+            description: "ID of the note to import the subtree under",
+            default: "root"
+          }
+        },
+        required: ["zipSource"]
+      }
+    },
     {
       name: "update_note",
-      description: "Update note with support for title-only updates, content overwrite, content append, or file replacement. ⚠️ REQUIRED: ALWAYS call get_note first to obtain current hash. ⚠️ SIMPLER RULES: Note type and MIME type are IMMUTABLE - cannot be changed after creation. MODE SELECTION: Use 'append' when user wants to add/insert content (e.g., 'append to note', 'add to the end', 'insert content', 'add more content', 'continue writing', 'add to bottom'). Use 'overwrite' when replacing entire content (e.g., 'replace content', 'overwrite note', 'update the whole note', 'completely replace'). TITLE-ONLY: Efficient title changes without content modification. FILE UPDATES: Replace file content only with SAME file type (image→image, file→file). To change file types, create a new note instead. PREVENTS: Type mismatches, file type conflicts, and overwriting changes made by other users. ONLY use when user explicitly requests note update. WORKFLOW: get_note → review content → update_note with returned hash",
+      description: "Update note with support for title-only updates, content overwrite, append, prepend, anchored insertion, range replacement, or file replacement. ⚠️ REQUIRED: ALWAYS call get_note first to obtain current hash. ⚠️ SIMPLER RULES: Note type and MIME type are IMMUTABLE - cannot be changed after creation. MODE SELECTION: Use 'append' when user wants to add content at the end (e.g., 'append to note', 'add to the end', 'add more content', 'continue writing', 'add to bottom'). Use 'prepend' to add content at the top. Use 'insert_after'/'insert_before' with an anchor to insert next to a specific passage or element (e.g., 'insert after the intro paragraph'). Use 'replace_range' with the index/length of a get_note search match to change one occurrence in place. Use 'overwrite' when replacing entire content (e.g., 'replace content', 'overwrite note', 'update the whole note', 'completely replace'). TITLE-ONLY: Efficient title changes without content modification. FILE UPDATES: Replace file content only with SAME file type (image→image, file→file). To change file types, create a new note instead. PREVENTS: Type mismatches, file type conflicts, and overwriting changes made by other users. ONLY use when user explicitly requests note update. WORKFLOW: get_note → review content → update_note with returned hash",
       inputSchema: {
         type: "object",
         properties: {
@@ -100,7 +219,7 @@ export function createWriteTools(): any[] {
           },
           content: {
             type: "string",
-            description: "Content of the note. Content requirements by note type: TEXT notes require HTML content (plain text auto-wrapped in <p> tags, e.g., '<p>Hello world</p>', '<strong>bold</strong>'); CODE/MERMAID notes require plain text ONLY (HTML tags rejected, e.g., 'def fibonacci(n):'); ⚠️ SYSTEM NOTES MUST REMAIN EMPTY: RENDER (HTML handled by note type), SEARCH (queries in search properties), RELATION_MAP (visual maps), NOTE_MAP (visual hierarchies), BOOK (container notes), WEBVIEW (use #webViewSrc label); IMPORTANT: When updating notes with template relations (Board, Calendar, Grid View, List View, Table, Geo Map), the note must remain EMPTY - these templates provide specialized layouts and content should be added as child notes instead."
+            description: "Content of the note. Content requirements by note type: TEXT notes take HTML content (e.g., '<p>Hello world</p>', '<strong>bold</strong>'); content that looks like Markdown (headings, lists, links, emphasis, code) is converted to HTML, other plain text is wrapped in <p> tags; CODE/MERMAID notes require plain text ONLY (HTML tags rejected, e.g., 'def fibonacci(n):'); ⚠️ SYSTEM NOTES MUST REMAIN EMPTY: RENDER (HTML handled by note type), SEARCH (queries in search properties), RELATION_MAP (visual maps), NOTE_MAP (visual hierarchies), BOOK (container notes), WEBVIEW (use #webViewSrc label); IMPORTANT: When updating notes with template relations (Board, Calendar, Grid View, List View, Table, Geo Map), the note must remain EMPTY - these templates provide specialized layouts and content should be added as child notes instead. YAML frontmatter at the start of TEXT content (not in replace_range mode) is applied to the note and not stored: 'title' renames it, other keys add missing labels or update a differing single-valued label, '~name' keys add relations resolved by exact title; existing attributes are never deleted."
           },
           fileUri: {
             type: "string",
@@ -117,8 +236,32 @@ export function createWriteTools(): any[] {
           },
           mode: {
             type: "string",
-            enum: ["overwrite", "append"],
-            description: "Content update mode. REQUIRED when updating content for text/code notes, optional for file-only updates. CRITICAL: Choose based on user intent: 'append' = add/insert content while preserving existing content (use for 'add to', 'append', 'insert', 'add more', 'continue writing'); 'overwrite' = completely replace all existing content (use for 'replace', 'overwrite', 'update all', 'completely replace'). Default behavior is not available - you MUST explicitly choose when updating content."
+            enum: ["overwrite", "append", "prepend", "insert_after", "insert_before", "replace_range"],
+            description: "Content update mode. REQUIRED when updating content for text/code notes, optional for file-only updates. CRITICAL: Choose based on user intent: 'append' = add content at the end while preserving existing content (use for 'add to', 'append', 'add more', 'continue writing'); 'prepend' = add content at the beginning; 'insert_after' / 'insert_before' = insert content right after / before the unique position given by 'anchor'; 'replace_range' = replace the characters given by 'range' with 'content' verbatim (empty content deletes them); 'overwrite' = completely replace all existing content (use for 'replace', 'overwrite', 'update all', 'completely replace'). Default behavior is not available - you MUST explicitly choose when updating content."
+          },
+          anchor: {
+            type: "string",
+            description: "Required for mode 'insert_after' / 'insert_before'. Locates the insertion point in the STORED content (HTML for text notes, source for code notes, as returned by get_note). Must match exactly once; with anchorType 'id' it names an HTML element id and content is inserted after its closing tag / before its opening tag."
+          },
+          anchorType: {
+            type: "string",
+            enum: ["literal", "regex", "id"],
+            description: "How 'anchor' is interpreted: 'literal' (default) = exact text, 'regex' = JavaScript regular expression, 'id' = id attribute of an element (text notes only)",
+            default: "literal"
+          },
+          range: {
+            type: "object",
+            properties: {
+              index: { type: "number", description: "Start offset in the stored content" },
+              length: { type: "number", description: "Number of characters to replace" }
+            },
+            required: ["index", "length"],
+            description: "Required for mode 'replace_range'. Character offsets into the stored content, as returned in get_note search.matches ({ index, length }). Offsets are only valid for the blobId they were read with. Content is inserted verbatim (no Markdown conversion or <p> wrapping); the resulting note content is validated."
+          },
+          dryRun: {
+            type: "boolean",
+            description: "Preview the update without writing anything: runs the same validation, auto-correction and Markdown conversion, then returns a unified diff of the stored content plus any title change. Use this when the user wants to review an edit before it is applied.",
+            default: false
           }
         },
         required: ["noteId", "expectedHash"]
@@ -126,7 +269,7 @@ export function createWriteTools(): any[] {
     },
     {
       name: "delete_note",
-      description: "Delete a note permanently. ONLY use this tool when the user explicitly requests note deletion (e.g., 'delete the note', 'remove this note', 'delete this permanently'). TRY NOT to use this tool proactively or for automated cleanup. CAUTION: This action cannot be undone and will permanently remove the note and all its content.",
+      description: "Delete a note and its subtree. ONLY use this tool when the user explicitly requests note deletion (e.g., 'delete the note', 'remove this note', 'delete this permanently'). TRY NOT to use this tool proactively or for automated cleanup. Deleting is a two-step process: first call with preview=true to get the impact (descendants that would be deleted, clones that would survive, notes linking to the deleted notes, total content size) and a confirmationToken, show the impact to the user, then call again with that confirmationToken to delete. The token becomes invalid when the subtree changes in between. CAUTION: Unless the server runs in soft delete mode (where the note is moved to a trash note and can be brought back with restore_note), this action cannot be undone and will permanently remove the note and all its content.",
       inputSchema: {
         type: "object",
         properties: {
@@ -134,6 +277,14 @@ export function createWriteTools(): any[] {
             type: "string",
             description: "ID of the note to delete",
           },
+          preview: {
+            type: "boolean",
+            description: "Only report what would be deleted and return a confirmationToken, without deleting anything",
+          },
+          confirmationToken: {
+            type: "string",
+            description: "Token returned by the preview call. Required to actually delete the note",
+          },
         },
         required: ["noteId"],
       },
@@ -166,6 +317,12 @@ export function createWriteTools(): any[] {
             description: "Search options. Defaults to 'gi' (global, case-insensitive). Remove 'i' for exact case matching.",
             default: "gi"
           },
+          htmlMode: {
+            type: "string",
+            enum: ["raw", "text"],
+            description: "How text notes are searched. 'raw' (default) = the pattern runs over the stored HTML, including tags and attributes. 'text' = the pattern runs over the rendered text only (entities decoded, blocks separated by a newline), so phrases split by formatting like <strong> still match, markup is never touched, and the replacement is inserted as escaped text. Prefer 'text' for prose edits. Ignored for non-text notes (e.g. code), which are always searched as stored.",
+            default: "raw"
+          },
           expectedHash: {
             type: "string",
             description: "⚠️ REQUIRED: Content hash from get_note response. Always get the note content first to obtain this hash.",
@@ -174,11 +331,109 @@ export function createWriteTools(): any[] {
             type: "boolean",
             description: "Whether to create a backup before replacing (default: true for safety).",
             default: true
+          },
+          dryRun: {
+            type: "boolean",
+            description: "Preview the replacement without writing anything: returns the number of matches and a unified diff of the stored content.",
+            default: false
           }
         },
         required: ["noteId", "searchPattern", "replacePattern", "expectedHash"]
       }
     },
+    {
+      name: "edit_section",
+      description: "Edit one section of a text note, identified by its heading, instead of rewriting or appending to the whole note. A section is a heading plus everything up to the next heading of the same or a higher level (so it includes its subsections). Use this to add an entry under a specific heading of a long note (operation 'insert_after' on the last subsection, or 'replace'), to rewrite one part, or to remove it. Call get_note first to get the blobId. If the heading is not found, the error lists the note's headings.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          noteId: {
+            type: "string",
+            description: "ID of the text note to edit"
+          },
+          headingPath: {
+            type: "string",
+            description: "Heading to edit, optionally preceded by enclosing headings separated by '>' to disambiguate, e.g. 'Decisions > 2024-Q3'. Matching is case-insensitive; intermediate heading levels may be skipped."
+          },
+          operation: {
+            type: "string",
+            enum: ["replace", "insert_before", "insert_after", "delete"],
+            description: "'replace' = replace the section body (the heading stays, subsections are replaced too); 'insert_before' = insert content before the heading; 'insert_after' = insert content after the whole section, before the next heading of the same or a higher level; 'delete' = remove the heading and its section"
+          },
+          content: {
+            type: "string",
+            description: "HTML or Markdown to insert (required except for 'delete'). Include a heading in the content to create a new sibling section."
+          },
+          expectedHash: {
+            type: "string",
+            description: "⚠️ REQUIRED: Blob ID (content hash) from get_note response, to prevent overwriting concurrent changes."
+          },
+          revision: {
+            type: "boolean",
+            description: "Whether to create a revision before editing (default: true)",
+            default: true
+          },
+          dryRun: {
+            type: "boolean",
+            description: "Preview the edit as a unified diff without writing anything",
+            default: false
+          }
+        },
+        required: ["noteId", "headingPath", "operation", "expectedHash"]
+      }
+    },
+    {
+      name: "bulk_search_replace",
+      description: "Search and replace across every note returned by a search (e.g. renaming a product or a person in dozens of notes). Two steps: first call WITHOUT expectedHashes to preview per-note match counts and diffs (nothing is written) and show them to the user; then call again with the same arguments plus the returned expectedHashes to apply. Each note is only updated if its blobId still matches the preview; the result lists per-note outcomes: applied, conflicted (changed since the preview), invalid (note type has no editable text, or the result is not valid for the type), no_matches, skipped or failed.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          text: searchProperties.text,
+          searchCriteria: searchProperties.searchCriteria,
+          limit: searchProperties.limit,
+          searchPattern: {
+            type: "string",
+            description: "What to search for in each note."
+          },
+          replacePattern: {
+            type: "string",
+            description: "What to replace it with. For regex: supports patterns like '$1' for captured groups."
+          },
+          useRegex: {
+            type: "boolean",
+            description: "Whether to use regex patterns (default: true).",
+            default: true
+          },
+          searchFlags: {
+            type: "string",
+            description: "Search options. Defaults to 'g' (global, case-sensitive). Add 'i' for case-insensitive matching.",
+            default: "g"
+          },
+          htmlMode: {
+            type: "string",
+            enum: ["raw", "text"],
+            description: "'raw' (default) matches the stored HTML of text notes; 'text' matches only their rendered text, leaving markup untouched. Recommended: 'text' for renames in prose.",
+            default: "raw"
+          },
+          expectedHashes: {
+            type: "object",
+            additionalProperties: { type: "string" },
+            description: "The expectedHashes object (noteId -> blobId) returned by the preview. Omit to preview; provide to apply the replacement to exactly the previewed notes."
+          },
+          revision: {
+            type: "boolean",
+            description: "Whether to create a revision of each note before replacing (default: true).",
+            default: true
+          },
+          maxNotes: {
+            type: "number",
+            description: "Refuse to run when the search returns more notes than this (default: 50).",
+            default: 50
+          }
+        },
+        required: ["searchPattern", "replacePattern"]
+      }
+    },
   ];
 }
 
@@ -223,35 +478,86 @@ export function createReadTools(): any[] {
             description: "Search options. Defaults to 'gi' (find all matches, case-insensitive).",
             default: "gi"
           },
+          format: {
+            type: "string",
+            enum: ["html", "markdown", "text"],
+            description: "Representation of TEXT note content (default: 'html', the stored CKEditor HTML). 'markdown' returns GitHub-flavoured Markdown (tables, task lists, code block languages, $math$, note links as [title](trilium:noteId)) preceded by YAML frontmatter with the title and attributes; 'text' returns plain text with one block per line. Uses fewer tokens than HTML. contentHash is still returned, so the Markdown can be edited and sent back with update_note (mode 'overwrite'). Ignored for other note types and when searchPattern is given.",
+            default: "html"
+          },
+          includePaths: {
+            type: "boolean",
+            description: "Add 'paths': the note's breadcrumb title path(s) like 'Work / ProjectX / Meeting Notes', one per parent for cloned notes (default: false)",
+            default: false
+          },
         },
         required: ["noteId"],
       }
     },
+    {
+      name: "get_note_tree",
+      description: "List the children of a note recursively, like 'ls' / 'tree' on a folder: notes in their branch order with branch prefixes, types and child counts. Use this instead of search_notes with parents.noteId when the user wants to see what is inside a note or browse the hierarchy. Archived notes are skipped unless includeArchived is true.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          noteId: {
+            type: "string",
+            description: "ID of the note whose subtree is listed (default: 'root')",
+            default: "root"
+          },
+          depth: {
+            type: "number",
+            description: "Levels of children to list (1 = direct children only, max 10). Notes at the last level still show how many children they have. Default: 2",
+            default: 2
+          },
+          format: {
+            type: "string",
+            enum: ["lines", "json"],
+            description: "'lines' (default): one ls-style line per note ('date  title/ (noteId) [type, N children]'), indented by level. 'json': nested objects with noteId, title, type, prefix, childCount and children.",
+            default: "lines"
+          },
+          includeArchived: {
+            type: "boolean",
+            description: "Also list notes labelled #archived and their subtrees (default: false)",
+            default: false
+          },
+          maxNotes: {
+            type: "number",
+            description: "Stop listing after this many notes and report the tree as truncated (default: 500)",
+            default: 500
+          }
+        }
+      }
+    },
     {
       name: "resolve_note_id",
-      description: "Resolves a note/folder name to its actual note ID for use with other tools. You MUST call this function when users provide note names instead of note IDs (e.g., 'wqd7006', 'My Project') UNLESS the user explicitly provides a note ID. Simple title-based search with user choice when multiple matches found.",
+      description: "Resolves a note/folder name to its actual note ID for use with other tools. You MUST call this function when users provide note names instead of note IDs (e.g., 'wqd7006', 'My Project') UNLESS the user explicitly provides a note ID. Matches titles and #alias labels with typo-tolerant scoring (case, diacritics, typos, abbreviations and word order don't matter much) and asks the user to choose when the runner-up scores about the same as the best match (within 0.05, or 0.1 when the best is only a typo match scoring below 0.8), so 'ProjectY' is not taken for 'ProjectX' while 'ProjectX Old' is nearly as similar. Also accepts paths like 'Work/ProjectX/Meeting Notes' (first segment anywhere) or '~/Journal/2024' (from root): each segment is matched against the children of the previous one (exact, then case-insensitive, prefix, substring, typo; a typo match with a nearly as similar sibling needs autoSelect), resolvedPath reports how each segment matched, and an ambiguous path reports the segment where it forked.",
       inputSchema: {
         type: "object",
         properties: {
           noteName: {
             type: "string",
-            description: "Name or title of the note to find (e.g., 'wqd7006', 'My Project Folder')",
+            description: "Name or title of the note to find (e.g., 'wqd7006', 'My Project Folder'), or a path of titles separated by '/' (e.g., 'Work/ProjectX/Meeting Notes', '~/Journal/2024'). Write a literal '/' inside a title as '\\/'.",
           },
           exactMatch: {
             type: "boolean",
-            description: "Whether to require exact title match. RECOMMENDED: Use false (default) for best user experience - fuzzy search finds partial matches and handles typos, while still prioritizing exact matches when found. Only set to true when user explicitly requests exact matching.",
+            description: "Whether to require exact title (or alias) match, ignoring case and diacritics. RECOMMENDED: Use false (default) for best user experience - fuzzy search finds partial matches and handles typos, while still prioritizing exact matches when found. Only set to true when user explicitly requests exact matching.",
             default: false
           },
           maxResults: {
             type: "number",
-            description: "Maximum number of results to return in topMatches array (default: 10)",
+            description: "Maximum number of results to return in topMatches array, each with its score (0-1) and matchedField ('title' or 'alias') (default: 10)",
             default: 10,
             minimum: 1,
             maximum: 10
           },
           autoSelect: {
             type: "boolean",
-            description: "When multiple matches found: true = auto-select best match (current behavior), false = stop and ask user to choose from alternatives (default: false for better user experience)",
+            description: "When multiple matches score about the same: true = auto-select best match (also walks typo matches with close siblings in path segments), false = stop and ask user to choose from alternatives (default: false for better user experience)",
+            default: false
+          },
+          includePaths: {
+            type: "boolean",
+            description: "Show the breadcrumb title path(s) of each match, like 'Work / ProjectX / Meeting Notes', to tell notes with the same title apart (default: false)",
             default: false
           }
         },
@@ -265,6 +571,40 @@ export function createReadTools(): any[] {
         type: "object",
         properties: searchProperties,
       },
+    },
+    {
+      name: "export_subtree",
+      description: "Export a note and its whole subtree as a ZIP file (Trilium's own export, HTML or Markdown files) and save it in the server's export directory (EXPORT_DIRECTORY), optionally extracted into a folder. Use for snapshots or backups of a part of the knowledge base, e.g. into a repository. Returns the path of the written ZIP. Use 'root' as noteId to export everything.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          noteId: {
+            type: "string",
+            description: "ID of the note whose subtree is exported ('root' for the whole document)"
+          },
+          format: {
+            type: "string",
+            enum: ["html", "markdown"],
+            description: "Format of the files inside the ZIP (default: 'html')",
+            default: "html"
+          },
+          filename: {
+            type: "string",
+            description: "Path of the ZIP relative to the export directory; '.zip' is appended when missing and '/' creates subfolders. Placeholders: {title}, {noteId}, {format}, {date} (YYYY-MM-DD, UTC), {time} (HH-MM-SS, UTC). Default: '{title}-{date}'. Use a fixed name like 'snapshots/{title}' with overwrite: true to keep one current copy."
+          },
+          extract: {
+            type: "boolean",
+            description: "Also extract the ZIP into a folder with the same name (without '.zip'), replacing that folder's previous contents when overwrite is true (default: false)",
+            default: false
+          },
+          overwrite: {
+            type: "boolean",
+            description: "Replace an existing ZIP or extraction folder instead of failing (default: false)",
+            default: false
+          }
+        },
+        required: ["noteId"]
+      }
     }
   ];
 }
@@ -286,7 +626,7 @@ function createSearchProperties() {
         properties: {
           property: {
             type: "string",
-            description: "Property name. For labels: tag name (e.g., 'book', 'author'). For relations: relation name with optional property path (e.g., 'author', 'author.title', 'template.title'). Built-in templates: use 'template.title' with values 'Calendar', 'Board', 'Text Snippet', 'Grid View', 'List View', 'Table', 'Geo Map'. For note properties: system property name (e.g., 'isArchived', 'type', 'mime', 'title', 'content', 'dateCreated') OR hierarchy properties (e.g., 'parents.title', 'children.title', 'ancestors.title', 'parents.parents.title')."
+            description: "Property name. For labels: tag name (e.g., 'book', 'author'). For relations: relation name with optional property path (e.g., 'author', 'author.title', 'template.title'). Built-in templates: use 'template.title' with values 'Calendar', 'Board', 'Text Snippet', 'Grid View', 'List View', 'Table', 'Geo Map'. For note properties: system property name (e.g., 'noteId', 'isArchived', 'type', 'mime', 'title', 'content', 'dateCreated') OR hierarchy properties (e.g., 'parents.title', 'children.title', 'ancestors.title', 'parents.parents.title')."
           },
           type: {
             type: "string",
@@ -317,6 +657,11 @@ function createSearchProperties() {
       type: "number",
       description: "Maximum number of results to return",
     },
+    includePaths: {
+      type: "boolean",
+      description: "Add 'paths' to each result: its breadcrumb title path(s) like 'Work / ProjectX / Meeting Notes', one per parent for cloned notes. Use when several results share a title. Costs extra lookups, so leave off otherwise (default: false)",
+      default: false
+    },
   };
 }
 
@@ -420,10 +765,291 @@ export function createWriteAttributeTools(): any[] {
   ];
 }
 
+/**
+ * Generate branch tools for reorganising the note tree (WRITE permission only)
+ */
+export function createBranchTools(): any[] {
+  return [
+    {
+      name: "move_note",
+      description: "Move an existing note to a different parent. The note keeps its ID, content, attributes and incoming links (unlike deleting and recreating it). Use resolve_note_id to find the target parent's ID first. If the note is cloned under several parents, specify fromParentNoteId to choose which placement to move.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          noteId: {
+            type: "string",
+            description: "ID of the note to move"
+          },
+          parentNoteId: {
+            type: "string",
+            description: "ID of the new parent note (use 'root' for the top level)"
+          },
+          fromParentNoteId: {
+            type: "string",
+            description: "ID of the current parent to move the note away from. Required only when the note has more than one parent."
+          },
+          prefix: {
+            type: "string",
+            description: "Optional branch prefix shown before the title in the new location. Defaults to the prefix of the moved placement."
+          },
+          notePosition: {
+            type: "number",
+            description: "Optional position among the new parent's children (Trilium uses steps of 10, e.g. 10 = first)."
+          }
+        },
+        required: ["noteId", "parentNoteId"]
+      }
+    },
+    {
+      name: "clone_note",
+      description: "Place an existing note under an additional parent (a Trilium clone). The same note then appears in several places of the tree; edits show up everywhere because it is one note, not a copy.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          noteId: {
+            type: "string",
+            description: "ID of the note to clone"
+          },
+          parentNoteId: {
+            type: "string",
+            description: "ID of the additional parent note"
+          },
+          prefix: {
+            type: "string",
+            description: "Optional branch prefix shown before the title in this location"
+          },
+          notePosition: {
+            type: "number",
+            description: "Optional position among the parent's children (Trilium uses steps of 10, e.g. 10 = first)."
+          }
+        },
+        required: ["noteId", "parentNoteId"]
+      }
+    },
+    {
+      name: "remove_from_parent",
+      description: "Remove a note from one of its parents (unlink a clone). The note itself stays in the tree under its other parents. Refuses to remove the note's last parent, because that would delete the note - use move_note or delete_note instead.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          noteId: {
+            type: "string",
+            description: "ID of the note to unlink"
+          },
+          parentNoteId: {
+            type: "string",
+            description: "ID of the parent to remove the note from"
+          }
+        },
+        required: ["noteId", "parentNoteId"]
+      }
+    },
+    {
+      name: "update_branch",
+      description: "Change how a note is placed under a parent: its position among siblings, its branch prefix (text shown before the title in the tree, only in this location), or whether it is expanded in the tree. To reorder several children at once use reorder_children.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          noteId: {
+            type: "string",
+            description: "ID of the note whose placement to update"
+          },
+          parentNoteId: {
+            type: "string",
+            description: "ID of the parent of the placement to update. Required only when the note has more than one parent."
+          },
+          prefix: {
+            type: "string",
+            description: "New branch prefix. Use an empty string to remove the prefix."
+          },
+          notePosition: {
+            type: "number",
+            description: "New position among siblings. Trilium uses steps of 10 (10 = first, 20 = second); use 0 to put the note before all others."
+          },
+          isExpanded: {
+            type: "boolean",
+            description: "Whether the note is expanded in the tree (shows its children)"
+          }
+        },
+        required: ["noteId"]
+      }
+    },
+    {
+      name: "reorder_children",
+      description: "Reorder the children of a note. Use exactly one of: orderedNoteIds (manual order, e.g. 'put this first' = [thatNoteId]; listed notes come first in the given order and the remaining children keep their relative order after them), sortBy (let Trilium keep children sorted automatically via the #sorted label, e.g. 'sort by title'), or clearSorted (remove #sorted to allow manual ordering again). A manual reorder removes #sorted, because it would override the manual order.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          parentNoteId: {
+            type: "string",
+            description: "ID of the note whose children to reorder"
+          },
+          orderedNoteIds: {
+            type: "array",
+            items: { type: "string" },
+            description: "Child note IDs in the desired order. Children not listed are placed after them in their current order."
+          },
+          sortBy: {
+            type: "string",
+            description: "Apply #sorted: 'title' for alphabetical, or a note property such as 'dateCreated' or 'dateModified', or the name of a label to sort by its value"
+          },
+          sortDirection: {
+            type: "string",
+            enum: ["asc", "desc"],
+            description: "Sort direction for sortBy (default: asc). 'desc' adds #sortDirection=desc."
+          },
+          clearSorted: {
+            type: "boolean",
+            description: "Remove #sorted (and #sortDirection) so the children can be ordered manually"
+          }
+        },
+        required: ["parentNoteId"]
+      }
+    }
+  ];
+}
+
+/**
+ * Generate trash tools for soft delete mode (WRITE permission only)
+ */
+export function createTrashTools(): any[] {
+  return [
+    {
+      name: "restore_note",
+      description: "Restore a note that was soft-deleted (moved to the trash by delete_note in soft delete mode). By default the note goes back under all of its original parents (#originalParent labels); pass parentNoteId to restore it elsewhere, e.g. when the original parent no longer exists.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          noteId: {
+            type: "string",
+            description: "ID of the deleted note"
+          },
+          parentNoteId: {
+            type: "string",
+            description: "Optional parent to restore the note under instead of its original parents"
+          }
+        },
+        required: ["noteId"]
+      }
+    },
+    {
+      name: "purge_trash",
+      description: "Permanently delete soft-deleted notes that have been in the trash for more than N days (by their #deletedAt label). ONLY use this when the user explicitly asks to empty or purge the trash. This cannot be undone - run with dryRun: true first to show the user what would be deleted.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          olderThanDays: {
+            type: "number",
+            description: "Only purge items deleted more than this many days ago (0 = everything in the trash)"
+          },
+          dryRun: {
+            type: "boolean",
+            description: "List what would be purged without deleting anything (default: false)",
+            default: false
+          }
+        },
+        required: ["olderThanDays"]
+      }
+    }
+  ];
+}
+
+/**
+ * Generate operation journal tools (WRITE permission)
+ */
+export function createJournalTools(): any[] {
+  return [
+    {
+      name: "list_operations",
+      description: "List the most recent write operations recorded in the operation journal (newest first), with their IDs, whether they were already undone, and whether they can be undone. Use this to find the operationId for undo_operation.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          limit: {
+            type: "number",
+            description: "Maximum number of operations to return (default: 20)",
+            default: 20
+          }
+        }
+      }
+    },
+    {
+      name: "undo_last_operation",
+      description: "Undo the most recent write operation that has not been undone yet (note creation, content/title update, search and replace, soft delete, attribute changes) by replaying its inverse from the operation journal. Refuses when the note was changed again afterwards, unless force is true. Hard deletes cannot be undone.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          force: {
+            type: "boolean",
+            description: "Undo even if the note was modified after the operation (discards those later changes)",
+            default: false
+          }
+        }
+      }
+    },
+    {
+      name: "undo_operation",
+      description: "Undo a specific write operation from the operation journal by its ID (see list_operations). Refuses when the note was changed again afterwards, unless force is true.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          operationId: {
+            type: "string",
+            description: "ID of the operation to undo"
+          },
+          force: {
+            type: "boolean",
+            description: "Undo even if the note was modified after the operation (discards those later changes)",
+            default: false
+          }
+        },
+        required: ["operationId"]
+      }
+    }
+  ];
+}
+
+/**
+ * Generate instance tools (available with any permission)
+ */
+export function createInstanceTools(): any[] {
+  return [
+    {
+      name: "list_instances",
+      description: "List the configured TriliumNext instances (e.g. a personal vault and a shared team vault) with their URLs and permissions. Pass an instance name as the 'instance' argument of any other tool to target it; tools use the default instance otherwise.",
+      inputSchema: {
+        type: "object",
+        properties: {}
+      }
+    }
+  ];
+}
+
+/**
+ * Add the optional 'instance' argument to a tool's input schema
+ */
+function withInstanceProperty(tool: any, instanceNames: string[]): any {
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        instance: {
+          type: "string",
+          enum: instanceNames,
+          description: "Name of the TriliumNext instance to use (see list_instances). Defaults to the default instance. Note IDs are only valid within their own instance."
+        }
+      }
+    }
+  };
+}
+
 /**
  * Generate all tools based on permissions
+ * When instanceNames is given, every tool gets an optional 'instance' argument
  */
-export function generateTools(permissionChecker: PermissionChecker): any[] {
+export function generateTools(permissionChecker: PermissionChecker, instanceNames: string[] = []): any[] {
   const tools: any[] = [];
 
   // Add write tools if WRITE permission
@@ -446,5 +1072,27 @@ export function generateTools(permissionChecker: PermissionChecker): any[] {
     tools.push(...createWriteAttributeTools());
   }
 
-  return tools;
-}
\ No newline at end of file
+  // Add branch tools if WRITE permission
+  if (permissionChecker.hasPermission("WRITE")) {
+    tools.push(...createBranchTools());
+  }
+
+  // Add trash tools if WRITE permission
+  if (permissionChecker.hasPermission("WRITE")) {
+    tools.push(...createTrashTools());
+  }
+
+  // Add journal tools if WRITE permission and the journal is enabled (they would only fail without it)
+  if (permissionChecker.hasPermission("WRITE") && isJournalEnabled()) {
+    tools.push(...createJournalTools());
+  }
+
+  if (instanceNames.length === 0) {
+    return tools;
+  }
+
+  return [
+    ...tools.map(tool => withInstanceProperty(tool, instanceNames)),
+    ...createInstanceTools()
+  ];
+}
@@ -0,0 +1,92 @@
+/**
+ * Trash Handler Module
+ * Centralized request handling for soft delete restore and purge operations
+ */
+
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { PermissionChecker } from "../utils/permissionUtils.js";
+import { TrashOptions, restoreNote, purgeTrash } from "./trashManager.js";
+
+/**
+ * Reject trash operations when soft delete is not enabled
+ */
+function requireSoftDelete(trashOptions: TrashOptions): void {
+  if (trashOptions.mode !== 'soft') {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      "Soft delete is not enabled for this instance (DELETE_MODE=hard), so there is no trash. Deleted notes cannot be restored."
+    );
+  }
+}
+
+/**
+ * Handle restore_note tool requests
+ */
+export async function handleRestoreNoteRequest(
+  args: any,
+  axiosInstance: any,
+  permissionChecker: PermissionChecker,
+  trashOptions: TrashOptions
+): Promise<{ content: Array<{ type: string; text: string }> }> {
+  if (!permissionChecker.hasPermission("WRITE")) {
+    throw new McpError(ErrorCode.InvalidRequest, "Permission denied: Not authorized to restore notes.");
+  }
+
+  requireSoftDelete(trashOptions);
+
+  if (!args.noteId) {
+    throw new McpError(ErrorCode.InvalidParams, "Missing required parameter 'noteId'.");
+  }
+
+  try {
+    const result = await restoreNote(args.noteId, axiosInstance, trashOptions, args.parentNoteId);
+
+    return {
+      content: [{
+        type: "text",
+        text: result.message
+      }]
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Handle purge_trash tool requests
+ */
+export async function handlePurgeTrashRequest(
+  args: any,
+  axiosInstance: any,
+  permissionChecker: PermissionChecker,
+  trashOptions: TrashOptions
+): Promise<{ content: Array<{ type: string; text: string }> }> {
+  if (!permissionChecker.hasPermission("WRITE")) {
+    throw new McpError(ErrorCode.InvalidRequest, "Permission denied: Not authorized to purge the trash.");
+  }
+
+  requireSoftDelete(trashOptions);
+
+  if (typeof args.olderThanDays !== 'number' || args.olderThanDays < 0) {
+    throw new McpError(ErrorCode.InvalidParams, "Parameter 'olderThanDays' must be a number >= 0.");
+  }
+
+  try {
+    const result = await purgeTrash(axiosInstance, trashOptions, args.olderThanDays, args.dryRun === true);
+
+    return {
+      content: [{
+        type: "text",
+        text: `${result.message}\n${JSON.stringify(result.purged, null, 2)}`
+      }]
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+}
@@ -0,0 +1,325 @@
+/**
+ * Trash Management Module
+ * Soft delete: moves notes under a trash note instead of deleting them, with restore and purge
+ */
+
+import { buildSearchQuery } from './searchQueryBuilder.js';
+import { getNoteBranches, getChildBranches, Branch } from './branchManager.js';
+import { manage_attributes } from './attributeManager.js';
+import { logVerbose, logVerboseApi } from '../utils/verboseUtils.js';
+
+export type DeleteMode = 'hard' | 'soft';
+
+export interface TrashOptions {
+  mode: DeleteMode;
+  // Fixed trash note; when omitted the note labelled #mcpTrash is used (and created if missing)
+  trashNoteId?: string;
+}
+
+export interface SoftDeleteResponse {
+  noteId: string;
+  trashNoteId: string;
+  originalParentNoteIds: string[];
+  message: string;
+}
+
+export interface RestoreResponse {
+  noteId: string;
+  parentNoteIds: string[];
+  message: string;
+}
+
+export interface PurgeResponse {
+  trashNoteId: string;
+  olderThanDays: number;
+  dryRun: boolean;
+  purged: Array<{ noteId: string; title: string; deletedAt: string }>;
+  kept: number;
+  message: string;
+}
+
+export const TRASH_LABEL = "mcpTrash";
+export const DELETED_AT_LABEL = "deletedAt";
+export const ORIGINAL_PARENT_LABEL = "originalParent";
+
+const TRASH_TITLE = "MCP Trash";
+
+// Resolved trash note IDs, per ETAPI client
+const trashNoteIds = new WeakMap<object, string>();
+
+/**
+ * Find or create the trash note
+ */
+export async function getTrashNoteId(axiosInstance: any, options: TrashOptions): Promise<string> {
+  if (options.trashNoteId) {
+    return options.trashNoteId;
+  }
+
+  const cached = trashNoteIds.get(axiosInstance);
+  if (cached) {
+    return cached;
+  }
+
+  const query = buildSearchQuery({
+    searchCriteria: [{ property: TRASH_LABEL, type: "label", op: "exists" }]
+  });
+
+  const params = new URLSearchParams();
+  params.append("search", query);
+  params.append("fastSearch", "false");
+  params.append("includeArchivedNotes", "true");
+
+  const response = await axiosInstance.get(`/notes?${params.toString()}`);
+  const existing = (response.data.results || [])[0];
+
+  let trashNoteId: string;
+  if (existing) {
+    trashNoteId = existing.noteId;
+  } else {
+    const noteData = { parentNoteId: "root", title: TRASH_TITLE, type: "book", content: "" };
+    logVerboseApi("POST", "/create-note", noteData);
+    const createResponse = await axiosInstance.post("/create-note", noteData);
+    trashNoteId = createResponse.data.note.noteId;
+
+    await applyLabels(trashNoteId, [
+      { name: TRASH_LABEL, value: "" },
+      { name: "iconClass", value: "bx bx-trash" }
+    ], axiosInstance);
+    logVerbose("getTrashNoteId", `Created trash note ${trashNoteId}`);
+  }
+
+  trashNoteIds.set(axiosInstance, trashNoteId);
+  return trashNoteId;
+}
+
+/**
+ * Create labels on a note, failing loudly if any of them could not be created
+ * Not journaled: the labels are part of the soft delete, which is undone by restoring the note
+ */
+async function applyLabels(
+  noteId: string,
+  labels: Array<{ name: string; value: string }>,
+  axiosInstance: any
+): Promise<void> {
+  const result = await manage_attributes({
+    noteId,
+    operation: "batch_create",
+    attributes: labels.map(label => ({ type: "label" as const, name: label.name, value: label.value }))
+  }, axiosInstance, { journal: false });
+
+  if (!result.success || result.errors?.length) {
+    throw new Error(`${result.message}${result.errors ? `: ${result.errors.join('; ')}` : ''}`);
+  }
+}
+
+/**
+ * Remove the soft-delete labels from a note
+ */
+async function removeTrashLabels(noteId: string, axiosInstance: any): Promise<void> {
+  const noteResponse = await axiosInstance.get(`/notes/${noteId}`);
+  const labels = (noteResponse.data.attributes || []).filter((attr: any) =>
+    attr.type === "label" &&
+    attr.noteId === noteId &&
+    (attr.name === DELETED_AT_LABEL || attr.name === ORIGINAL_PARENT_LABEL)
+  );
+
+  for (const label of labels) {
+    logVerboseApi("DELETE", `/attributes/${label.attributeId}`);
+    await axiosInstance.delete(`/attributes/${label.attributeId}`);
+  }
+}
+
+/**
+ * Move a note (with its subtree) under the trash note
+ * Stamps #deletedAt and one #originalParent per former parent so the note can be restored
+ */
+export async function softDeleteNote(
+  noteId: string,
+  axiosInstance: any,
+  options: TrashOptions
+): Promise<SoftDeleteResponse> {
+  if (noteId === "root") {
+    throw new Error("The root note cannot be deleted.");
+  }
+
+  const trashNoteId = await getTrashNoteId(axiosInstance, options);
+  if (noteId === trashNoteId) {
+    throw new Error("The trash note itself cannot be deleted. Use purge_trash to empty it.");
+  }
+
+  const branches = await getNoteBranches(noteId, axiosInstance);
+  if (branches.some(branch => branch.parentNoteId === trashNoteId)) {
+    throw new Error(`Note ${noteId} is already in the trash. Use restore_note to restore it or purge_trash to delete it permanently.`);
+  }
+
+  const originalParentNoteIds = branches.map(branch => branch.parentNoteId);
+
+  await applyLabels(noteId, [
+    { name: DELETED_AT_LABEL, value: new Date().toISOString() },
+    ...originalParentNoteIds.map(parentNoteId => ({ name: ORIGINAL_PARENT_LABEL, value: parentNoteId }))
+  ], axiosInstance);
+
+  // Place the note in the trash before removing its other branches, so it never loses its last branch
+  const branchData = { noteId, parentNoteId: trashNoteId };
+  logVerboseApi("POST", "/branches", branchData);
+  await axiosInstance.post("/branches", branchData);
+
+  for (const branch of branches) {
+    logVerboseApi("DELETE", `/branches/${branch.branchId}`);
+    await axiosInstance.delete(`/branches/${branch.branchId}`);
+  }
+
+  return {
+    noteId,
+    trashNoteId,
+    originalParentNoteIds,
+    message: `Moved note ${noteId} to the trash (${trashNoteId}). It can be restored with restore_note until the trash is purged.`
+  };
+}
+
+/**
+ * Restore a soft-deleted note to its original parents (or to an explicit parent)
+ */
+export async function restoreNote(
+  noteId: string,
+  axiosInstance: any,
+  options: TrashOptions,
+  parentNoteId?: string
+): Promise<RestoreResponse> {
+  const trashNoteId = await getTrashNoteId(axiosInstance, options);
+  const branches = await getNoteBranches(noteId, axiosInstance);
+  const trashBranch = branches.find(branch => branch.parentNoteId === trashNoteId);
+
+  if (!trashBranch) {
+    throw new Error(`Note ${noteId} is not in the trash.`);
+  }
+
+  const noteResponse = await axiosInstance.get(`/notes/${noteId}`);
+  const originalParents: string[] = (noteResponse.data.attributes || [])
+    .filter((attr: any) => attr.type === "label" && attr.name === ORIGINAL_PARENT_LABEL && attr.noteId === noteId)
+    .map((attr: any) => attr.value);
+
+  let targets: string[];
+  const skipped: string[] = [];
+
+  if (parentNoteId) {
+    targets = [parentNoteId];
+  } else {
+    targets = [];
+    for (const originalParent of originalParents) {
+      if (await isRestorableParent(originalParent, trashNoteId, axiosInstance)) {
+        targets.push(originalParent);
+      } else {
+        skipped.push(originalParent);
+      }
+    }
+
+    if (targets.length === 0) {
+      throw new Error(`None of the original parents of note ${noteId} (${originalParents.join(', ') || 'unknown'}) exist outside the trash any more. Pass 'parentNoteId' to restore it elsewhere.`);
+    }
+  }
+
+  // Re-create the original placements before leaving the trash
+  const existingParents = new Set(branches.map(branch => branch.parentNoteId));
+  for (const target of targets) {
+    if (existingParents.has(target)) {
+      continue;
+    }
+    const branchData = { noteId, parentNoteId: target };
+    logVerboseApi("POST", "/branches", branchData);
+    await axiosInstance.post("/branches", branchData);
+  }
+
+  logVerboseApi("DELETE", `/branches/${trashBranch.branchId}`);
+  await axiosInstance.delete(`/branches/${trashBranch.branchId}`);
+  await removeTrashLabels(noteId, axiosInstance);
+
+  const skippedText = skipped.length > 0
+    ? ` Skipped original parents that no longer exist or are themselves in the trash: ${skipped.join(', ')}.`
+    : "";
+
+  return {
+    noteId,
+    parentNoteIds: targets,
+    message: `Restored note ${noteId} to ${targets.join(', ')}.${skippedText}`
+  };
+}
+
+/**
+ * A parent can take a restored note if it still exists and is not in the trash itself
+ */
+async function isRestorableParent(parentNoteId: string, trashNoteId: string, axiosInstance: any): Promise<boolean> {
+  try {
+    await axiosInstance.get(`/notes/${parentNoteId}`);
+  } catch (error) {
+    if ((error as any).response?.status === 404) {
+      return false;
+    }
+    throw error;
+  }
+
+  const query = buildSearchQuery({
+    searchCriteria: [
+      { property: "noteId", type: "noteProperty", op: "=", value: parentNoteId, logic: "AND" },
+      { property: "ancestors.noteId", type: "noteProperty", op: "=", value: trashNoteId }
+    ]
+  });
+
+  const params = new URLSearchParams();
+  params.append("search", query);
+  params.append("fastSearch", "false");
+  params.append("includeArchivedNotes", "true");
+
+  const response = await axiosInstance.get(`/notes?${params.toString()}`);
+  return (response.data.results || []).length === 0;
+}
+
+/**
+ * Permanently delete trash items that were deleted more than olderThanDays days ago
+ */
+export async function purgeTrash(
+  axiosInstance: any,
+  options: TrashOptions,
+  olderThanDays: number,
+  dryRun: boolean = false
+): Promise<PurgeResponse> {
+  const trashNoteId = await getTrashNoteId(axiosInstance, options);
+  const cutoff = Date.now() - olderThanDays * 24 * 60 * 60 * 1000;
+  const children: Branch[] = await getChildBranches(trashNoteId, axiosInstance);
+
+  const purged: PurgeResponse["purged"] = [];
+  let kept = 0;
+
+  for (const branch of children) {
+    const noteResponse = await axiosInstance.get(`/notes/${branch.noteId}`);
+    const note = noteResponse.data;
+    const deletedAt = (note.attributes || []).find(
+      (attr: any) => attr.type === "label" && attr.name === DELETED_AT_LABEL && attr.noteId === note.noteId
+    )?.value;
+
+    // Items without a parseable #deletedAt were not put there by soft delete, leave them alone
+    const deletedAtTime = deletedAt ? Date.parse(deletedAt) : NaN;
+    if (isNaN(deletedAtTime) || deletedAtTime > cutoff) {
+      kept++;
+      continue;
+    }
+
+    if (!dryRun) {
+      // Deleting the last branch deletes the note; a note cloned elsewhere since then survives
+      logVerboseApi("DELETE", `/branches/${branch.branchId}`);
+      await axiosInstance.delete(`/branches/${branch.branchId}`);
+    }
+    purged.push({ noteId: note.noteId, title: note.title, deletedAt });
+  }
+
+  const verb = dryRun ? "Would permanently delete" : "Permanently deleted";
+
+  return {
+    trashNoteId,
+    olderThanDays,
+    dryRun,
+    purged,
+    kept,
+    message: `${verb} ${purged.length} trash item(s) deleted more than ${olderThanDays} day(s) ago; ${kept} item(s) kept.`
+  };
+}
@@ -0,0 +1,194 @@
+/**
+ * Undo Module
+ * Replays the inverse of journaled write operations
+ */
+
+import { JournalEntryStatus, UndoStep, isJournalEnabled, readJournal, recordUndo } from './journalManager.js';
+import { TrashOptions, softDeleteNote, restoreNote } from './trashManager.js';
+import { logVerbose, logVerboseApi } from '../utils/verboseUtils.js';
+
+export interface UndoResponse {
+  operationId: string;
+  operation: string;
+  noteId: string;
+  message: string;
+}
+
+/**
+ * List the most recent journaled operations of an instance, newest first
+ */
+export function listOperations(instanceName: string, limit: number = 20): JournalEntryStatus[] {
+  requireJournal();
+  return readJournal(instanceName).reverse().slice(0, limit);
+}
+
+function requireJournal(): void {
+  if (!isJournalEnabled()) {
+    throw new Error("The operation journal is disabled. Set OPERATION_JOURNAL_PATH to record write operations so they can be undone.");
+  }
+}
+
+/**
+ * Pick the operation to undo: the given one, or the most recent one not undone yet
+ */
+function findOperation(instanceName: string, operationId?: string): JournalEntryStatus {
+  const entries = readJournal(instanceName);
+
+  if (operationId) {
+    const entry = entries.find(e => e.id === operationId);
+    if (!entry) {
+      throw new Error(`Operation ${operationId} not found in the journal of instance '${instanceName}'.`);
+    }
+    if (entry.undone) {
+      throw new Error(`Operation ${operationId} has already been undone.`);
+    }
+    return entry;
+  }
+
+  const last = [...entries].reverse().find(e => !e.undone);
+  if (!last) {
+    throw new Error(`Nothing to undo: the journal of instance '${instanceName}' has no operations that were not undone yet.`);
+  }
+  return last;
+}
+
+/**
+ * Refuse to undo over changes made after the operation, unless forced
+ */
+async function checkForLaterChanges(steps: UndoStep[], axiosInstance: any): Promise<void> {
+  for (const step of steps) {
+    if (step.action === 'setContent' && step.expectedBlobId) {
+      const response = await axiosInstance.get(`/notes/${step.noteId}`);
+      if (response.data.blobId !== step.expectedBlobId) {
+        throw new Error(`Note ${step.noteId} has been modified since this operation (blobId ${response.data.blobId}, expected ${step.expectedBlobId}). Undoing would discard those changes; pass force: true to undo anyway.`);
+      }
+    }
+
+    if (step.action === 'deleteNote') {
+      const response = await axiosInstance.get(`/notes/${step.noteId}`);
+      if ((response.data.childBranchIds || []).length > (step.childCount || 0)) {
+        throw new Error(`Note ${step.noteId} has gained child notes since it was created, and undoing its creation would delete them too. Pass force: true to undo anyway.`);
+      }
+    }
+  }
+}
+
+/**
+ * Apply one undo step
+ */
+async function applyStep(step: UndoStep, axiosInstance: any, trashOptions: TrashOptions): Promise<void> {
+  switch (step.action) {
+    case 'setContent':
+      try {
+        await axiosInstance.post(`/notes/${step.noteId}/revision`);
+      } catch (error) {
+        console.error(`Warning: Failed to create revision for note ${step.noteId} before undo:`, error);
+      }
+      logVerboseApi("PUT", `/notes/${step.noteId}/content`);
+      await axiosInstance.put(`/notes/${step.noteId}/content`, step.content, {
+        headers: { "Content-Type": "text/plain" }
+      });
+      return;
+
+    case 'setTitle':
+      logVerboseApi("PATCH", `/notes/${step.noteId}`, { title: step.title });
+      await axiosInstance.patch(`/notes/${step.noteId}`, { title: step.title }, {
+        headers: { "Content-Type": "application/json" }
+      });
+      return;
+
+    case 'deleteNote':
+      // Undoing a creation follows the instance's delete mode
+      if (trashOptions.mode === 'soft') {
+        await softDeleteNote(step.noteId, axiosInstance, trashOptions);
+      } else {
+        logVerboseApi("DELETE", `/notes/${step.noteId}`);
+        await axiosInstance.delete(`/notes/${step.noteId}`);
+      }
+      return;
+
+    case 'restoreFromTrash':
+      await restoreNote(step.noteId, axiosInstance, trashOptions);
+      return;
+
+    case 'deleteAttribute':
+      try {
+        logVerboseApi("DELETE", `/attributes/${step.attributeId}`);
+        await axiosInstance.delete(`/attributes/${step.attributeId}`);
+      } catch (error) {
+        // Already gone is the state we want
+        if ((error as any).response?.status !== 404) {
+          throw error;
+        }
+      }
+      return;
+
+    case 'updateAttribute': {
+      const updateData: any = {};
+      if (step.value !== undefined) updateData.value = step.value;
+      if (step.position !== undefined) updateData.position = step.position;
+      logVerboseApi("PATCH", `/attributes/${step.attributeId}`, updateData);
+      await axiosInstance.patch(`/attributes/${step.attributeId}`, updateData);
+      return;
+    }
+
+    case 'createAttribute': {
+      const attributeData = {
+        noteId: step.noteId,
+        type: step.type,
+        name: step.name,
+        value: step.value,
+        position: step.position,
+        isInheritable: step.isInheritable || false
+      };
+      logVerboseApi("POST", "/attributes", attributeData);
+      await axiosInstance.post("/attributes", attributeData);
+      return;
+    }
+  }
+}
+
+/**
+ * Undo a journaled operation (the most recent one when no ID is given)
+ */
+export async function undoOperation(
+  axiosInstance: any,
+  instanceName: string,
+  trashOptions: TrashOptions,
+  operationId?: string,
+  force: boolean = false
+): Promise<UndoResponse> {
+  requireJournal();
+
+  const entry = findOperation(instanceName, operationId);
+
+  if (entry.undo.length === 0) {
+    throw new Error(`Operation ${entry.id} (${entry.operation} on ${entry.noteId}) cannot be undone: ${entry.irreversible || 'no inverse was recorded'}.`);
+  }
+
+  if (!force) {
+    await checkForLaterChanges(entry.undo, axiosInstance);
+  }
+
+  let applied = 0;
+  try {
+    for (const step of entry.undo) {
+      await applyStep(step, axiosInstance, trashOptions);
+      applied++;
+    }
+  } catch (error) {
+    throw new Error(`Undo of operation ${entry.id} failed after ${applied} of ${entry.undo.length} step(s): ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  recordUndo(entry.id);
+  logVerbose("undoOperation", `Undid ${entry.id}`, entry.undo);
+
+  const partial = entry.irreversible ? ` Note: ${entry.irreversible}.` : "";
+
+  return {
+    operationId: entry.id,
+    operation: entry.operation,
+    noteId: entry.noteId,
+    message: `Undid operation ${entry.id} (${entry.description}).${partial}`
+  };
+}
@@ -0,0 +1,218 @@
+/**
+ * ZIP Import Module
+ * Imports a Trilium export ZIP (as written by export_subtree or the Trilium UI) under a parent note
+ */
+
+import * as fs from 'fs';
+import yauzl from 'yauzl';
+import { parseFileDataSource } from '../utils/fileUtils.js';
+import { logVerbose, logVerboseApi } from '../utils/verboseUtils.js';
+import { FileManager } from './fileManager.js';
+import { buildSearchQuery } from './searchQueryBuilder.js';
+import { recordOperation } from './journalManager.js';
+
+// Every Trilium export carries its note tree in this file at the root of the archive
+const TRILIUM_META_FILE = '!!!meta.json';
+
+// The only types zipSource paths and data URIs may have (instead of the file upload types)
+const ZIP_MIME_TYPES = {
+  'application/zip': ['zip'],
+  'application/x-zip-compressed': ['zip']
+};
+const ZIP_SIGNATURE = Buffer.from('PK\x03\x04', 'latin1');
+
+export interface ImportZipOperation {
+  // Local path, base64 string or data URI of the ZIP
+  zipSource: string;
+  parentNoteId: string;
+}
+
+export interface ImportCensus {
+  total: number;
+  byType: Record<string, number>;
+}
+
+export interface ImportZipResponse {
+  rootNoteId: string;
+  title: string;
+  // Notes described by the archive's meta file (clones not counted)
+  expected: ImportCensus;
+  // Notes found below the imported root afterwards (the root included)
+  imported: ImportCensus;
+  message: string;
+}
+
+interface MetaNote {
+  isClone?: boolean;
+  type?: string;
+  title?: string;
+  children?: MetaNote[];
+}
+
+/**
+ * Read a ZIP given as local path, base64 string or data URI, within the file manager's upload size limit
+ * ZIPs are accepted here only, not by the general file upload rules in fileUtils.ts.
+ */
+function readZipSource(zipSource: string, fileManager: FileManager): Buffer {
+  const fileData = parseFileDataSource(zipSource, ZIP_MIME_TYPES);
+  if (fileData.size > fileManager.maxFileSize) {
+    throw new Error(`File too large: ${(fileData.size / 1024 / 1024).toFixed(2)}MB. Maximum allowed: ${(fileManager.maxFileSize / 1024 / 1024).toFixed(2)}MB`);
+  }
+
+  const zip = fileData.type === 'path'
+    ? fs.readFileSync(fileData.data as string)
+    : fileData.data instanceof Buffer ? fileData.data : Buffer.from(fileData.data as string, 'base64');
+  // Raw base64 carries no MIME type; every ZIP starts with a local file header
+  if (!zip.subarray(0, 4).equals(ZIP_SIGNATURE)) {
+    throw new Error("zipSource is not a ZIP archive.");
+  }
+  return zip;
+}
+
+/**
+ * Read the meta file of a Trilium export, or fail when the archive is not one
+ */
+async function readExportMeta(zip: Buffer): Promise<{ files: MetaNote[] }> {
+  const zipFile = await new Promise<yauzl.ZipFile>((resolve, reject) => {
+    yauzl.fromBuffer(zip, { lazyEntries: true }, (error, file) => error
+      ? reject(new Error(`Not a valid ZIP archive: ${error.message}`))
+      : resolve(file!));
+  });
+
+  const metaJson = await new Promise<string | undefined>((resolve, reject) => {
+    zipFile.on('error', reject);
+    zipFile.on('end', () => resolve(undefined));
+    zipFile.on('entry', (entry: yauzl.Entry) => {
+      if (entry.fileName !== TRILIUM_META_FILE) {
+        zipFile.readEntry();
+        return;
+      }
+      zipFile.openReadStream(entry, (error, stream) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        const chunks: Buffer[] = [];
+        stream!.on('data', chunk => chunks.push(chunk));
+        stream!.on('error', reject);
+        stream!.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      });
+    });
+    zipFile.readEntry();
+  }).finally(() => zipFile.close());
+
+  if (metaJson === undefined) {
+    throw new Error(`The archive is not a Trilium export: ${TRILIUM_META_FILE} is missing. Only ZIPs exported from Trilium (export_subtree or the Trilium UI) can be imported.`);
+  }
+
+  let meta: any;
+  try {
+    meta = JSON.parse(metaJson);
+  } catch (error) {
+    throw new Error(`The archive is not a Trilium export: ${TRILIUM_META_FILE} is not valid JSON.`);
+  }
+  if (!Array.isArray(meta?.files) || meta.files.length === 0) {
+    throw new Error(`The archive is not a Trilium export: ${TRILIUM_META_FILE} lists no notes.`);
+  }
+
+  return meta;
+}
+
+function countMetaNotes(notes: MetaNote[], census: ImportCensus = { total: 0, byType: {} }): ImportCensus {
+  for (const note of notes) {
+    if (!note.isClone) {
+      census.total++;
+      const type = note.type || 'unknown';
+      census.byType[type] = (census.byType[type] || 0) + 1;
+    }
+    countMetaNotes(note.children || [], census);
+  }
+  return census;
+}
+
+/**
+ * Count the notes below the imported root by type, and the root's own children
+ */
+async function countImportedNotes(
+  rootNoteId: string,
+  rootType: string,
+  axiosInstance: any
+): Promise<{ census: ImportCensus; childCount: number }> {
+  const params = new URLSearchParams();
+  params.append("search", buildSearchQuery({
+    searchCriteria: [{ property: "ancestors.noteId", type: "noteProperty", op: "=", value: rootNoteId }]
+  }));
+  params.append("fastSearch", "false");
+  params.append("includeArchivedNotes", "true");
+
+  const response = await axiosInstance.get(`/notes?${params.toString()}`);
+  const descendants: any[] = response.data.results || [];
+
+  const census: ImportCensus = { total: 1, byType: { [rootType]: 1 } };
+  for (const note of descendants) {
+    census.total++;
+    census.byType[note.type] = (census.byType[note.type] || 0) + 1;
+  }
+
+  const childCount = descendants.filter(note => (note.parentNoteIds || []).includes(rootNoteId)).length;
+  return { census, childCount };
+}
+
+function formatCensus(census: ImportCensus): string {
+  return Object.entries(census.byType).map(([type, count]) => `${count} ${type}`).join(', ');
+}
+
+/**
+ * Import a Trilium export ZIP under parentNoteId through ETAPI's importZip
+ * The archive is checked before upload: it must be within the file upload size limit and carry
+ * Trilium's meta file, so arbitrary ZIPs are not turned into a pile of file notes.
+ */
+export async function handleImportZip(
+  args: ImportZipOperation,
+  axiosInstance: any,
+  fileManager: FileManager = new FileManager(axiosInstance)
+): Promise<ImportZipResponse> {
+  const { zipSource, parentNoteId } = args;
+
+  if (!zipSource || !parentNoteId) {
+    throw new Error("zipSource and parentNoteId are required for ZIP import.");
+  }
+
+  const zip = readZipSource(zipSource, fileManager);
+
+  const meta = await readExportMeta(zip);
+  const expected = countMetaNotes(meta.files);
+  logVerbose("handleImportZip", `Archive describes ${expected.total} notes`, expected);
+
+  logVerboseApi("POST", `/notes/${parentNoteId}/import`, { bytes: zip.length });
+  const response = await axiosInstance.post(`/notes/${parentNoteId}/import`, zip, {
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      'Content-Transfer-Encoding': 'binary'
+    },
+    maxContentLength: Infinity,
+    maxBodyLength: Infinity
+  });
+  const rootNote = response.data.note;
+
+  const { census: imported, childCount } = await countImportedNotes(rootNote.noteId, rootNote.type, axiosInstance);
+
+  recordOperation(axiosInstance, {
+    operation: "import_zip",
+    noteId: rootNote.noteId,
+    description: `Imported "${rootNote.title}" (${imported.total} note(s)) from a ZIP under ${parentNoteId}`,
+    undo: [{ action: 'deleteNote', noteId: rootNote.noteId, childCount }]
+  });
+
+  const mismatch = imported.total !== expected.total
+    ? ` The archive describes ${expected.total} note(s); check the imported tree.`
+    : "";
+
+  return {
+    rootNoteId: rootNote.noteId,
+    title: rootNote.title,
+    expected,
+    imported,
+    message: `Imported "${rootNote.title}" as ${rootNote.noteId} under ${parentNoteId}: ${imported.total} note(s) (${formatCensus(imported)}).${mismatch}`
+  };
+}
@@ -4,7 +4,8 @@
  */
 
 import { marked } from 'marked';
-import { isLikelyHtml } from './contentRules.js';
+import TurndownService from 'turndown';
+import { isLikelyHtml, isLikelyMarkdown } from './contentRules.js';
 
 /**
  * Process string content into format suitable for ETAPI
@@ -37,7 +38,7 @@ async function processTextContent(content: string, noteType?: string): Promise<P
   // Only for text notes: detect Markdown and convert to HTML
   if (noteType === 'text' && isLikelyMarkdown(trimmedContent)) {
     const html = await marked.parse(trimmedContent);
-    return { content: html };
+    return { content: restoreNoteLinks(html) };
   }
 
   // For text notes: auto-wrap plain text in <p> tags if it's not already HTML
@@ -50,45 +51,139 @@ async function processTextContent(content: string, noteType?: string): Promise<P
 }
 
 /**
- * Check if content is likely HTML (imported from contentRules.ts)
+ * Turn [title](trilium:noteId) links, as produced by convertHtmlToMarkdown, back into Trilium note links
  */
+function restoreNoteLinks(html: string): string {
+  return html.replace(/<a href="trilium:([A-Za-z0-9_]+)">/g, '<a class="reference-link" href="#root/$1">');
+}
+
+/**
+ * Convert a whole Markdown document to HTML
+ * Unlike processContent, no detection is involved: the input is known to be Markdown (e.g. a .md file)
+ */
+export async function convertMarkdownToHtml(markdown: string): Promise<string> {
+  return await marked.parse(markdown);
+}
+
+/**
+ * Language name for a CKEditor code block class (e.g. 'language-text-x-python' -> 'python')
+ * Trilium derives the class from the code MIME type, so the MIME prefixes and suffixes are dropped
+ */
+function codeBlockLanguage(className: string): string {
+  const language = (className.match(/(?:^|\s)language-(\S+)/)?.[1] || '')
+    .replace(/^(text|application)-(x-)?/, '')
+    .replace(/-env-\w+$/, '');
+  return language === 'plain' ? '' : language;
+}
+
+/**
+ * Markdown text of a table cell: on one line, with pipes escaped
+ */
+function tableCell(content: string, node: HTMLElement): string {
+  const isFirst = !node.previousElementSibling;
+  return `${isFirst ? '|' : ''} ${content.replace(/\n+/g, ' ').replace(/\|/g, '\\|').trim()} |`;
+}
+
+/**
+ * Turndown configured for CKEditor (Trilium text note) HTML, producing GitHub-flavoured Markdown
+ */
+function createTurndownService(): TurndownService {
+  const service = new TurndownService({
+    headingStyle: 'atx',
+    codeBlockStyle: 'fenced',
+    bulletListMarker: '-',
+    emDelimiter: '*'
+  });
+
+  // Single space after list markers, as GFM task lists expect ("- [ ] item")
+  service.addRule('listItem', {
+    filter: 'li',
+    replacement: (content, node, options) => {
+      const parent = node.parentNode as HTMLElement;
+      let prefix = `${options.bulletListMarker} `;
+      if (parent.nodeName === 'OL') {
+        const start = Number(parent.getAttribute('start') || 1);
+        prefix = `${start + Array.prototype.indexOf.call(parent.children, node)}. `;
+      }
+      const body = content.replace(/^\n+/, '').replace(/\n+$/, '\n').replace(/\n/gm, `\n${' '.repeat(prefix.length)}`);
+      return prefix + body + (node.nextSibling && !/\n$/.test(body) ? '\n' : '');
+    }
+  });
+
+  service.addRule('taskListCheckbox', {
+    filter: node => node.nodeName === 'INPUT' && node.getAttribute('type') === 'checkbox',
+    replacement: (_content, node) => (node as HTMLElement).hasAttribute('checked') ? '[x] ' : '[ ] '
+  });
+
+  service.addRule('codeBlockLanguage', {
+    filter: node => node.nodeName === 'PRE' && node.firstChild?.nodeName === 'CODE',
+    replacement: (_content, node) => {
+      const code = node.firstChild as HTMLElement;
+      const text = (code.textContent || '').replace(/\n$/, '');
+      const fence = /```/.test(text) ? '````' : '```';
+      return `\n\n${fence}${codeBlockLanguage(code.getAttribute('class') || '')}\n${text}\n${fence}\n\n`;
+    }
+  });
+
+  // CKEditor math: <span class="math-tex">\(x\)</span> inline, \[x\] display
+  service.addRule('math', {
+    filter: node => node.nodeName === 'SPAN' && /(?:^|\s)math-tex(?:\s|$)/.test(node.getAttribute('class') || ''),
+    replacement: (_content, node) => {
+      const tex = (node.textContent || '').trim();
+      const display = tex.match(/^\\\[([\s\S]*)\\\]$/);
+      if (display) {
+        return `\n\n$$\n${display[1].trim()}\n$$\n\n`;
+      }
+      return `$${tex.replace(/^\\\(([\s\S]*)\\\)$/, '$1').trim()}$`;
+    }
+  });
+
+  // Links to other notes (reference links and plain internal links): href="#root/.../noteId"
+  service.addRule('noteLink', {
+    filter: node => node.nodeName === 'A' && /^#root\//.test(node.getAttribute('href') || ''),
+    replacement: (content, node) => {
+      const noteId = (node as HTMLElement).getAttribute('href')!.slice(1).replace(/[?#].*$/, '').split('/').pop();
+      return `[${content || node.textContent}](trilium:${noteId})`;
+    }
+  });
+
+  // Tables: the first row becomes the GFM header row, as GFM tables require one
+  service.addRule('tableCell', {
+    filter: ['th', 'td'],
+    replacement: (content, node) => tableCell(content, node as HTMLElement)
+  });
+  service.addRule('tableRow', {
+    filter: 'tr',
+    replacement: (content, node) => {
+      const table = node.closest('table');
+      const isHeader = table?.querySelector('tr') === node;
+      const separator = isHeader
+        ? `\n|${Array.from((node as HTMLElement).children).map(() => ' --- |').join('')}`
+        : '';
+      return `\n${content}${separator}`;
+    }
+  });
+  service.addRule('tableSection', {
+    filter: ['thead', 'tbody', 'tfoot'],
+    replacement: content => content
+  });
+  service.addRule('table', {
+    filter: 'table',
+    replacement: content => `\n\n${content.trim()}\n\n`
+  });
+
+  return service;
+}
+
+let turndownService: TurndownService | undefined;
 
 /**
- * Check if content is likely Markdown (high confidence detection)
+ * Convert text note HTML to GitHub-flavoured Markdown
+ * Keeps tables, task lists, code block languages, math ($...$) and note links ([title](trilium:noteId))
  */
-function isLikelyMarkdown(content: string): boolean {
-  // Skip empty content
-  if (!content || content.length < 2) return false;
-
-  const markdownPatterns = [
-    // Headers
-    /^#{1,6}\s+.+/m,
-    // Bold/italic
-    /\*\*.*?\*\*/,
-    /\*.*?\*/,
-    /__.*?__/,
-    /_.*?_/,
-    // Links
-    /\[.*?\]\(.*?\)/,
-    // Images
-    /!\[.*?\]\(.*?\)/,
-    // Code blocks
-    /```[\s\S]*?```/,
-    /`.*?`/,
-    // Unordered lists
-    /^[\s]*[-*+]\s+/m,
-    /^[\s]*\d+\.\s+/m, // Ordered lists
-    // Blockquotes
-    /^>\s+/m,
-    // Horizontal rules
-    /^[-*_]{3,}\s*$/m,
-    // Task lists
-    /^[\s]*[-*+]\s+\[[xX]\]\s+/m,
-  ];
-
-  // Need at least 2 markdown patterns to avoid false positives
-  const matchCount = markdownPatterns.filter(pattern => pattern.test(content)).length;
-  return matchCount >= 1; // At least 1 markdown pattern
+export function convertHtmlToMarkdown(html: string): string {
+  turndownService = turndownService || createTurndownService();
+  return turndownService.turndown(html);
 }
 
 /**
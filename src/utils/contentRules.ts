@@ -223,6 +223,45 @@ export function isLikelyHtml(content: string): boolean {
   return htmlPatterns.some(pattern => pattern.test(content));
 }
 
+/**
+ * Check if content is likely Markdown
+ * Text notes that pass are converted with marked instead of being wrapped in <p>
+ */
+export function isLikelyMarkdown(content: string): boolean {
+  // Skip empty content
+  if (!content || content.length < 2) return false;
+
+  const markdownPatterns = [
+    // Headers
+    /^#{1,6}\s+.+/m,
+    // Bold/italic
+    /\*\*.*?\*\*/,
+    /\*[^*\s][^*]*?(?<!\s)\*/,
+    /__.*?__/,
+    /(^|\W)_[^_\s][^_]*?(?<!\s)_(?!\w)/,
+    // Links
+    /\[.*?\]\(.*?\)/,
+    // Images
+    /!\[.*?\]\(.*?\)/,
+    // Code blocks
+    /```[\s\S]*?```/,
+    /`.*?`/,
+    // Unordered lists
+    /^[\s]*[-*+]\s+/m,
+    /^[\s]*\d+\.\s+/m, // Ordered lists
+    // Blockquotes
+    /^>\s+/m,
+    // Horizontal rules
+    /^[-*_]{3,}\s*$/m,
+    // Task lists
+    /^[\s]*[-*+]\s+\[[xX]\]\s+/m,
+  ];
+
+  // One pattern is enough; single * and _ only count as emphasis the way GFM reads them,
+  // so arithmetic ('2 * 3 * 4') and snake_case names don't make plain text Markdown
+  return markdownPatterns.some(pattern => pattern.test(content));
+}
+
 /**
  * Validate content for note type and auto-correct if possible
  * Enhanced with template-aware validation for container notes
@@ -297,8 +336,8 @@ export async function validateContentForNoteType(
     case 'text':
     case 'render':
     case 'webView':
-      // HTML required for these types
-      if (rules.requiresHtml && !isLikelyHtml(textContent)) {
+      // HTML required for these types; Markdown is left for processContent to convert
+      if (rules.requiresHtml && !isLikelyHtml(textContent) && !(noteType === 'text' && isLikelyMarkdown(textContent))) {
         // Auto-wrap plain text in HTML
         const wrappedContent = `<p>${textContent}</p>`;
         return {
@@ -0,0 +1,160 @@
+/**
+ * Diff Utilities
+ * Line-based unified diffs for previewing note edits
+ */
+
+export interface UnifiedDiffOptions {
+  oldLabel?: string;
+  newLabel?: string;
+  // Unchanged lines shown around each change (default: 3)
+  context?: number;
+  // Break HTML after block-level elements so single-line CKEditor content diffs per paragraph
+  splitHtml?: boolean;
+}
+
+type DiffLine = { op: ' ' | '-' | '+'; text: string };
+
+// Above this many LCS cells, the changed region is shown as a whole replacement
+const MAX_LCS_CELLS = 4_000_000;
+
+const HTML_BLOCK_BOUNDARY = /(<\/(?:p|h[1-6]|li|ul|ol|blockquote|pre|table|tr|div|figure|section)>|<br\s*\/?>|<hr\s*\/?>)(?!\n)/gi;
+
+/**
+ * Split content into diff lines
+ */
+function splitLines(content: string, splitHtml: boolean): string[] {
+  const normalized = splitHtml ? content.replace(HTML_BLOCK_BOUNDARY, "$1\n") : content;
+  if (normalized === "") {
+    return [];
+  }
+  const lines = normalized.split("\n");
+  // A trailing newline does not start another line
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Compute the line edit script between two line arrays (longest common subsequence)
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const prefix: DiffLine[] = oldLines.slice(0, start).map(text => ({ op: ' ', text }));
+  const suffix: DiffLine[] = oldLines.slice(oldEnd).map(text => ({ op: ' ', text }));
+  const oldMiddle = oldLines.slice(start, oldEnd);
+  const newMiddle = newLines.slice(start, newEnd);
+
+  const n = oldMiddle.length;
+  const m = newMiddle.length;
+
+  if (n * m > MAX_LCS_CELLS) {
+    return [
+      ...prefix,
+      ...oldMiddle.map(text => ({ op: '-' as const, text })),
+      ...newMiddle.map(text => ({ op: '+' as const, text })),
+      ...suffix
+    ];
+  }
+
+  // lengths[i * (m + 1) + j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] = oldMiddle[i] === newMiddle[j]
+        ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldMiddle[i] === newMiddle[j]) {
+      middle.push({ op: ' ', text: oldMiddle[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+      middle.push({ op: '-', text: oldMiddle[i++] });
+    } else {
+      middle.push({ op: '+', text: newMiddle[j++] });
+    }
+  }
+  while (i < n) middle.push({ op: '-', text: oldMiddle[i++] });
+  while (j < m) middle.push({ op: '+', text: newMiddle[j++] });
+
+  return [...prefix, ...middle, ...suffix];
+}
+
+/**
+ * Format a hunk range; empty ranges point at the line before them
+ */
+function formatRange(start: number, count: number): string {
+  if (count === 0) {
+    return `${start - 1},0`;
+  }
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+/**
+ * Create a unified diff of two texts
+ * Returns an empty string when the texts are identical
+ */
+export function createUnifiedDiff(oldText: string, newText: string, options: UnifiedDiffOptions = {}): string {
+  const { oldLabel = "a", newLabel = "b", context = 3, splitHtml = false } = options;
+
+  const lines = diffLines(splitLines(oldText, splitHtml), splitLines(newText, splitHtml));
+  const changed = lines.map((line, index) => line.op !== ' ' ? index : -1).filter(index => index >= 0);
+
+  if (changed.length === 0) {
+    return "";
+  }
+
+  // Group changes whose context overlaps into hunks
+  const ranges: Array<[number, number]> = [];
+  for (const index of changed) {
+    const from = Math.max(0, index - context);
+    const to = Math.min(lines.length - 1, index + context);
+    const last = ranges[ranges.length - 1];
+    if (last && from <= last[1] + 1) {
+      last[1] = to;
+    } else {
+      ranges.push([from, to]);
+    }
+  }
+
+  // Line numbers (1-based) in the old and new text at each position of the edit script
+  const oldLineAt: number[] = [];
+  const newLineAt: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const line of lines) {
+    oldLineAt.push(oldLine);
+    newLineAt.push(newLine);
+    if (line.op !== '+') oldLine++;
+    if (line.op !== '-') newLine++;
+  }
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  for (const [from, to] of ranges) {
+    const hunk = lines.slice(from, to + 1);
+    const oldCount = hunk.filter(line => line.op !== '+').length;
+    const newCount = hunk.filter(line => line.op !== '-').length;
+    output.push(`@@ -${formatRange(oldLineAt[from], oldCount)} +${formatRange(newLineAt[from], newCount)} @@`);
+    output.push(...hunk.map(line => `${line.op}${line.text}`));
+  }
+
+  return output.join("\n");
+}
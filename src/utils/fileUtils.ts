@@ -61,30 +61,35 @@ export interface ParsedFileData {
   size: number;
 }
 
+// MIME types and their file extensions, like SUPPORTED_MIME_TYPES
+export type MimeTypeTable = Readonly<Record<string, readonly string[]>>;
+
 /**
  * Detect MIME type based on file extension
+ * supportedTypes defaults to the file upload types; tools accepting other files (e.g. ZIP imports) pass their own
  */
-export function detectMimeType(filePath: string): string {
+export function detectMimeType(filePath: string, supportedTypes: MimeTypeTable = SUPPORTED_MIME_TYPES): string {
   const ext = path.extname(filePath).toLowerCase();
 
-  for (const [mimeType, extensions] of Object.entries(SUPPORTED_MIME_TYPES)) {
-    if ((extensions as readonly string[]).includes(ext.substring(1))) {
+  for (const [mimeType, extensions] of Object.entries(supportedTypes)) {
+    if (extensions.includes(ext.substring(1))) {
       return mimeType;
     }
   }
 
-  throw new Error(`Unsupported file type: ${ext}. Supported types: ${Object.values(SUPPORTED_MIME_TYPES).flat().join(', ')}`);
+  throw new Error(`Unsupported file type: ${ext}. Supported types: ${Object.values(supportedTypes).flat().join(', ')}`);
 }
 
 /**
  * Parse file data source (path, base64, or data URI)
+ * Paths and data URIs must be of one of supportedTypes (default: the file upload types)
  */
-export function parseFileDataSource(fileDataSource: string): ParsedFileData {
+export function parseFileDataSource(fileDataSource: string, supportedTypes: MimeTypeTable = SUPPORTED_MIME_TYPES): ParsedFileData {
   const trimmed = fileDataSource.trim();
 
   // Check if it's a data URI
   if (trimmed.startsWith('data:')) {
-    return parseDataUri(trimmed);
+    return parseDataUri(trimmed, supportedTypes);
   }
 
   // Check if it looks like base64 (contains only base64 characters and reasonable length)
@@ -93,13 +98,13 @@ export function parseFileDataSource(fileDataSource: string): ParsedFileData {
   }
 
   // Otherwise treat as file path
-  return parseFilePath(trimmed);
+  return parseFilePath(trimmed, supportedTypes);
 }
 
 /**
  * Parse data URI format: data:mime/type;base64,data
  */
-function parseDataUri(dataUri: string): ParsedFileData {
+function parseDataUri(dataUri: string, supportedTypes: MimeTypeTable): ParsedFileData {
   const match = dataUri.match(/^data:([^;]+);base64,(.+)$/);
   if (!match) {
     throw new Error('Invalid data URI format. Expected: data:mime/type;base64,data');
@@ -109,7 +114,7 @@ function parseDataUri(dataUri: string): ParsedFileData {
   const base64Data = match[2];
 
   // Validate MIME type
-  if (!isMimeTypeSupported(mimeType)) {
+  if (!Object.keys(supportedTypes).includes(mimeType)) {
     throw new Error(`Unsupported MIME type in data URI: ${mimeType}`);
   }
 
@@ -155,14 +160,14 @@ function parseBase64String(base64String: string): ParsedFileData {
 /**
  * Parse file path
  */
-function parseFilePath(filePath: string): ParsedFileData {
+function parseFilePath(filePath: string, supportedTypes: MimeTypeTable): ParsedFileData {
   const stats = getFileStats(filePath);
 
   if (!stats.exists) {
     throw new Error(`File not found: ${filePath}`);
   }
 
-  const mimeType = detectMimeType(filePath);
+  const mimeType = detectMimeType(filePath, supportedTypes);
   const fileName = path.basename(filePath);
 
   return {
@@ -0,0 +1,137 @@
+/**
+ * Frontmatter Utilities
+ * YAML frontmatter of Markdown documents (as written by Obsidian and similar tools) <-> Trilium attributes
+ */
+
+import { parse, stringify } from 'yaml';
+
+export interface FrontmatterAttributes {
+  // From the 'title' key
+  title?: string;
+  labels: Array<{ name: string; value: string }>;
+  // From '~name' keys; targets are note titles, to be resolved by the caller
+  relations: Array<{ name: string; targetTitle: string }>;
+}
+
+export interface ParsedFrontmatter extends FrontmatterAttributes {
+  // Content with the frontmatter block removed
+  body: string;
+}
+
+const FRONTMATTER_PATTERN = /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Make a frontmatter key a valid Trilium attribute name (letters, digits, '_' and ':')
+ */
+function toAttributeName(key: string): string {
+  return key.trim().replace(/[^\p{L}\p{N}_:]+/gu, '_').replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Convert a frontmatter value to label values: one per list item, objects as JSON
+ */
+function toValues(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(toValues);
+  }
+  if (value === null || value === undefined) {
+    return [''];
+  }
+  if (value instanceof Date) {
+    return [value.toISOString()];
+  }
+  if (typeof value === 'object') {
+    return [JSON.stringify(value)];
+  }
+  return [String(value)];
+}
+
+/**
+ * Split a YAML frontmatter block off Markdown content and map it to attributes
+ * Returns null when the content does not start with a frontmatter block.
+ * - title: becomes the note title
+ * - ~name: becomes relations to the notes with the given titles ([[wikilinks]] are unwrapped)
+ * - any other key: becomes labels, one per value for lists
+ */
+export function parseFrontmatter(content: string): ParsedFrontmatter | null {
+  const match = content.match(FRONTMATTER_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  let data: unknown;
+  try {
+    data = parse(match[1]);
+  } catch (error) {
+    throw new Error(`Invalid YAML frontmatter: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  // An empty block is valid frontmatter without keys
+  if (data === null || data === undefined) {
+    data = {};
+  }
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error("Invalid YAML frontmatter: expected key/value pairs.");
+  }
+
+  const result: ParsedFrontmatter = { body: content.slice(match[0].length), labels: [], relations: [] };
+
+  for (const [key, value] of Object.entries(data as Record<string, unknown>)) {
+    if (key === 'title' && value !== null && typeof value !== 'object') {
+      result.title = String(value);
+      continue;
+    }
+
+    const isRelation = key.startsWith('~');
+    const name = toAttributeName(key.replace(/^[~#]/, ''));
+    if (!name) {
+      continue;
+    }
+
+    for (const item of toValues(value)) {
+      if (isRelation) {
+        const targetTitle = item.replace(/^\[\[([^\]|]+)(\|[^\]]*)?\]\]$/, '$1').trim();
+        if (targetTitle) {
+          result.relations.push({ name, targetTitle });
+        }
+      } else {
+        result.labels.push({ name, value: item });
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Build a YAML frontmatter block from a title and attributes (the reverse of parseFrontmatter)
+ * Repeated names become lists; labels without a value become empty keys.
+ */
+export function buildFrontmatter(attributes: FrontmatterAttributes): string {
+  const data: Record<string, unknown> = {};
+  const add = (key: string, value: string | null) => {
+    if (!(key in data)) {
+      data[key] = value;
+    } else if (Array.isArray(data[key])) {
+      (data[key] as unknown[]).push(value);
+    } else {
+      data[key] = [data[key], value];
+    }
+  };
+
+  if (attributes.title !== undefined) {
+    data.title = attributes.title;
+  }
+  for (const label of attributes.labels) {
+    add(label.name === 'title' ? '#title' : label.name, label.value === '' ? null : label.value);
+  }
+  for (const relation of attributes.relations) {
+    add(`~${relation.name}`, relation.targetTitle);
+  }
+
+  if (Object.keys(data).length === 0) {
+    return '';
+  }
+
+  return `---\n${stringify(data).trimEnd()}\n---\n`;
+}
@@ -0,0 +1,120 @@
+/**
+ * Fuzzy Matching Utilities
+ * Typo-tolerant scoring of note titles against what a user typed
+ */
+
+// Below this score a title is not considered a match
+export const MIN_FUZZY_SCORE = 0.5;
+
+// Exact, prefix and substring matches score at least this; anything lower is a guess
+export const MIN_SUBSTRING_SCORE = 0.8;
+
+// Fuzzy (non-substring) matches are capped below substring matches
+const FUZZY_WEIGHT = 0.75;
+
+/**
+ * Fold text for comparison: strip diacritics, lowercase, collapse punctuation and whitespace
+ */
+export function foldText(text: string): string {
+  return (text || '')
+    .normalize('NFD')
+    .replace(/\p{M}+/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and adjacent transpositions as one edit
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  // Three rolling rows: two back (for transpositions), previous and current
+  let twoBack: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], twoBack[j - 2] + 1);
+      }
+    }
+    twoBack = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - editDistance(a, b) / length;
+}
+
+/**
+ * Whether every character of an abbreviation appears in order in the word, starting with its first ('projx' in 'projectx')
+ */
+function isAbbreviation(abbreviation: string, word: string): boolean {
+  if (abbreviation.length < 2 || abbreviation[0] !== word[0]) {
+    return false;
+  }
+  let position = 0;
+  for (const char of word) {
+    if (char === abbreviation[position]) {
+      position++;
+      if (position === abbreviation.length) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+function tokenSimilarity(queryToken: string, token: string): number {
+  if (token.startsWith(queryToken)) {
+    return 1;
+  }
+  const score = similarity(queryToken, token);
+  return isAbbreviation(queryToken, token)
+    ? Math.max(score, 0.6 + 0.4 * queryToken.length / token.length)
+    : score;
+}
+
+/**
+ * Score how well a title matches a query, from 0 (unrelated) to 1 (same text after folding)
+ * Substring matches score 0.8-0.95; typos, abbreviations and reordered words score up to 0.75,
+ * from the better of whole-text edit similarity and per-word overlap.
+ */
+export function scoreFuzzyMatch(query: string, title: string): number {
+  const foldedQuery = foldText(query);
+  const foldedTitle = foldText(title);
+  if (!foldedQuery || !foldedTitle) {
+    return 0;
+  }
+  if (foldedQuery === foldedTitle) {
+    return 1;
+  }
+
+  // Longer substrings of the title score higher
+  const coverage = foldedQuery.length / foldedTitle.length;
+  if (foldedTitle.startsWith(foldedQuery)) {
+    return 0.85 + 0.1 * coverage;
+  }
+  if (foldedTitle.includes(foldedQuery)) {
+    return MIN_SUBSTRING_SCORE + 0.1 * coverage;
+  }
+
+  const queryTokens = foldedQuery.split(' ');
+  const titleTokens = foldedTitle.split(' ');
+  const tokenScores = queryTokens.map(queryToken =>
+    Math.max(...titleTokens.map(token => tokenSimilarity(queryToken, token))));
+  // Title words the query does not mention lower the overlap a little
+  const overlap = tokenScores.reduce((sum, score) => sum + score, 0) / queryTokens.length
+    * (1 - 0.05 * Math.max(0, titleTokens.length - queryTokens.length));
+
+  return FUZZY_WEIGHT * Math.max(similarity(foldedQuery, foldedTitle), overlap);
+}
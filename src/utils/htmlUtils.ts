@@ -0,0 +1,345 @@
+/**
+ * HTML Utilities
+ * Lightweight parsing of CKEditor note HTML (heading outline and sections)
+ */
+
+export interface HeadingSection {
+  level: number;
+  title: string;
+  // Titles of the enclosing headings, outermost first, ending with this heading
+  path: string[];
+  // Offset of the opening heading tag
+  start: number;
+  // Offset just after the closing heading tag (start of the section body)
+  bodyStart: number;
+  // Offset where the next heading of the same or a higher level starts (or end of content)
+  end: number;
+}
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' '
+};
+
+const ENTITY_PATTERN = /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi;
+
+// Closing or opening these tags separates the rendered text of neighbouring blocks
+const BLOCK_ELEMENTS = new Set([
+  'p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'ul', 'ol', 'blockquote', 'pre',
+  'table', 'tr', 'td', 'th', 'figure', 'figcaption', 'section', 'br', 'hr'
+]);
+
+export interface TextReplaceResult {
+  content: string;
+  replacements: number;
+}
+
+/**
+ * Decode a single character reference (entity body without '&' and ';')
+ */
+function decodeEntity(entity: string, code: string): string {
+  if (code[0] === '#') {
+    const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return String.fromCodePoint(value);
+  }
+  return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+}
+
+/**
+ * Escape text for insertion into an HTML text node
+ */
+function escapeHtmlText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Convert an HTML fragment to plain text (tags removed, common entities decoded, whitespace collapsed)
+ */
+export function htmlToPlainText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, '')
+    .replace(ENTITY_PATTERN, decodeEntity)
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Convert note HTML to readable plain text, keeping the block structure
+ * Blocks go on their own lines, list items get a '- ' prefix and table cells are tab-separated
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<\/t[dh]>/gi, '\t')
+    .replace(/<\/?([a-zA-Z][\w-]*)\b[^>]*>/g, (_tag, name: string) =>
+      BLOCK_ELEMENTS.has(name.toLowerCase()) && !/^t[dh]$/i.test(name) ? '\n' : '')
+    .replace(/^- \n+/gm, '- ')
+    .replace(ENTITY_PATTERN, decodeEntity)
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n+/g, '\n')
+    .trim();
+}
+
+/**
+ * Parse the top-level headings of note HTML into a flat outline (document order)
+ * Headings nested inside other elements (tables, blockquotes, ...) are not section boundaries
+ */
+export function parseHeadingOutline(html: string): HeadingSection[] {
+  const tagPattern = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][\w-]*)\b[^>]*?(\/?)>/g;
+  const sections: HeadingSection[] = [];
+  const stack: HeadingSection[] = [];
+  let depth = 0;
+  let openHeading: { level: number; start: number; contentStart: number } | null = null;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(html)) !== null) {
+    if (match[0].startsWith('<!--')) {
+      continue;
+    }
+
+    const isClosing = match[1] === '/';
+    const tagName = match[2].toLowerCase();
+    const selfClosing = match[3] === '/' || VOID_ELEMENTS.has(tagName);
+    const headingLevel = /^h[1-6]$/.test(tagName) ? parseInt(tagName[1], 10) : 0;
+
+    if (isClosing) {
+      depth = Math.max(0, depth - 1);
+      if (headingLevel && openHeading && depth === 0 && headingLevel === openHeading.level) {
+        const title = htmlToPlainText(html.slice(openHeading.contentStart, match.index));
+        const bodyStart = match.index + match[0].length;
+
+        // The new heading ends every open section of the same or a deeper level
+        while (stack.length > 0 && stack[stack.length - 1].level >= openHeading.level) {
+          stack.pop()!.end = openHeading.start;
+        }
+
+        const section: HeadingSection = {
+          level: openHeading.level,
+          title,
+          path: [...stack.map(s => s.title), title],
+          start: openHeading.start,
+          bodyStart,
+          end: html.length
+        };
+        sections.push(section);
+        stack.push(section);
+        openHeading = null;
+      }
+      continue;
+    }
+
+    if (selfClosing) {
+      continue;
+    }
+
+    if (headingLevel && depth === 0) {
+      openHeading = { level: headingLevel, start: match.index, contentStart: match.index + match[0].length };
+    }
+    depth++;
+  }
+
+  return sections;
+}
+
+/**
+ * Split a heading path such as "Decisions > 2024-Q3" into its parts
+ */
+export function parseHeadingPath(headingPath: string | string[]): string[] {
+  const parts = Array.isArray(headingPath) ? headingPath : headingPath.split('>');
+  return parts.map(part => part.trim()).filter(Boolean);
+}
+
+/**
+ * Find the sections matching a heading path
+ * The last part names the heading; earlier parts must be enclosing headings, in order
+ * (intermediate levels may be skipped). Titles are compared case-insensitively.
+ */
+export function findSections(sections: HeadingSection[], headingPath: string | string[]): HeadingSection[] {
+  const wanted = parseHeadingPath(headingPath).map(part => part.toLowerCase());
+  if (wanted.length === 0) {
+    return [];
+  }
+
+  return sections.filter(section => {
+    const path = section.path.map(part => part.toLowerCase());
+    if (path[path.length - 1] !== wanted[wanted.length - 1]) {
+      return false;
+    }
+
+    // Match the remaining parts as an ordered subsequence of the ancestors
+    let index = path.length - 2;
+    for (let i = wanted.length - 2; i >= 0; i--) {
+      while (index >= 0 && path[index] !== wanted[i]) {
+        index--;
+      }
+      if (index < 0) {
+        return false;
+      }
+      index--;
+    }
+    return true;
+  });
+}
+
+/**
+ * Format an outline as indented heading paths, for error messages and listings
+ */
+export function formatOutline(sections: HeadingSection[]): string {
+  // Trilium notes usually start at <h2> (the note title plays the role of <h1>)
+  const topLevel = Math.min(...sections.map(section => section.level));
+  return sections.map(section => `${'  '.repeat(section.level - topLevel)}${section.title}`).join('\n');
+}
+
+/**
+ * Locate the element with the given id attribute
+ * Returns the offsets of its opening tag start and of the end of its closing tag
+ */
+export function findElementById(html: string, id: string): { start: number; end: number } | null {
+  const escapedId = id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const openPattern = new RegExp(`<([a-zA-Z][\\w-]*)\\b[^>]*\\sid\\s*=\\s*(["'])${escapedId}\\2[^>]*>`, 'i');
+  const open = openPattern.exec(html);
+  if (!open) {
+    return null;
+  }
+
+  const start = open.index;
+  const afterOpen = start + open[0].length;
+  if (open[0].endsWith('/>') || VOID_ELEMENTS.has(open[1].toLowerCase())) {
+    return { start, end: afterOpen };
+  }
+
+  const tagPattern = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][\w-]*)\b[^>]*?(\/?)>/g;
+  tagPattern.lastIndex = afterOpen;
+  let depth = 1;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(html)) !== null) {
+    if (match[0].startsWith('<!--') || match[3] === '/' || VOID_ELEMENTS.has(match[2].toLowerCase())) {
+      continue;
+    }
+    depth += match[1] === '/' ? -1 : 1;
+    if (depth === 0) {
+      return { start, end: match.index + match[0].length };
+    }
+  }
+
+  // Unclosed element: it runs to the end of the content
+  return { start, end: html.length };
+}
+
+/**
+ * Expand $-patterns of a replacement string the way String.prototype.replace does
+ */
+function expandReplacement(replacement: string, match: RegExpMatchArray, subject: string): string {
+  return replacement.replace(/\$(\$|&|`|'|<([^>]*)>|\d{1,2})/g, (token, kind: string, name?: string) => {
+    if (kind === '$') return '$';
+    if (kind === '&') return match[0];
+    if (kind === '`') return subject.slice(0, match.index);
+    if (kind === "'") return subject.slice(match.index! + match[0].length);
+    if (name !== undefined) return match.groups?.[name] ?? (match.groups ? '' : token);
+    let group = parseInt(kind, 10);
+    if (group >= match.length && kind.length === 2) {
+      // "$12" with fewer than 12 groups means group 1 followed by "2"
+      group = parseInt(kind[0], 10);
+      return group > 0 && group < match.length ? (match[group] ?? '') + kind[1] : token;
+    }
+    return group > 0 && group < match.length ? (match[group] ?? '') : token;
+  });
+}
+
+/**
+ * Search and replace in the rendered text of HTML, leaving the markup intact
+ * The pattern is matched against the text nodes (entities decoded, a newline between blocks), so
+ * phrases split by inline tags such as <strong> still match and tag or attribute names never do.
+ * Each match's replacement is written into the text node where the match starts; the matched
+ * characters in later text nodes are removed, keeping the tags between them.
+ */
+export function replaceInHtmlText(html: string, regex: RegExp, replacement: string): TextReplaceResult {
+  // Rendered text and, per UTF-16 unit, the span of source characters it came from
+  let text = '';
+  const sourceStart: number[] = [];
+  const sourceEnd: number[] = [];
+  // Block separators are not real characters and are never removed
+  const separator: boolean[] = [];
+
+  const pushText = (segment: string, offset: number) => {
+    let last = 0;
+    const addLiteral = (from: number, to: number) => {
+      for (let i = from; i < to; i++) {
+        text += segment[i];
+        sourceStart.push(offset + i);
+        sourceEnd.push(offset + i + 1);
+        separator.push(false);
+      }
+    };
+    for (const entity of segment.matchAll(ENTITY_PATTERN)) {
+      addLiteral(last, entity.index!);
+      const decoded = decodeEntity(entity[0], entity[1]);
+      for (const unit of decoded.split('')) {
+        text += unit;
+        sourceStart.push(offset + entity.index!);
+        sourceEnd.push(offset + entity.index! + entity[0].length);
+        separator.push(false);
+      }
+      last = entity.index! + entity[0].length;
+    }
+    addLiteral(last, segment.length);
+  };
+
+  const tagPattern = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][\w-]*)\b[^>]*>/g;
+  let position = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(html)) !== null) {
+    pushText(html.slice(position, match.index), position);
+    position = match.index + match[0].length;
+    if (match[2] && BLOCK_ELEMENTS.has(match[2].toLowerCase()) && text.length > 0 && !text.endsWith('\n')) {
+      text += '\n';
+      sourceStart.push(match.index);
+      sourceEnd.push(match.index);
+      separator.push(true);
+    }
+  }
+  pushText(html.slice(position), position);
+
+  const globalRegex = regex.global ? regex : new RegExp(regex.source, regex.flags + 'g');
+  const matches = Array.from(text.matchAll(globalRegex)).filter(m => m[0].length > 0);
+  const selected = regex.global ? matches : matches.slice(0, 1);
+
+  // Source edits, in document order and non-overlapping
+  const edits: Array<{ start: number; end: number; insert: string }> = [];
+  for (const m of selected) {
+    const from = m.index!;
+    const to = from + m[0].length;
+    const insert = escapeHtmlText(expandReplacement(replacement, m, text));
+    const firstReal = (() => {
+      for (let i = from; i < to; i++) if (!separator[i]) return i;
+      return from;
+    })();
+
+    const matchEdits: Array<{ start: number; end: number; insert: string }> = [
+      { start: sourceStart[firstReal], end: sourceStart[firstReal], insert }
+    ];
+    for (let i = from; i < to; i++) {
+      if (separator[i]) continue;
+      const current = matchEdits[matchEdits.length - 1];
+      if (sourceStart[i] >= current.start && sourceEnd[i] <= current.end) continue;
+      if (sourceStart[i] === current.end) {
+        current.end = sourceEnd[i];
+      } else {
+        matchEdits.push({ start: sourceStart[i], end: sourceEnd[i], insert: '' });
+      }
+    }
+    edits.push(...matchEdits);
+  }
+
+  let content = html;
+  for (let i = edits.length - 1; i >= 0; i--) {
+    content = content.slice(0, edits[i].start) + edits[i].insert + content.slice(edits[i].end);
+  }
+
+  return { content, replacements: selected.length };
+}
@@ -10,6 +10,8 @@ export interface TrimmedNote {
   dateCreated: string;
   dateModified: string;
   attributes: any[];
+  // Breadcrumb title paths, when requested
+  paths?: string[];
 }
 
 /**
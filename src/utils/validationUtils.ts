@@ -66,6 +66,56 @@ export const updateNoteSchema = z.object({
   }
 );
 
+export const promptArgumentSchema = z.object({
+  name: z.string().regex(/^\w+$/, 'Argument name may only contain letters, digits and underscores'),
+  description: z.string().optional(),
+  required: z.boolean().optional()
+});
+
+export const customPromptSchema = z.object({
+  name: z.string().min(1, 'Prompt name cannot be empty'),
+  description: z.string().min(1, 'Prompt description cannot be empty'),
+  arguments: z.array(promptArgumentSchema).optional(),
+  permissions: z.array(z.enum(['READ', 'WRITE'])).optional(),
+  template: z.string().min(1, 'Prompt template cannot be empty')
+});
+
+export const customPromptsConfigSchema = z.object({
+  prompts: z.array(customPromptSchema)
+});
+
+export const instanceConfigSchema = z.object({
+  url: z.string().url('Instance URL must be a valid URL'),
+  token: z.string().min(1, 'Token cannot be empty').optional(),
+  tokenEnv: z.string().min(1, 'Token environment variable name cannot be empty').optional(),
+  permissions: z.string().regex(/^(READ|WRITE)(;(READ|WRITE))*$/, "Permissions must be 'READ', 'WRITE' or 'READ;WRITE'").optional(),
+  deleteMode: z.enum(['hard', 'soft']).optional(),
+  trashNoteId: z.string().min(1, 'Trash note ID cannot be empty').optional()
+}).refine(
+  (data) => data.token || data.tokenEnv,
+  {
+    message: "Either 'token' or 'tokenEnv' must be provided",
+    path: ['token']
+  }
+);
+
+export const instancesConfigSchema = z.object({
+  defaultInstance: z.string().min(1, 'Default instance name cannot be empty').optional(),
+  instances: z.record(
+    z.string().regex(/^[\w-]+$/, 'Instance name may only contain letters, digits, underscores and dashes'),
+    instanceConfigSchema
+  ).refine(
+    (instances) => Object.keys(instances).length > 0,
+    { message: 'At least one instance must be configured' }
+  )
+}).refine(
+  (data) => !data.defaultInstance || data.defaultInstance in data.instances,
+  {
+    message: "'defaultInstance' must be one of the configured instances",
+    path: ['defaultInstance']
+  }
+);
+
 // Type exports
 export type SearchCriteria = z.infer<typeof searchCriteriaSchema>;
 export type Attribute = z.infer<typeof attributeSchema>;
@@ -73,6 +123,7 @@ export type ManageAttributesRequest = z.infer<typeof manageAttributesSchema>;
 export type CreateNoteRequest = z.infer<typeof createNoteSchema>;
 export type SearchNotesRequest = z.infer<typeof searchNotesSchema>;
 export type UpdateNoteRequest = z.infer<typeof updateNoteSchema>;
+export type CustomPrompt = z.infer<typeof customPromptSchema>;
 
 /**
  * Validate search criteria parameters
@@ -0,0 +1,171 @@
+/**
+ * Test branch operations (move, clone, unlink, ordering) against a mocked ETAPI
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+
+import {
+  handleMoveNote,
+  handleCloneNote,
+  handleRemoveFromParent,
+  handleUpdateBranch,
+  handleReorderChildren
+} from '../../build/modules/branchManager.js';
+import { createMockEtapi } from './helpers/mockEtapi.js';
+
+/**
+ * Mock ETAPI holding the given branches; every note they mention exists
+ */
+function createMockAxios(branches, attributes = {}) {
+  const noteIds = new Set(['inbox', 'projects', 'b', 'c', ...branches.flatMap(b => [b.noteId, b.parentNoteId]), ...Object.keys(attributes)]);
+  const notes = Object.fromEntries([...noteIds].map(noteId => [noteId, { title: noteId, attributes: attributes[noteId] || [] }]));
+  return createMockEtapi({ notes, branches });
+}
+
+describe('Branch Operations', () => {
+
+  it('should move a note by creating the new branch before deleting the old one', async () => {
+    const branches = [{ branchId: 'inbox_note1', noteId: 'note1', parentNoteId: 'inbox', prefix: 'Draft' }];
+    const mockAxios = createMockAxios(branches);
+
+    const result = await handleMoveNote({ noteId: 'note1', parentNoteId: 'projects' }, mockAxios);
+
+    assert.equal(result.branchId, 'projects_note1');
+    assert.deepEqual(result.parentNoteIds, ['projects']);
+
+    const writes = mockAxios.calls.filter(call => call[0] !== 'GET');
+    assert.equal(writes[0][0], 'POST');
+    assert.equal(writes[0][2].prefix, 'Draft');
+    assert.deepEqual(writes[1], ['DELETE', '/branches/inbox_note1']);
+  });
+
+  it('should require fromParentNoteId when moving a cloned note', async () => {
+    const branches = [
+      { branchId: 'a_note1', noteId: 'note1', parentNoteId: 'a' },
+      { branchId: 'b_note1', noteId: 'note1', parentNoteId: 'b' }
+    ];
+    const mockAxios = createMockAxios(branches);
+
+    await assert.rejects(
+      handleMoveNote({ noteId: 'note1', parentNoteId: 'c' }, mockAxios),
+      /fromParentNoteId/
+    );
+
+    const result = await handleMoveNote({ noteId: 'note1', parentNoteId: 'c', fromParentNoteId: 'b' }, mockAxios);
+    assert.deepEqual(result.parentNoteIds.sort(), ['a', 'c']);
+  });
+
+  it('should refuse to move a note into itself', async () => {
+    const mockAxios = createMockAxios([{ branchId: 'root_note1', noteId: 'note1', parentNoteId: 'root' }]);
+
+    await assert.rejects(
+      handleMoveNote({ noteId: 'note1', parentNoteId: 'note1' }, mockAxios),
+      /descendants/
+    );
+  });
+
+  it('should clone a note under an additional parent', async () => {
+    const branches = [{ branchId: 'a_note1', noteId: 'note1', parentNoteId: 'a' }];
+    const mockAxios = createMockAxios(branches);
+
+    const result = await handleCloneNote({ noteId: 'note1', parentNoteId: 'b' }, mockAxios);
+
+    assert.deepEqual(result.parentNoteIds, ['a', 'b']);
+    assert.equal(mockAxios.calls.some(call => call[0] === 'DELETE'), false);
+  });
+
+  it('should refuse to clone under an existing parent', async () => {
+    const mockAxios = createMockAxios([{ branchId: 'a_note1', noteId: 'note1', parentNoteId: 'a' }]);
+
+    await assert.rejects(
+      handleCloneNote({ noteId: 'note1', parentNoteId: 'a' }, mockAxios),
+      /already a child/
+    );
+  });
+
+  it('should remove a clone from one parent', async () => {
+    const branches = [
+      { branchId: 'a_note1', noteId: 'note1', parentNoteId: 'a' },
+      { branchId: 'b_note1', noteId: 'note1', parentNoteId: 'b' }
+    ];
+    const mockAxios = createMockAxios(branches);
+
+    const result = await handleRemoveFromParent({ noteId: 'note1', parentNoteId: 'a' }, mockAxios);
+
+    assert.deepEqual(result.parentNoteIds, ['b']);
+    assert.deepEqual(mockAxios.calls.at(-1), ['DELETE', '/branches/a_note1']);
+  });
+
+  it('should refuse to remove the last branch of a note', async () => {
+    const mockAxios = createMockAxios([{ branchId: 'a_note1', noteId: 'note1', parentNoteId: 'a' }]);
+
+    await assert.rejects(
+      handleRemoveFromParent({ noteId: 'note1', parentNoteId: 'a' }, mockAxios),
+      /only parent/
+    );
+    assert.equal(mockAxios.calls.some(call => call[0] === 'DELETE'), false);
+  });
+
+  it('should patch prefix and position and refresh ordering', async () => {
+    const branches = [{ branchId: 'a_note1', noteId: 'note1', parentNoteId: 'a', notePosition: 30 }];
+    const mockAxios = createMockAxios(branches);
+
+    await handleUpdateBranch({ noteId: 'note1', prefix: 'WIP', notePosition: 0 }, mockAxios);
+
+    assert.equal(branches[0].prefix, 'WIP');
+    assert.equal(branches[0].notePosition, 0);
+    assert.deepEqual(mockAxios.calls.at(-1).slice(0, 2), ['POST', '/refresh-note-ordering/a']);
+  });
+
+  it('should update isExpanded through POST on the existing branch', async () => {
+    const branches = [{ branchId: 'a_note1', noteId: 'note1', parentNoteId: 'a', notePosition: 10 }];
+    const mockAxios = createMockAxios(branches);
+
+    await handleUpdateBranch({ noteId: 'note1', isExpanded: true }, mockAxios);
+
+    assert.equal(branches.length, 1);
+    assert.equal(branches[0].isExpanded, true);
+    assert.equal(branches[0].notePosition, 10);
+  });
+
+  it('should put listed children first and keep the rest in order', async () => {
+    const branches = [
+      { branchId: 'p_a', noteId: 'a', parentNoteId: 'p', notePosition: 10 },
+      { branchId: 'p_b', noteId: 'b', parentNoteId: 'p', notePosition: 20 },
+      { branchId: 'p_c', noteId: 'c', parentNoteId: 'p', notePosition: 30 }
+    ];
+    const attributes = [{ attributeId: 'sorted1', noteId: 'p', type: 'label', name: 'sorted', value: '' }];
+    const mockAxios = createMockAxios(branches, { p: attributes });
+
+    const result = await handleReorderChildren({ parentNoteId: 'p', orderedNoteIds: ['c'] }, mockAxios);
+
+    assert.deepEqual(result.order.map(entry => entry.noteId), ['c', 'a', 'b']);
+    assert.deepEqual(branches.map(b => [b.noteId, b.notePosition]), [['a', 20], ['b', 30], ['c', 10]]);
+    // #sorted would override the manual order
+    assert.equal(attributes.length, 0);
+  });
+
+  it('should reject noteIds that are not children', async () => {
+    const mockAxios = createMockAxios([{ branchId: 'p_a', noteId: 'a', parentNoteId: 'p', notePosition: 10 }]);
+
+    await assert.rejects(
+      handleReorderChildren({ parentNoteId: 'p', orderedNoteIds: ['x'] }, mockAxios),
+      /Not children of p: x/
+    );
+  });
+
+  it('should apply and clear #sorted', async () => {
+    const attributes = [];
+    const mockAxios = createMockAxios([], { p: attributes });
+
+    await handleReorderChildren({ parentNoteId: 'p', sortBy: 'title' }, mockAxios);
+    assert.deepEqual(attributes.map(a => [a.name, a.value]), [['sorted', '']]);
+
+    await handleReorderChildren({ parentNoteId: 'p', sortBy: 'dateCreated', sortDirection: 'desc' }, mockAxios);
+    assert.deepEqual(attributes.map(a => [a.name, a.value]), [['sorted', 'dateCreated'], ['sortDirection', 'desc']]);
+
+    await handleReorderChildren({ parentNoteId: 'p', clearSorted: true }, mockAxios);
+    assert.equal(attributes.length, 0);
+  });
+});
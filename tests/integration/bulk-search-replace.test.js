@@ -0,0 +1,81 @@
+/**
+ * Test bulk search and replace across search results against a mocked ETAPI
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+
+import { handleBulkSearchReplace } from '../../build/modules/bulkReplaceManager.js';
+import { createMockEtapi } from './helpers/mockEtapi.js';
+
+/**
+ * Mock ETAPI where every search returns all notes
+ */
+function createMockAxios(notes) {
+  return createMockEtapi({
+    notes,
+    routes: [['GET', /^\/notes\?/, () => ({
+      status: 200,
+      data: { results: Object.values(notes).map(({ content, ...note }) => note) }
+    })]]
+  });
+}
+
+function createNotes() {
+  return {
+    a: { noteId: 'a', title: 'Launch', type: 'text', blobId: 'a0', content: '<p>Acme Widget ships. Acme Widget rocks.</p>' },
+    b: { noteId: 'b', title: 'Config', type: 'code', blobId: 'b0', content: 'product = "Acme Widget"' },
+    c: { noteId: 'c', title: 'Other', type: 'text', blobId: 'c0', content: '<p>Nothing here</p>' },
+    d: { noteId: 'd', title: 'Folder', type: 'book', blobId: 'd0', content: '' }
+  };
+}
+
+const args = {
+  text: 'Acme',
+  searchPattern: 'Acme Widget',
+  replacePattern: 'Acme Gadget',
+  useRegex: false,
+  revision: false
+};
+
+describe('Bulk Search and Replace', () => {
+
+  it('should preview match counts and diffs without writing', async () => {
+    const notes = createNotes();
+    const mockAxios = createMockAxios(notes);
+
+    const result = await handleBulkSearchReplace(args, mockAxios);
+
+    assert.equal(result.preview, true);
+    assert.equal(result.totalMatches, 3);
+    assert.deepEqual(result.expectedHashes, { a: 'a0', b: 'b0' });
+    assert.deepEqual(result.results.map(r => [r.noteId, r.status, r.matches]), [
+      ['a', 'matched', 2], ['b', 'matched', 1], ['c', 'no_matches', 0], ['d', 'invalid', 0]
+    ]);
+    assert.match(result.results[1].diff, /\+product = "Acme Gadget"/);
+    assert.equal(mockAxios.calls.some(call => call[0] !== 'GET'), false);
+  });
+
+  it('should apply to previewed notes and report conflicts per note', async () => {
+    const notes = createNotes();
+    const mockAxios = createMockAxios(notes);
+    const { expectedHashes } = await handleBulkSearchReplace(args, mockAxios);
+
+    // Edited elsewhere between preview and apply
+    notes.b.blobId = 'b-edited';
+
+    const result = await handleBulkSearchReplace({ ...args, expectedHashes }, mockAxios);
+    const statuses = Object.fromEntries(result.results.map(r => [r.noteId, r.status]));
+
+    assert.deepEqual(statuses, { a: 'applied', b: 'conflicted', c: 'skipped', d: 'invalid' });
+    assert.equal(notes.a.content, '<p>Acme Gadget ships. Acme Gadget rocks.</p>');
+    assert.equal(notes.b.content, 'product = "Acme Widget"');
+    assert.equal(result.totalMatches, 2);
+  });
+
+  it('should refuse searches returning more than maxNotes notes', async () => {
+    const mockAxios = createMockAxios(createNotes());
+
+    await assert.rejects(handleBulkSearchReplace({ ...args, maxNotes: 3 }, mockAxios), /more than maxNotes/);
+  });
+});
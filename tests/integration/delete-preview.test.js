@@ -0,0 +1,119 @@
+/**
+ * Test delete preview (subtree census, incoming links, confirmation token) against a mocked ETAPI
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+
+import { previewDeleteNote, verifyConfirmationToken } from '../../build/modules/deletePreviewManager.js';
+import { handleDeleteNoteRequest } from '../../build/modules/noteHandler.js';
+import { createMockEtapi } from './helpers/mockEtapi.js';
+
+const permissions = { hasPermission: () => true };
+
+/**
+ * target
+ * ├── child          (only under target, deleted)
+ * │   └── grandchild (only under child, deleted)
+ * ├── inner          (links to child, deleted)
+ * └── shared         (also under elsewhere, survives)
+ *
+ * elsewhere links to grandchild in its content only, linker has relations to target and grandchild
+ *     └── sharedKid  (only under shared, survives with it)
+ */
+function createFixture() {
+  return {
+    target: { title: 'Target', type: 'text', parentNoteIds: ['root'], blobId: 'b1', content: '<p>Hello</p>' },
+    child: { title: 'Child', type: 'text', parentNoteIds: ['target'], blobId: 'b2', content: '<p>Child</p>' },
+    grandchild: { title: 'Grandchild', type: 'text', parentNoteIds: ['child'], blobId: 'b3', content: '' },
+    shared: { title: 'Shared', type: 'text', parentNoteIds: ['target', 'elsewhere'], blobId: 'b4', content: '' },
+    sharedKid: { title: 'Shared kid', type: 'text', parentNoteIds: ['shared'], blobId: 'b5', content: '' },
+    elsewhere: {
+      title: 'Elsewhere', type: 'text', parentNoteIds: ['root'], blobId: 'b6',
+      content: '<a class="reference-link" href="#root/target/child/grandchild">Grandchild</a>'
+    },
+    linker: {
+      title: 'Linker', type: 'text', parentNoteIds: ['root'], blobId: 'b7',
+      content: '<a href="#root/target">Target</a>',
+      attributes: [
+        { noteId: 'linker', type: 'relation', name: 'internalLink', value: 'target' },
+        { noteId: 'linker', type: 'relation', name: 'template', value: 'grandchild' }
+      ]
+    },
+    inner: {
+      title: 'Inner', type: 'text', parentNoteIds: ['target'], blobId: 'b8',
+      content: '<a href="#root/target/child">Child</a>',
+      attributes: [{ noteId: 'inner', type: 'relation', name: 'internalLink', value: 'child' }]
+    }
+  };
+}
+
+describe('Delete Preview', () => {
+
+  it('should separate deleted descendants from surviving clones', async () => {
+    const preview = await previewDeleteNote('target', createMockEtapi({ notes: createFixture() }));
+
+    assert.equal(preview.descendants.total, 5);
+    assert.equal(preview.descendants.deleted, 3);
+    assert.deepEqual(preview.deletedNotes.map(n => n.noteId).sort(), ['child', 'grandchild', 'inner', 'target']);
+    assert.deepEqual(preview.descendants.survivingClones.map(n => n.noteId).sort(), ['shared', 'sharedKid']);
+  });
+
+  it('should report incoming links from outside the deleted subtree only', async () => {
+    const axios = createMockEtapi({ notes: createFixture() });
+    const preview = await previewDeleteNote('target', axios);
+
+    assert.deepEqual(preview.incomingLinks.relations, [
+      { noteId: 'linker', title: 'Linker', targetNoteId: 'grandchild', relationName: 'template' }
+    ]);
+    assert.deepEqual(preview.incomingLinks.referenceLinks, [
+      { noteId: 'linker', title: 'Linker', targetNoteId: 'target', relationName: 'internalLink' },
+      { noteId: 'elsewhere', title: 'Elsewhere', targetNoteId: 'grandchild' }
+    ]);
+
+    // Links are looked up by their targets, not by scanning every note with relations
+    const searches = axios.searches();
+    assert.ok(searches.some(query => query.includes("~*.noteId = 'grandchild'")), searches.join('\n'));
+    assert.ok(!searches.some(query => query.includes('relationCount')));
+  });
+
+  it('should sum the content size of the deleted notes', async () => {
+    const preview = await previewDeleteNote('target', createMockEtapi({ notes: createFixture() }));
+
+    const expected = ['<p>Hello</p>', '<p>Child</p>', '', '<a href="#root/target/child">Child</a>']
+      .reduce((sum, content) => sum + Buffer.byteLength(content), 0);
+    assert.equal(preview.contentSize.bytes, expected);
+    assert.equal(preview.contentSize.truncated, false);
+  });
+
+  it('should invalidate the token when the subtree changes', async () => {
+    const notes = createFixture();
+    const mockAxios = createMockEtapi({ notes });
+    const { confirmationToken } = await previewDeleteNote('target', mockAxios);
+
+    assert.equal(await verifyConfirmationToken('target', confirmationToken, mockAxios), true);
+
+    notes.child.blobId = 'b2-edited';
+    assert.equal(await verifyConfirmationToken('target', confirmationToken, mockAxios), false);
+  });
+
+  it('should only delete with a valid confirmation token', async () => {
+    const mockAxios = createMockEtapi({ notes: createFixture() });
+
+    await assert.rejects(
+      handleDeleteNoteRequest({ noteId: 'target' }, mockAxios, permissions),
+      /preview=true/
+    );
+    await assert.rejects(
+      handleDeleteNoteRequest({ noteId: 'target', confirmationToken: 'bogus' }, mockAxios, permissions),
+      /outdated/
+    );
+    assert.equal(mockAxios.calls.some(call => call[0] === 'DELETE'), false);
+
+    const preview = await handleDeleteNoteRequest({ noteId: 'target', preview: true }, mockAxios, permissions);
+    const token = preview.content[0].text.match(/confirmationToken "([0-9a-f]+)"/)[1];
+
+    await handleDeleteNoteRequest({ noteId: 'target', confirmationToken: token }, mockAxios, permissions);
+    assert.deepEqual(mockAxios.calls.at(-1), ['DELETE', '/notes/target']);
+  });
+});
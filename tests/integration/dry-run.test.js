@@ -0,0 +1,59 @@
+/**
+ * Test dry-run previews of update_note and search_and_replace_note against a mocked ETAPI
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+
+import { handleUpdateNote, handleSearchReplaceNote } from '../../build/modules/noteManager.js';
+import { createMockEtapi } from './helpers/mockEtapi.js';
+
+/**
+ * Read-only ETAPI mock; any write fails the test
+ */
+function createMockAxios(note) {
+  return createMockEtapi({ notes: { [note.noteId]: { ...note } }, readOnly: true });
+}
+
+const note = {
+  noteId: 'note1',
+  title: 'Meeting',
+  type: 'text',
+  blobId: 'blob1',
+  content: '<h2>Agenda</h2><p>Budget</p><p>Hiring</p>'
+};
+
+describe('Dry Run', () => {
+
+  it('should diff an overwrite and title change without writing', async () => {
+    const result = await handleUpdateNote({
+      noteId: 'note1', type: 'text', title: 'Weekly meeting', content: '<h2>Agenda</h2><p>Budget</p><p>Roadmap</p>',
+      mode: 'overwrite', expectedHash: 'blob1', dryRun: true
+    }, createMockAxios(note));
+
+    assert.equal(result.dryRun, true);
+    assert.equal(result.revisionCreated, false);
+    assert.deepEqual(result.titleChange, { from: 'Meeting', to: 'Weekly meeting' });
+    assert.match(result.diff, /\n-<p>Hiring<\/p>/);
+    assert.match(result.diff, /\n\+<p>Roadmap<\/p>/);
+  });
+
+  it('should still report conflicts in a dry run', async () => {
+    const result = await handleUpdateNote({
+      noteId: 'note1', type: 'text', content: '<p>x</p>', mode: 'append', expectedHash: 'stale', dryRun: true
+    }, createMockAxios(note));
+
+    assert.equal(result.conflict, true);
+  });
+
+  it('should preview a search and replace', async () => {
+    const result = await handleSearchReplaceNote({
+      noteId: 'note1', searchPattern: 'Hiring', replacePattern: 'Hiring plan', useRegex: false,
+      expectedHash: 'blob1', dryRun: true
+    }, createMockAxios(note));
+
+    assert.equal(result.matchesFound, 1);
+    assert.equal(result.replacementsMade, 0);
+    assert.match(result.diff, /-<p>Hiring<\/p>\n\+<p>Hiring plan<\/p>/);
+  });
+});
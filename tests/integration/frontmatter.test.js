@@ -0,0 +1,89 @@
+/**
+ * Test YAML frontmatter handling in create_note and update_note against a mocked ETAPI
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+
+import { handleCreateNote, handleUpdateNote } from '../../build/modules/noteManager.js';
+import { createMockEtapi } from './helpers/mockEtapi.js';
+
+const markdown = [
+  '---',
+  'title: Weekly Review',
+  'tags: [work, review]',
+  '~author: "[[Jane Doe]]"',
+  '~project: Unknown Project',
+  '---',
+  '# Notes',
+  '',
+  'All good.'
+].join('\n');
+
+describe('Frontmatter', () => {
+
+  it('should create a note with the frontmatter title, labels and resolved relations', async () => {
+    const notes = { jane: { noteId: 'jane', title: 'Jane Doe', type: 'text', content: '' } };
+    const axios = createMockEtapi({ notes, idPrefix: 'new' });
+
+    const result = await handleCreateNote({
+      parentNoteId: 'root', type: 'text', content: markdown, forceCreate: true
+    }, axios);
+
+    const note = notes.new1;
+    assert.equal(note.title, 'Weekly Review');
+    assert.ok(!note.content.includes('tags'), 'frontmatter block must not be stored');
+    assert.match(note.content, /<h1[^>]*>Notes<\/h1>/);
+    assert.deepEqual(
+      note.attributes.map(attr => [attr.type, attr.name, attr.value]),
+      [['label', 'tags', 'work'], ['label', 'tags', 'review'], ['relation', 'author', 'jane']]
+    );
+    assert.match(result.message, /unresolved relations: ~project: "Unknown Project" \(no note has this title\)/);
+  });
+
+  it('should add missing attributes and update differing labels on update', async () => {
+    const notes = {
+      note1: { noteId: 'note1', title: 'Draft', type: 'text', content: '<p>Old</p>', blobId: 'blob1', attributes: [] },
+      jane: { noteId: 'jane', title: 'Jane Doe', type: 'text', content: '' }
+    };
+    const axios = createMockEtapi({ notes, idPrefix: 'new' });
+    notes.note1.attributes.push(
+      { attributeId: 'a1', noteId: 'note1', type: 'label', name: 'status', value: 'draft' },
+      { attributeId: 'a2', noteId: 'note1', type: 'label', name: 'tags', value: 'work' },
+      { attributeId: 'a3', noteId: 'note1', type: 'label', name: 'keep', value: 'me' }
+    );
+
+    const content = '---\ntitle: Final\nstatus: done\ntags: [work, review]\n~author: Jane Doe\n---\nNew text';
+
+    const preview = await handleUpdateNote({
+      noteId: 'note1', type: 'text', content, mode: 'overwrite', expectedHash: 'blob1', dryRun: true
+    }, axios);
+    assert.equal(preview.titleChange.to, 'Final');
+    assert.match(preview.message, /would add #tags=review, ~author=jane; would update #status=done/);
+    assert.equal(notes.note1.attributes.length, 3);
+
+    await handleUpdateNote({
+      noteId: 'note1', type: 'text', content, mode: 'overwrite', expectedHash: 'blob1', revision: false
+    }, axios);
+
+    assert.equal(notes.note1.content, '<p>New text</p>');
+    assert.ok(axios.calls.some(([method, url, data]) => method === 'PATCH' && url === '/notes/note1' && data.title === 'Final'));
+    assert.deepEqual(
+      notes.note1.attributes.map(attr => [attr.name, attr.value]),
+      [['status', 'done'], ['tags', 'work'], ['keep', 'me'], ['tags', 'review'], ['author', 'jane']]
+    );
+  });
+
+  it('should apply frontmatter without content as a metadata-only update', async () => {
+    const notes = { note1: { noteId: 'note1', title: 'Draft', type: 'text', content: '<p>Old</p>', blobId: 'blob1' } };
+    const axios = createMockEtapi({ notes, idPrefix: 'new' });
+
+    const result = await handleUpdateNote({
+      noteId: 'note1', type: 'text', content: '---\nreviewed: true\n---\n', mode: 'overwrite', expectedHash: 'blob1'
+    }, axios);
+
+    assert.equal(notes.note1.content, '<p>Old</p>');
+    assert.deepEqual(notes.note1.attributes.map(attr => [attr.name, attr.value]), [['reviewed', 'true']]);
+    assert.match(result.message, /metadata updated.*added #reviewed=true/);
+  });
+});
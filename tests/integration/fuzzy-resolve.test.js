@@ -0,0 +1,105 @@
+/**
+ * Test typo-tolerant ranked title resolution with #alias labels
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+
+import { handleResolveNoteId } from '../../build/modules/resolveManager.js';
+import { createMockEtapi } from './helpers/mockEtapi.js';
+
+const NOTES = [
+  { noteId: 'meet', title: 'Meeting Notes', type: 'text', dateModified: '2024-01-01', attributes: [] },
+  { noteId: 'budget', title: 'Budget 2024', type: 'text', dateModified: '2024-01-03', attributes: [] },
+  { noteId: 'projX', title: 'ProjectX', type: 'book', dateModified: '2024-01-02', attributes: [] },
+  {
+    noteId: 'kb', title: 'Knowledge Base', type: 'book', dateModified: '2023-05-01',
+    attributes: [
+      { type: 'label', name: 'alias', value: 'KB' },
+      { type: 'label', name: 'alias', value: 'Wissensdatenbank' }
+    ]
+  },
+  { noteId: 'cafe', title: 'Café Crème', type: 'text', dateModified: '2023-01-01', attributes: [] }
+];
+
+/**
+ * Mock ETAPI holding the given notes; its search folds case and diacritics like Trilium
+ */
+function createMockAxios(notes = NOTES) {
+  return createMockEtapi({ notes: Object.fromEntries(structuredClone(notes).map(note => [note.noteId, note])) });
+}
+
+describe('Fuzzy title resolution', () => {
+  it('resolves titles with typos and reports the score', async () => {
+    const axios = createMockAxios();
+    const result = await handleResolveNoteId({ noteName: 'meting notse' }, axios);
+
+    assert.equal(result.noteId, 'meet');
+    assert.equal(result.matchedField, 'title');
+    assert.ok(result.score > 0.5 && result.score < 0.8, `score ${result.score}`);
+    assert.match(axios.searches()[0], /note\.title \*=\* 'met' OR/);
+  });
+
+  it('resolves abbreviations', async () => {
+    const result = await handleResolveNoteId({ noteName: 'ProjX' }, createMockAxios());
+    assert.equal(result.noteId, 'projX');
+  });
+
+  it('asks when a typo match has a close runner-up', async () => {
+    const notes = [...NOTES, { noteId: 'projXOld', title: 'ProjectX Old', type: 'book', dateModified: '2023-01-02', attributes: [] }];
+    const result = await handleResolveNoteId({ noteName: 'ProjectY' }, createMockAxios(notes));
+
+    assert.equal(result.noteId, null);
+    assert.equal(result.requiresUserChoice, true);
+    assert.deepEqual(result.topMatches.map(match => match.noteId), ['projX', 'projXOld']);
+    assert.ok(result.topMatches[0].score < 0.8);
+    assert.match(result.nextSteps, /No title or alias contains "ProjectY"/);
+
+    const selected = await handleResolveNoteId({ noteName: 'ProjectY', autoSelect: true }, createMockAxios(notes));
+    assert.equal(selected.noteId, 'projX');
+  });
+
+  it('resolves substring matches without asking', async () => {
+    const result = await handleResolveNoteId({ noteName: 'budget' }, createMockAxios());
+    assert.equal(result.noteId, 'budget');
+    assert.ok(result.score >= 0.8);
+  });
+
+  it('matches notes by any #alias', async () => {
+    const result = await handleResolveNoteId({ noteName: 'wissensdatenbank' }, createMockAxios());
+
+    assert.equal(result.noteId, 'kb');
+    assert.equal(result.score, 1);
+    assert.equal(result.matchedField, 'alias');
+    assert.equal(result.matchedValue, 'Wissensdatenbank');
+  });
+
+  it('folds diacritics and case', async () => {
+    const result = await handleResolveNoteId({ noteName: 'cafe creme' }, createMockAxios());
+    assert.equal(result.noteId, 'cafe');
+    assert.equal(result.score, 1);
+  });
+
+  it('lists scored matches when the best ones are too close to call', async () => {
+    const result = await handleResolveNoteId({ noteName: 'notes', maxResults: 5 }, createMockAxios([
+      { noteId: 'a', title: 'Notes A', type: 'text', dateModified: '2024-01-01', attributes: [] },
+      { noteId: 'b', title: 'Notes B', type: 'text', dateModified: '2024-02-01', attributes: [] }
+    ]));
+
+    assert.equal(result.requiresUserChoice, true);
+    assert.deepEqual(result.topMatches.map(match => [match.noteId, match.score, match.matchedField]), [
+      ['b', result.topMatches[0].score, 'title'],
+      ['a', result.topMatches[0].score, 'title']
+    ]);
+  });
+
+  it('requires equality after folding with exactMatch', async () => {
+    const axios = createMockAxios();
+    const result = await handleResolveNoteId({ noteName: 'projectx', exactMatch: true }, axios);
+    assert.equal(result.noteId, 'projX');
+    assert.ok(!axios.searches()[0].includes('*=*'));
+
+    const missing = await handleResolveNoteId({ noteName: 'ProjX', exactMatch: true }, createMockAxios());
+    assert.equal(missing.found, false);
+  });
+});
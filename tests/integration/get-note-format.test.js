@@ -0,0 +1,97 @@
+/**
+ * Test get_note content formats and the Markdown round trip through update_note against a mocked ETAPI
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+
+import { handleGetNote, handleUpdateNote } from '../../build/modules/noteManager.js';
+import { createMockEtapi } from './helpers/mockEtapi.js';
+
+/**
+ * Mock ETAPI that only takes content writes and same-title patches
+ */
+function createMockAxios(notes) {
+  const unexpected = method => [method, /.*/, match => {
+    throw new Error(`Unexpected ${method} ${match[0]}`);
+  }];
+  return createMockEtapi({
+    notes,
+    routes: [
+      ['PATCH', '/notes/note1', (_, data) => {
+        if (data.title !== notes.note1.title) {
+          throw new Error(`Unexpected rename to ${data.title}`);
+        }
+      }],
+      unexpected('POST'),
+      unexpected('DELETE')
+    ]
+  });
+}
+
+function createNotes() {
+  return {
+    note1: {
+      noteId: 'note1',
+      title: 'Weekly Review',
+      type: 'text',
+      blobId: 'blob1',
+      attributes: [
+        { attributeId: 'a1', noteId: 'note1', type: 'label', name: 'status', value: 'draft' },
+        { attributeId: 'a2', noteId: 'note1', type: 'relation', name: 'author', value: 'jane' },
+        { attributeId: 'a3', noteId: 'parent', type: 'label', name: 'inherited', value: 'x' }
+      ],
+      content: '<h2>Tasks</h2><ul><li>Check <a class="reference-link" href="#root/jane">Jane Doe</a></li></ul>'
+    },
+    jane: { noteId: 'jane', title: 'Jane Doe', type: 'text', blobId: 'blob2', attributes: [], content: '' }
+  };
+}
+
+describe('get_note formats', () => {
+
+  it('should return Markdown with frontmatter and keep the content hash', async () => {
+    const notes = createNotes();
+    const result = await handleGetNote({ noteId: 'note1', format: 'markdown' }, createMockAxios(notes));
+
+    assert.equal(result.contentHash, 'blob1');
+    assert.equal(result.contentFormat, 'markdown');
+    assert.equal(
+      result.content,
+      '---\ntitle: Weekly Review\nstatus: draft\n~author: Jane Doe\n---\n## Tasks\n\n- Check [Jane Doe](trilium:jane)'
+    );
+  });
+
+  it('should return plain text and leave non-text notes as stored', async () => {
+    const notes = createNotes();
+    notes.code1 = { noteId: 'code1', title: 'Script', type: 'code', blobId: 'blob3', attributes: [], content: 'let a = 1;' };
+    const axios = createMockAxios(notes);
+
+    const text = await handleGetNote({ noteId: 'note1', format: 'text' }, axios);
+    assert.equal(text.content, 'Tasks\n- Check Jane Doe');
+
+    const code = await handleGetNote({ noteId: 'code1', format: 'markdown' }, axios);
+    assert.equal(code.content, 'let a = 1;');
+    assert.equal(code.contentFormat, undefined);
+  });
+
+  it('should write edited Markdown back with a conflict-checked update', async () => {
+    const notes = createNotes();
+    const axios = createMockAxios(notes);
+    const { content, contentHash } = await handleGetNote({ noteId: 'note1', format: 'markdown' }, axios);
+
+    const result = await handleUpdateNote({
+      noteId: 'note1', type: 'text', mode: 'overwrite', expectedHash: contentHash, revision: false,
+      content: content.replace('- Check', '- Call')
+    }, axios);
+
+    assert.match(result.message, /attributes already up to date/);
+    assert.equal(
+      notes.note1.content.replace(/\n/g, ''),
+      '<h2>Tasks</h2><ul><li>Call <a class="reference-link" href="#root/jane">Jane Doe</a></li></ul>'
+    );
+  });
+
+  it('should reject unknown formats', async () => {
+    await assert.rejects(handleGetNote({ noteId: 'note1', format: 'pdf' }, createMockAxios(createNotes())), /Invalid format/);
+  });
+});
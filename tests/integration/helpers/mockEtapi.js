@@ -0,0 +1,356 @@
+/**
+ * In-memory ETAPI shared by the integration tests
+ *
+ * Serves notes (with content and own attributes), branches, attributes and attachments
+ * through an axios-like object, and evaluates the search expressions built by
+ * searchQueryBuilder. Tests extend it with `routes` for anything specific (exports,
+ * imports, injected failures) and inspect `calls` and the state afterwards.
+ */
+
+/**
+ * Create a mock ETAPI
+ * - notes: { noteId: { title, type, content, attributes, parentNoteIds, ... } }
+ * - branches: placements; derived from the notes' parentNoteIds when omitted
+ * - search: (query) => noteIds, instead of evaluating the query
+ * - routes: [[method, RegExp or exact url, (match, data, config) => response]], tried first;
+ *   a route returning undefined falls through to the next one
+ * - readOnly: fail on any write (for dry runs)
+ * - idPrefix: prefix of the noteIds given to created notes (default 'n')
+ */
+export function createMockEtapi({ notes = {}, branches, search: findNoteIds, routes = [], readOnly = false, idPrefix = 'n' } = {}) {
+  const calls = [];
+  const counters = { note: 0, attribute: 0, attachment: 0, blob: 0 };
+
+  for (const [noteId, note] of Object.entries(notes)) {
+    note.noteId = noteId;
+    note.attributes = note.attributes || [];
+  }
+
+  const branchList = branches || Object.values(notes).flatMap(note =>
+    (note.parentNoteIds || []).map((parentNoteId, index) => ({
+      branchId: `${parentNoteId}_${note.noteId}`,
+      noteId: note.noteId,
+      parentNoteId,
+      notePosition: (index + 1) * 10,
+      prefix: null
+    })));
+
+  const notFound = url => Object.assign(new Error(`Not found: ${url}`), { response: { status: 404 } });
+
+  const getNote = (noteId, url) => {
+    const note = notes[noteId];
+    if (!note) throw notFound(url);
+    return note;
+  };
+
+  /**
+   * The note as ETAPI returns it: no content, placements derived from the branches
+   */
+  const view = note => {
+    const { content, ...rest } = note;
+    const parentBranches = branchList.filter(b => b.noteId === note.noteId);
+    return structuredClone({
+      ...rest,
+      parentNoteIds: parentBranches.length > 0 || !note.parentNoteIds ? parentBranches.map(b => b.parentNoteId) : note.parentNoteIds,
+      parentBranchIds: parentBranches.map(b => b.branchId),
+      childBranchIds: branchList.filter(b => b.parentNoteId === note.noteId).map(b => b.branchId)
+    });
+  };
+
+  const findAttribute = attributeId => {
+    for (const note of Object.values(notes)) {
+      const attribute = note.attributes.find(a => a.attributeId === attributeId);
+      if (attribute) return { note, attribute };
+    }
+    throw notFound(`/attributes/${attributeId}`);
+  };
+
+  const deleteNote = noteId => {
+    for (const branch of branchList.filter(b => b.parentNoteId === noteId)) {
+      removeBranch(branch);
+    }
+    for (const branch of branchList.filter(b => b.noteId === noteId)) {
+      branchList.splice(branchList.indexOf(branch), 1);
+    }
+    delete notes[noteId];
+  };
+
+  // Deleting the last branch of a note deletes the note (and its subtree)
+  const removeBranch = branch => {
+    branchList.splice(branchList.indexOf(branch), 1);
+    if (!branchList.some(b => b.noteId === branch.noteId)) {
+      deleteNote(branch.noteId);
+    }
+  };
+
+  const parentsOf = noteId => {
+    const placed = branchList.filter(b => b.noteId === noteId).map(b => b.parentNoteId);
+    return placed.length > 0 ? placed : (notes[noteId]?.parentNoteIds || []);
+  };
+
+  const isDescendant = (noteId, ancestorId, seen = new Set()) => parentsOf(noteId).some(parentId => {
+    if (parentId === ancestorId) return true;
+    if (seen.has(parentId)) return false;
+    seen.add(parentId);
+    return isDescendant(parentId, ancestorId, seen);
+  });
+
+  const search = query => {
+    if (findNoteIds) {
+      return findNoteIds(query).map(noteId => view(notes[noteId]));
+    }
+    const { expression, limit } = parseSearch(query);
+    const results = Object.values(notes)
+      .filter(note => note.noteId !== 'root' && matchesExpression(note, expression, { parentsOf, isDescendant }))
+      .map(view);
+    return limit ? results.slice(0, limit) : results;
+  };
+
+  const defaults = {
+    GET: [
+      [/^\/notes\?(.*)$/, match => ({ status: 200, data: { results: search(new URLSearchParams(match[1]).get('search')) } })],
+      [/^\/notes\/([^/?]+)$/, match => ({ status: 200, data: view(getNote(match[1], match[0])) })],
+      [/^\/notes\/([^/?]+)\/content$/, match => ({ status: 200, data: getNote(match[1], match[0]).content ?? '' })],
+      [/^\/branches\/([^/?]+)$/, match => {
+        const branch = branchList.find(b => b.branchId === match[1]);
+        if (!branch) throw notFound(match[0]);
+        return { status: 200, data: { ...branch } };
+      }]
+    ],
+    POST: [
+      ['/create-note', (_, data) => {
+        const noteId = `${idPrefix}${++counters.note}`;
+        notes[noteId] = { ...data, noteId, blobId: `${noteId}-v${++counters.blob}`, attributes: [] };
+        const branch = { branchId: `${data.parentNoteId}_${noteId}`, noteId, parentNoteId: data.parentNoteId, notePosition: 10, prefix: null };
+        branchList.push(branch);
+        return { status: 201, data: { note: view(notes[noteId]), branch } };
+      }],
+      ['/attributes', (_, data) => {
+        const attribute = { attributeId: `attr${++counters.attribute}`, ...data };
+        getNote(data.noteId, '/attributes').attributes.push(attribute);
+        return { status: 201, data: attribute };
+      }],
+      ['/branches', (_, data) => {
+        const existing = branchList.find(b => b.noteId === data.noteId && b.parentNoteId === data.parentNoteId);
+        if (existing) {
+          Object.assign(existing, data);
+          return { status: 200, data: { ...existing } };
+        }
+        const branch = { branchId: `${data.parentNoteId}_${data.noteId}`, prefix: null, notePosition: 10, ...data };
+        branchList.push(branch);
+        return { status: 201, data: { ...branch } };
+      }],
+      ['/attachments', () => ({ status: 201, data: { attachmentId: `att${++counters.attachment}` } })],
+      [/^\/notes\/([^/]+)\/revision$/, () => ({ status: 204, data: {} })],
+      [/^\/refresh-note-ordering\/([^/]+)$/, () => ({ status: 200, data: {} })]
+    ],
+    PUT: [
+      [/^\/notes\/([^/]+)\/content$/, (match, data) => {
+        const note = getNote(match[1], match[0]);
+        note.content = data;
+        // A fresh blobId per write, never one of the fixtures' own
+        note.blobId = `${note.noteId}-v${++counters.blob}`;
+        return { status: 204 };
+      }],
+      [/^\/attachments\/([^/]+)\/content$/, async (_, data) => {
+        // Attachment uploads are streams: drain them
+        for await (const chunk of data) { void chunk; }
+        return { status: 204 };
+      }]
+    ],
+    PATCH: [
+      [/^\/notes\/([^/]+)$/, (match, data) => {
+        Object.assign(getNote(match[1], match[0]), data);
+        return { status: 200, data: view(notes[match[1]]) };
+      }],
+      [/^\/attributes\/([^/]+)$/, (match, data) => {
+        const { attribute } = findAttribute(match[1]);
+        Object.assign(attribute, data);
+        return { status: 200, data: { ...attribute } };
+      }],
+      [/^\/branches\/([^/]+)$/, (match, data) => {
+        const branch = branchList.find(b => b.branchId === match[1]);
+        if (!branch) throw notFound(match[0]);
+        Object.assign(branch, data);
+        return { status: 200, data: { ...branch } };
+      }]
+    ],
+    DELETE: [
+      [/^\/notes\/([^/]+)$/, match => {
+        getNote(match[1], match[0]);
+        deleteNote(match[1]);
+        return { status: 204, data: {} };
+      }],
+      [/^\/attributes\/([^/]+)$/, match => {
+        const { note, attribute } = findAttribute(match[1]);
+        note.attributes.splice(note.attributes.indexOf(attribute), 1);
+        return { status: 204, data: {} };
+      }],
+      [/^\/branches\/([^/]+)$/, match => {
+        const branch = branchList.find(b => b.branchId === match[1]);
+        if (!branch) throw notFound(match[0]);
+        removeBranch(branch);
+        return { status: 204, data: {} };
+      }]
+    ]
+  };
+
+  const dispatch = async (method, url, data, config) => {
+    calls.push(data === undefined ? [method, url] : [method, url, data]);
+
+    const custom = routes.filter(([routeMethod]) => routeMethod === method).map(([, pattern, handler]) => [pattern, handler]);
+    if (readOnly && method !== 'GET' && custom.length === 0) {
+      throw new Error(`Unexpected ${method} ${url} on a read-only ETAPI`);
+    }
+
+    for (const [pattern, handler] of [...custom, ...defaults[method]]) {
+      const match = typeof pattern === 'string' ? (pattern === url ? [url] : null) : url.match(pattern);
+      if (match) {
+        const response = await handler(match, data, config);
+        // A route returning nothing passes the request on (e.g. to inject a failure only for some data)
+        if (response !== undefined) {
+          return response;
+        }
+      }
+    }
+    throw new Error(`Unexpected ${method} ${url}`);
+  };
+
+  return {
+    notes,
+    branches: branchList,
+    calls,
+    /**
+     * URLs requested with a method, in order
+     */
+    urls(method = 'GET') {
+      return calls.filter(([callMethod]) => callMethod === method).map(([, url]) => url);
+    },
+    /**
+     * Search expressions sent to ETAPI, in order
+     */
+    searches() {
+      return this.urls().filter(url => url.startsWith('/notes?')).map(url => new URLSearchParams(url.slice('/notes?'.length)).get('search'));
+    },
+    get: (url, config) => dispatch('GET', url, undefined, config),
+    post: (url, data, config) => dispatch('POST', url, data, config),
+    put: (url, data, config) => dispatch('PUT', url, data, config),
+    patch: (url, data, config) => dispatch('PATCH', url, data, config),
+    delete: (url, config) => dispatch('DELETE', url, undefined, config)
+  };
+}
+
+/**
+ * Fold text like Trilium's search does: case- and diacritic-insensitive
+ */
+function fold(text) {
+  return String(text ?? '').normalize('NFD').replace(/\p{M}+/gu, '').toLowerCase();
+}
+
+const TERM_PATTERN = /^(note\.[\w.]+|#[\w:]+|~(?:[\w:]+|\*)(?:\.noteId)?)(?:\s*(\*=\*|=\*|\*=|!=|>=|<=|=|>|<|%=)\s*('(?:[^'\\]|\\.)*'|[^\s)]+))?/;
+
+/**
+ * Parse a search query into AND-ed items, plus its limit
+ * An item is a term, or an OR group ~(a OR b c) whose alternatives are AND-ed terms.
+ */
+function parseSearch(query) {
+  let rest = query.trim();
+  let limit;
+  const limitMatch = rest.match(/\s+limit\s+(\d+)$/);
+  if (limitMatch) {
+    limit = Number(limitMatch[1]);
+    rest = rest.slice(0, limitMatch.index);
+  }
+
+  const fail = () => {
+    throw new Error(`Mock ETAPI cannot evaluate search '${query}'`);
+  };
+
+  // Index of the parenthesis closing the group opened just before start, skipping quoted values
+  const closingParen = (text, start) => {
+    for (let i = start, depth = 1, quoted = false; i < text.length; i++) {
+      if (text[i] === '\\') i++;
+      else if (text[i] === "'") quoted = !quoted;
+      else if (!quoted && text[i] === '(') depth++;
+      else if (!quoted && text[i] === ')' && --depth === 0) return i;
+    }
+    return fail();
+  };
+
+  const parseItems = text => {
+    const items = [];
+    let remaining = text.trim();
+    while (remaining) {
+      if (remaining.startsWith('~(')) {
+        const end = closingParen(remaining, 2);
+        const alternatives = remaining.slice(2, end).split(/\s+OR\s+(?=(?:[^']*'[^']*')*[^']*$)/);
+        items.push({ any: alternatives.map(parseItems) });
+        remaining = remaining.slice(end + 1).trim();
+        continue;
+      }
+      const match = remaining.match(TERM_PATTERN) || fail();
+      const value = match[3]?.startsWith("'") ? match[3].slice(1, -1).replace(/\\(.)/g, '$1') : match[3];
+      items.push({ field: match[1], op: match[2], value });
+      remaining = remaining.slice(match[0].length).trim();
+    }
+    return items;
+  };
+
+  return { expression: parseItems(rest), limit };
+}
+
+function matchesExpression(note, items, tree) {
+  return items.every(item => item.any
+    ? item.any.some(alternative => matchesExpression(note, alternative, tree))
+    : matchesTerm(note, item, tree));
+}
+
+function compare(actual, op, expected) {
+  if (op === undefined) return actual !== undefined && actual !== null;
+  const a = fold(actual);
+  const b = fold(expected);
+  // Numbers compare numerically, anything else (dates included) as strings, like Trilium
+  const numeric = a !== '' && b !== '' && !isNaN(a) && !isNaN(b);
+  const order = numeric ? Number(a) - Number(b) : (a < b ? -1 : a > b ? 1 : 0);
+  switch (op) {
+    case '=': return a === b;
+    case '!=': return a !== b;
+    case '*=*': return a.includes(b);
+    case '=*': return a.startsWith(b);
+    case '*=': return a.endsWith(b);
+    case '%=': return new RegExp(expected).test(String(actual));
+    case '>': return order > 0;
+    case '<': return order < 0;
+    case '>=': return order >= 0;
+    case '<=': return order <= 0;
+    default: throw new Error(`Mock ETAPI cannot evaluate operator ${op}`);
+  }
+}
+
+function matchesTerm(note, { field, op, value }, { parentsOf, isDescendant }) {
+  if (field.startsWith('#') || field.startsWith('~')) {
+    const type = field.startsWith('#') ? 'label' : 'relation';
+    // ~name.noteId compares the relation target like ~name; ~* matches relations of any name
+    const name = field.slice(1).replace(/\.noteId$/, '');
+    return note.attributes.some(a => a.type === type && (a.name === name || (type === 'relation' && name === '*'))
+      && compare(a.value ?? '', op, value));
+  }
+
+  switch (field) {
+    case 'note.parents.noteId':
+      return parentsOf(note.noteId).some(parentId => compare(parentId, op, value));
+    case 'note.ancestors.noteId':
+      return op === '=' ? isDescendant(note.noteId, value) : false;
+    case 'note.relationCount':
+      return compare(note.attributes.filter(a => a.type === 'relation').length, op, value);
+    case 'note.labelCount':
+      return compare(note.attributes.filter(a => a.type === 'label').length, op, value);
+    default: {
+      const property = field.slice('note.'.length);
+      if (property.includes('.')) {
+        throw new Error(`Mock ETAPI cannot evaluate ${field}`);
+      }
+      return compare(note[property], op, value);
+    }
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Test the Streamable HTTP transport: auth, health, sessions and request body limits
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it, before, after } from 'node:test';
+import net from 'node:net';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+
+import { startHttpTransport } from '../../build/modules/httpTransport.js';
+
+const AUTH_TOKEN = 'test-token';
+const HEADERS = {
+  'Authorization': `Bearer ${AUTH_TOKEN}`,
+  'Content-Type': 'application/json',
+  'Accept': 'application/json, text/event-stream'
+};
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+};
+
+async function getFreePort() {
+  const probe = net.createServer();
+  await new Promise(resolve => probe.listen(0, '127.0.0.1', resolve));
+  const { port } = probe.address();
+  await new Promise(resolve => probe.close(resolve));
+  return port;
+}
+
+describe('HTTP transport', () => {
+  let handle;
+  let baseUrl;
+
+  before(async () => {
+    const port = await getFreePort();
+    baseUrl = `http://127.0.0.1:${port}`;
+    handle = await startHttpTransport(
+      () => new Server({ name: 'test-server', version: '1.0.0' }, { capabilities: {} }),
+      { host: '127.0.0.1', port, authToken: AUTH_TOKEN, maxBodySize: 1024 }
+    );
+  });
+
+  after(async () => {
+    await handle.close();
+  });
+
+  async function initialize() {
+    const response = await fetch(`${baseUrl}/mcp`, { method: 'POST', headers: HEADERS, body: JSON.stringify(INITIALIZE) });
+    assert.equal(response.status, 200);
+    const sessionId = response.headers.get('mcp-session-id');
+    assert.ok(sessionId);
+    assert.match(await response.text(), /"serverInfo"/);
+    return sessionId;
+  }
+
+  it('answers /health without authentication', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+    assert.equal(response.status, 200);
+    const body = await response.json();
+    assert.equal(body.status, 'ok');
+    assert.equal(typeof body.sessions, 'number');
+  });
+
+  it('rejects missing or wrong bearer tokens with 401', async () => {
+    for (const authorization of [undefined, 'Bearer wrong-token']) {
+      const headers = { ...HEADERS };
+      if (authorization) headers.Authorization = authorization;
+      else delete headers.Authorization;
+
+      const response = await fetch(`${baseUrl}/mcp`, { method: 'POST', headers, body: JSON.stringify(INITIALIZE) });
+      assert.equal(response.status, 401);
+      assert.match(response.headers.get('www-authenticate'), /^Bearer/);
+    }
+  });
+
+  it('creates a session on initialize, reuses it and closes it on DELETE', async () => {
+    const sessionId = await initialize();
+    const sessionHeaders = { ...HEADERS, 'mcp-session-id': sessionId, 'mcp-protocol-version': '2025-03-26' };
+
+    const ping = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: sessionHeaders,
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'ping' })
+    });
+    assert.equal(ping.status, 200);
+    assert.match(await ping.text(), /"id":2/);
+
+    const health = await (await fetch(`${baseUrl}/health`)).json();
+    assert.ok(health.sessions >= 1);
+
+    const deleted = await fetch(`${baseUrl}/mcp`, { method: 'DELETE', headers: sessionHeaders });
+    assert.equal(deleted.status, 200);
+
+    const afterDelete = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: sessionHeaders,
+      body: JSON.stringify({ jsonrpc: '2.0', id: 3, method: 'ping' })
+    });
+    assert.equal(afterDelete.status, 404);
+  });
+
+  it('answers unknown session ids with 404 and session-less requests with 400', async () => {
+    const unknown = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...HEADERS, 'mcp-session-id': 'no-such-session' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' })
+    });
+    assert.equal(unknown.status, 404);
+    assert.match((await unknown.json()).error.message, /Session not found: no-such-session/);
+
+    const noSession = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: HEADERS,
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' })
+    });
+    assert.equal(noSession.status, 400);
+  });
+
+  it('rejects malformed JSON with a 400 JSON-RPC parse error', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, { method: 'POST', headers: HEADERS, body: '{"jsonrpc": "2.0",' });
+    assert.equal(response.status, 400);
+    const body = await response.json();
+    assert.equal(body.error.code, -32700);
+    assert.match(body.error.message, /Parse error/);
+  });
+
+  it('rejects bodies above the size limit with 413', async () => {
+    const oversized = JSON.stringify({ ...INITIALIZE, padding: 'x'.repeat(2048) });
+    const response = await fetch(`${baseUrl}/mcp`, { method: 'POST', headers: HEADERS, body: oversized });
+    assert.equal(response.status, 413);
+    assert.match((await response.json()).error.message, /Request body too large/);
+
+    // Without Content-Length the limit is enforced while reading
+    const chunked = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: HEADERS,
+      body: new Blob([oversized]).stream(),
+      duplex: 'half'
+    });
+    assert.equal(chunked.status, 413);
+  });
+});
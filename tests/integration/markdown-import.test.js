@@ -0,0 +1,123 @@
+/**
+ * Test import_markdown_directory against a temporary directory and a mocked ETAPI
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { handleImportMarkdownDirectory } from '../../build/modules/markdownImportManager.js';
+import { createMockEtapi } from './helpers/mockEtapi.js';
+
+const byTitle = (notes, title) => Object.values(notes).find(n => n.title === title);
+
+describe('Markdown Directory Import', () => {
+  let dir;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'trilium-md-'));
+    fs.mkdirSync(path.join(dir, 'guide'));
+    fs.mkdirSync(path.join(dir, '.git'));
+    fs.writeFileSync(path.join(dir, 'index.md'), '# Home\n\nSee [setup](guide/setup.md#install) and ![logo](logo.png).\n');
+    fs.writeFileSync(path.join(dir, 'logo.png'), Buffer.from('89504e470d0a1a0a', 'hex'));
+    fs.writeFileSync(path.join(dir, 'guide', 'setup.md'), 'Back to [home](../index.md), see [old](missing.md).\n');
+    fs.writeFileSync(path.join(dir, '.git', 'notes.md'), 'hidden');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should mirror folders, convert Markdown and rewrite links and images', async () => {
+    const mockAxios = createMockEtapi();
+
+    const result = await handleImportMarkdownDirectory({ directoryPath: dir, parentNoteId: 'root' }, mockAxios);
+    const { notes } = mockAxios;
+
+    const rootNote = notes[result.rootNoteId];
+    const guide = byTitle(notes, 'guide');
+    const index = byTitle(notes, 'index');
+    const setup = byTitle(notes, 'setup');
+
+    assert.equal(rootNote.type, 'book');
+    assert.equal(guide.type, 'book');
+    assert.equal(setup.parentNoteId, guide.noteId);
+    assert.equal(byTitle(notes, 'notes'), undefined);
+    assert.match(index.content, /<h1[^>]*>Home<\/h1>/);
+    assert.match(index.content, new RegExp(`<a class="reference-link" href="#root/${setup.noteId}">setup</a>`));
+    assert.match(index.content, /<img src="api\/attachments\/att\d+\/image\/logo\.png" alt="logo">/);
+    assert.match(setup.content, new RegExp(`href="#root/${index.noteId}"`));
+    assert.deepEqual(result.unresolvedLinks, [{ sourcePath: 'guide/setup.md', link: 'missing.md' }]);
+    assert.equal(result.imagesUploaded, 1);
+    assert.deepEqual(result.entries.map(e => [e.sourcePath, e.status]), [
+      ['guide', 'created'], ['guide/setup.md', 'created'], ['index.md', 'created']
+    ]);
+  });
+
+  it('should skip unchanged files and update changed ones on re-import', async () => {
+    const mockAxios = createMockEtapi();
+    const first = await handleImportMarkdownDirectory({ directoryPath: dir, parentNoteId: 'root' }, mockAxios);
+    const noteCount = Object.keys(mockAxios.notes).length;
+
+    fs.writeFileSync(path.join(dir, 'guide', 'setup.md'), 'Updated steps.\n');
+    mockAxios.calls.length = 0;
+    const second = await handleImportMarkdownDirectory({ directoryPath: dir, parentNoteId: 'root' }, mockAxios);
+
+    assert.equal(second.rootNoteId, first.rootNoteId);
+    assert.equal(Object.keys(mockAxios.notes).length, noteCount);
+    assert.deepEqual(second.entries.map(e => [e.sourcePath, e.status]), [
+      ['guide', 'unchanged'], ['guide/setup.md', 'updated'], ['index.md', 'unchanged']
+    ]);
+    assert.equal(byTitle(mockAxios.notes, 'setup').content.trim(), '<p>Updated steps.</p>');
+    assert.deepEqual(mockAxios.urls('PUT'), [
+      `/notes/${byTitle(mockAxios.notes, 'setup').noteId}/content`
+    ]);
+  });
+
+  it('should not upload images from outside the imported directory', async () => {
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'trilium-md-outside-'));
+    try {
+      fs.writeFileSync(path.join(outside, 'secret.png'), Buffer.from('89504e470d0a1a0a', 'hex'));
+      const escape = path.relative(path.join(dir, 'guide'), path.join(outside, 'secret.png')).split(path.sep).join('/');
+      fs.writeFileSync(path.join(dir, 'guide', 'setup.md'), `![secret](${escape}) ![logo](../logo.png)\n`);
+      const mockAxios = createMockEtapi();
+
+      const result = await handleImportMarkdownDirectory({ directoryPath: dir, parentNoteId: 'root' }, mockAxios);
+
+      assert.deepEqual(result.missingImages, [{ sourcePath: 'guide/setup.md', image: escape }]);
+      assert.equal(result.imagesUploaded, 2);
+      assert.match(byTitle(mockAxios.notes, 'setup').content, new RegExp(`<img src="${escape.replace(/\./g, '\\.')}"`));
+    } finally {
+      fs.rmSync(outside, { recursive: true, force: true });
+    }
+  });
+
+  it('should not follow symbolic links out of the imported directory', async () => {
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'trilium-md-outside-'));
+    try {
+      fs.writeFileSync(path.join(outside, 'secret.png'), Buffer.from('89504e470d0a1a0a', 'hex'));
+      fs.symlinkSync(path.join(outside, 'secret.png'), path.join(dir, 'guide', 'img.png'));
+      fs.writeFileSync(path.join(dir, 'guide', 'setup.md'), '![secret](img.png)\n');
+      const mockAxios = createMockEtapi();
+
+      const result = await handleImportMarkdownDirectory({ directoryPath: dir, parentNoteId: 'root' }, mockAxios);
+
+      assert.deepEqual(result.missingImages, [{ sourcePath: 'guide/setup.md', image: 'img.png' }]);
+      assert.equal(result.imagesUploaded, 1);
+    } finally {
+      fs.rmSync(outside, { recursive: true, force: true });
+    }
+  });
+
+  it('should merge the reference-link class into an existing class', async () => {
+    fs.writeFileSync(path.join(dir, 'guide', 'setup.md'), '<a class="button" href="../index.md">Home</a>\n');
+    const mockAxios = createMockEtapi();
+
+    await handleImportMarkdownDirectory({ directoryPath: dir, parentNoteId: 'root' }, mockAxios);
+
+    const index = byTitle(mockAxios.notes, 'index');
+    assert.match(byTitle(mockAxios.notes, 'setup').content, new RegExp(`<a class="reference-link button" href="#root/${index.noteId}">Home</a>`));
+  });
+});
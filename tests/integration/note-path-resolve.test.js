@@ -0,0 +1,132 @@
+/**
+ * Test resolve_note_id with path expressions ('Work/ProjectX/Meeting Notes', '~/Journal/2024')
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+
+import { handleResolveNoteId, parseNotePath } from '../../build/modules/resolveManager.js';
+import { createMockEtapi } from './helpers/mockEtapi.js';
+
+// noteId -> [title, parentNoteIds]
+const TREE = {
+  root: ['root', []],
+  work: ['Work', ['root']],
+  projX: ['ProjectX', ['work']],
+  projXOld: ['ProjectX Old', ['work']],
+  projXArchive: ['Archive of projectx', ['work']],
+  meetX: ['Meeting Notes', ['projX']],
+  meetOld: ['Meeting Notes', ['projXOld']],
+  budget: ['Budget', ['projX']],
+  journal: ['Journal', ['root']],
+  journalArchive: ['Journal Archive', ['root']],
+  y2024: ['2024', ['journal']],
+  y2024a: ['2024', ['journalArchive']],
+  team: ['Team', ['root']],
+  // Clone of ProjectX below Team
+  teamProj: ['Team ProjectX', ['team']],
+  tcp: ['TCP/IP', ['root']]
+};
+
+function createMockAxios() {
+  const notes = Object.fromEntries(Object.entries(TREE).map(([noteId, [title, parentNoteIds]]) =>
+    [noteId, { title, type: 'text', parentNoteIds, dateModified: '2024-01-01' }]));
+  return createMockEtapi({ notes });
+}
+
+describe('Path resolution', () => {
+  it('parses path expressions', () => {
+    assert.equal(parseNotePath('Meeting Notes'), null);
+    assert.deepEqual(parseNotePath('Work/ProjectX/ Meeting Notes'), { anchored: false, segments: ['Work', 'ProjectX', 'Meeting Notes'] });
+    assert.deepEqual(parseNotePath('~/Journal/2024/'), { anchored: true, segments: ['Journal', '2024'] });
+    assert.deepEqual(parseNotePath('/Journal'), { anchored: true, segments: ['Journal'] });
+    assert.deepEqual(parseNotePath('~'), { anchored: true, segments: [] });
+    assert.deepEqual(parseNotePath('Docs/TCP\\/IP'), { anchored: false, segments: ['Docs', 'TCP/IP'] });
+    assert.equal(parseNotePath('TCP\\/IP'), null);
+  });
+
+  it('walks children segment by segment, preferring exact matches', async () => {
+    const result = await handleResolveNoteId({ noteName: 'Work/ProjectX/Meeting Notes' }, createMockAxios());
+
+    assert.equal(result.noteId, 'meetX');
+    assert.deepEqual(result.resolvedPath.map(step => step.noteId), ['work', 'projX', 'meetX']);
+  });
+
+  it('anchors ~/ paths at root and matches segments case-insensitively', async () => {
+    const axios = createMockAxios();
+    const result = await handleResolveNoteId({ noteName: '~/journal/2024' }, axios);
+
+    assert.equal(result.noteId, 'y2024');
+    assert.equal(axios.searches()[0], "note.parents.noteId = 'root'");
+  });
+
+  it('falls back to prefix and substring matches per segment', async () => {
+    const result = await handleResolveNoteId({ noteName: 'wor/projectx/budg' }, createMockAxios());
+    assert.equal(result.noteId, 'budget');
+  });
+
+  it('reports the segment where an ambiguous path forked', async () => {
+    const result = await handleResolveNoteId({ noteName: 'Work/Proj/Meeting Notes' }, createMockAxios());
+
+    assert.equal(result.noteId, null);
+    assert.equal(result.requiresUserChoice, true);
+    assert.equal(result.matches, 2);
+    assert.match(result.nextSteps, /ambiguous at segment 2 "Proj", which matches "Work \/ ProjectX", "Work \/ ProjectX Old"/);
+    assert.deepEqual(result.topMatches.map(match => match.paths[0]), [
+      'Work / ProjectX / Meeting Notes',
+      'Work / ProjectX Old / Meeting Notes'
+    ]);
+
+    const selected = await handleResolveNoteId({ noteName: 'Work/Proj/Meeting Notes', autoSelect: true }, createMockAxios());
+    assert.equal(selected.noteId, 'meetX');
+  });
+
+  it('names the segment that has no match', async () => {
+    const result = await handleResolveNoteId({ noteName: '~/Work/ProjectY/Notes' }, createMockAxios());
+
+    assert.equal(result.found, false);
+    assert.match(result.nextSteps, /no match for segment 2 "ProjectY" below "Work"; the closest titles there are "ProjectX"/);
+  });
+
+  it('reports exact and substring segment matches in the resolved path', async () => {
+    const result = await handleResolveNoteId({ noteName: 'Work/projectx/budg' }, createMockAxios());
+
+    assert.deepEqual(result.resolvedPath.map(step => [step.title, step.matchType]), [
+      ['Work', 'exact'],
+      ['ProjectX', 'folded'],
+      ['Budget', 'prefix']
+    ]);
+    assert.deepEqual(result.resolvedPath.map(step => step.score), [1, 1, result.resolvedPath[2].score]);
+    assert.ok(result.resolvedPath[2].score >= 0.85);
+  });
+
+  it('tolerates typos in segments and reports them', async () => {
+    const result = await handleResolveNoteId({ noteName: '~/Wrok/ProjectX/Meeting Notse' }, createMockAxios());
+
+    assert.equal(result.noteId, 'meetX');
+    assert.deepEqual(result.resolvedPath.map(step => step.matchType), ['fuzzy', 'exact', 'fuzzy']);
+    assert.ok(result.resolvedPath[0].score < 0.8);
+  });
+
+  it('walks a typo match with close siblings only with autoSelect', async () => {
+    const selected = await handleResolveNoteId({ noteName: '~/Work/ProjectY/Meeting Notes', autoSelect: true }, createMockAxios());
+
+    assert.equal(selected.noteId, 'meetX');
+    assert.equal(selected.resolvedPath[1].matchType, 'fuzzy');
+  });
+
+  it('falls back to title search for titles containing slashes', async () => {
+    const result = await handleResolveNoteId({ noteName: 'TCP/IP' }, createMockAxios());
+
+    assert.equal(result.noteId, 'tcp');
+    assert.equal(result.resolvedPath, undefined);
+  });
+
+  it('resolves ~ to the root note', async () => {
+    const result = await handleResolveNoteId({ noteName: '~' }, createMockAxios());
+    assert.equal(result.noteId, 'root');
+
+    const withPaths = await handleResolveNoteId({ noteName: '~', includePaths: true }, createMockAxios());
+    assert.deepEqual(withPaths.paths, ['root']);
+  });
+});
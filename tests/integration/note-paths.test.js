@@ -0,0 +1,115 @@
+/**
+ * Test breadcrumb paths (includePaths) in search, resolve and get results
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+
+import { handleSearchNotes } from '../../build/modules/searchManager.js';
+import { handleResolveNoteId } from '../../build/modules/resolveManager.js';
+import { handleGetNote } from '../../build/modules/noteManager.js';
+import { NotePathResolver } from '../../build/modules/notePathManager.js';
+import { createMockEtapi } from './helpers/mockEtapi.js';
+
+const NOTES = {
+  root: { noteId: 'root', title: 'root', type: 'book', parentNoteIds: ['none'] },
+  work: { noteId: 'work', title: 'Work', type: 'book', parentNoteIds: ['root'] },
+  projX: { noteId: 'projX', title: 'ProjectX', type: 'book', parentNoteIds: ['work'] },
+  projY: { noteId: 'projY', title: 'ProjectY', type: 'book', parentNoteIds: ['work'] },
+  shared: { noteId: 'shared', title: 'Shared', type: 'book', parentNoteIds: ['root'] },
+  meetX: { noteId: 'meetX', title: 'Meeting Notes', type: 'text', parentNoteIds: ['projX'], dateModified: '2024-01-02', content: '<p>Agenda</p>' },
+  // Cloned into ProjectY and Shared
+  meetY: { noteId: 'meetY', title: 'Meeting Notes', type: 'text', parentNoteIds: ['projY', 'shared'], dateModified: '2024-01-01' }
+};
+
+/**
+ * Mock ETAPI where every search finds both Meeting Notes
+ */
+function createMockAxios() {
+  return createMockEtapi({ notes: structuredClone(NOTES), search: () => ['meetX', 'meetY'] });
+}
+
+describe('Note paths', () => {
+  it('adds one path per branch to search results and fetches each parent once', async () => {
+    const axios = createMockAxios();
+    const result = await handleSearchNotes({ text: 'Meeting Notes', includePaths: true }, axios);
+
+    assert.deepEqual(result.results.map(note => note.paths), [
+      ['Work / ProjectX / Meeting Notes'],
+      ['Work / ProjectY / Meeting Notes', 'Shared / Meeting Notes']
+    ]);
+
+    // Search results are not fetched again and 'work' is looked up only once
+    const noteFetches = axios.urls().filter(url => /^\/notes\/[^?]/.test(url));
+    assert.deepEqual(noteFetches.sort(), ['/notes/projX', '/notes/projY', '/notes/shared', '/notes/work']);
+  });
+
+  it('leaves results unchanged without includePaths', async () => {
+    const axios = createMockAxios();
+    const result = await handleSearchNotes({ text: 'Meeting Notes' }, axios);
+
+    assert.equal(result.results[0].paths, undefined);
+    assert.equal(axios.calls.length, 1);
+  });
+
+  it('adds paths to resolve_note_id matches', async () => {
+    const choice = await handleResolveNoteId({ noteName: 'Meeting Notes', includePaths: true }, createMockAxios());
+    assert.equal(choice.requiresUserChoice, true);
+    assert.deepEqual(choice.topMatches.map(match => match.paths), [
+      ['Work / ProjectX / Meeting Notes'],
+      ['Work / ProjectY / Meeting Notes', 'Shared / Meeting Notes']
+    ]);
+
+    const selected = await handleResolveNoteId({ noteName: 'Meeting Notes', autoSelect: true, includePaths: true }, createMockAxios());
+    assert.equal(selected.noteId, 'meetX');
+    assert.deepEqual(selected.paths, ['Work / ProjectX / Meeting Notes']);
+  });
+
+  it('adds paths to get_note', async () => {
+    const result = await handleGetNote({ noteId: 'meetX', includePaths: true }, createMockAxios());
+    assert.deepEqual(result.note.paths, ['Work / ProjectX / Meeting Notes']);
+    assert.equal(result.content, '<p>Agenda</p>');
+
+    const root = await handleGetNote({ noteId: 'root', includeContent: false, includePaths: true }, createMockAxios());
+    assert.deepEqual(root.note.paths, ['root']);
+  });
+
+  it('shows branch prefixes before titles like the Trilium tree', async () => {
+    const axios = createMockAxios();
+    axios.branches.find(branch => branch.branchId === 'shared_meetY').prefix = 'Weekly';
+    axios.branches.find(branch => branch.branchId === 'work_projY').prefix = '2024';
+
+    assert.deepEqual(await new NotePathResolver(axios).getPaths('meetY'), [
+      'Work / 2024 - ProjectY / Meeting Notes',
+      'Shared / Weekly - Meeting Notes'
+    ]);
+  });
+
+  it('stops at cycles instead of recursing forever', async () => {
+    const axios = createMockEtapi({
+      notes: {
+        a: { title: 'A', parentNoteIds: ['b'] },
+        b: { title: 'B', parentNoteIds: ['a'] }
+      }
+    });
+    assert.deepEqual(await new NotePathResolver(axios).getPaths('a'), []);
+  });
+
+  it('does not cache paths cut short by a cycle', async () => {
+    // a is placed below root and (corruptly) below its own child b
+    const axios = createMockEtapi({
+      notes: {
+        root: { title: 'root', parentNoteIds: [] },
+        a: { title: 'A', parentNoteIds: ['b', 'root'] },
+        b: { title: 'B', parentNoteIds: ['a'] },
+        x: { title: 'X', parentNoteIds: ['a'] },
+        y: { title: 'Y', parentNoteIds: ['b'] }
+      }
+    });
+    const resolver = new NotePathResolver(axios);
+
+    // Resolving x reaches b while a is being visited, which leaves b without paths; y must not inherit that
+    assert.deepEqual(await resolver.getPaths('x'), ['A / X']);
+    assert.deepEqual(await resolver.getPaths('y'), ['A / B / Y']);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Test trilium://note/{noteId} resources: URI parsing, MIME types and reads against a mocked ETAPI
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+
+import {
+  buildNoteUri,
+  parseNoteUri,
+  getResourceMimeType,
+  readNoteResource
+} from '../../build/modules/resourceManager.js';
+import { createMockEtapi } from './helpers/mockEtapi.js';
+
+const PNG = Buffer.from('89504e470d0a1a0a', 'hex');
+
+function createMockAxios() {
+  return createMockEtapi({
+    notes: {
+      proj: { title: 'Project', type: 'book', parentNoteIds: ['root'], blobId: 'b1', content: '' },
+      spec: { title: 'Spec', type: 'text', parentNoteIds: ['proj'], blobId: 'b2', content: '<p>Goals</p>' },
+      script: { title: 'Script', type: 'code', mime: 'application/javascript', parentNoteIds: ['spec'], blobId: 'b3', content: 'run();' },
+      logo: { title: 'Logo', type: 'image', mime: 'image/png', parentNoteIds: ['proj'], blobId: 'b4', content: PNG }
+    }
+  });
+}
+
+describe('Note resources', () => {
+  it('parses note and content URIs', () => {
+    assert.deepEqual(parseNoteUri('trilium://note/abc123'), { noteId: 'abc123', kind: 'note' });
+    assert.deepEqual(parseNoteUri('trilium://note/abc123/'), { noteId: 'abc123', kind: 'note' });
+    assert.deepEqual(parseNoteUri('trilium://note/abc123/content'), { noteId: 'abc123', kind: 'content' });
+    assert.deepEqual(parseNoteUri('trilium://note/a%20b'), { noteId: 'a b', kind: 'note' });
+    assert.deepEqual(parseNoteUri(buildNoteUri('xyz', 'content')), { noteId: 'xyz', kind: 'content' });
+  });
+
+  it('rejects URIs outside the trilium://note/ scheme', () => {
+    for (const uri of ['trilium://note/', 'trilium://note/abc/attachments', 'https://note/abc', 'trilium://notes/abc', 'trilium://note/abc?x=1']) {
+      assert.throws(() => parseNoteUri(uri), /Invalid resource URI/, uri);
+    }
+  });
+
+  it('maps note types to MIME types', () => {
+    assert.equal(getResourceMimeType({ type: 'text' }), 'text/html');
+    assert.equal(getResourceMimeType({ type: 'book' }), 'text/html');
+    assert.equal(getResourceMimeType({ type: 'mermaid', mime: 'text/plain' }), 'text/vnd.mermaid');
+    assert.equal(getResourceMimeType({ type: 'code', mime: 'application/javascript' }), 'application/javascript');
+    assert.equal(getResourceMimeType({ type: 'code' }), 'text/plain');
+    assert.equal(getResourceMimeType({ type: 'image', mime: 'image/png' }), 'image/png');
+    assert.equal(getResourceMimeType({ type: 'file' }), 'application/octet-stream');
+    assert.equal(getResourceMimeType({ type: 'canvas', mime: 'application/json' }), 'application/json');
+  });
+
+  it('reads note metadata with its subtree as JSON', async () => {
+    const [resource] = await readNoteResource('trilium://note/proj', createMockAxios());
+    const payload = JSON.parse(resource.text);
+
+    assert.equal(resource.mimeType, 'application/json');
+    assert.equal(payload.title, 'Project');
+    assert.equal(payload.contentUri, 'trilium://note/proj/content');
+    assert.equal(payload.contentMimeType, 'text/html');
+    assert.deepEqual(payload.subtree.map(child => [child.uri, child.parentNoteIds]), [
+      ['trilium://note/spec', ['proj']],
+      ['trilium://note/script', ['spec']],
+      ['trilium://note/logo', ['proj']]
+    ]);
+    assert.equal(payload.subtreeTruncated, false);
+
+    const [limited] = await readNoteResource('trilium://note/proj', createMockAxios(), 2);
+    assert.equal(JSON.parse(limited.text).subtreeTruncated, true);
+  });
+
+  it('reads text content as text and binary content as base64', async () => {
+    const [text] = await readNoteResource('trilium://note/spec/content', createMockAxios());
+    assert.deepEqual(text, { uri: 'trilium://note/spec/content', mimeType: 'text/html', text: '<p>Goals</p>' });
+
+    const [code] = await readNoteResource('trilium://note/script/content', createMockAxios());
+    assert.equal(code.mimeType, 'application/javascript');
+    assert.equal(code.text, 'run();');
+
+    const [image] = await readNoteResource('trilium://note/logo/content', createMockAxios());
+    assert.equal(image.mimeType, 'image/png');
+    assert.equal(image.text, undefined);
+    assert.deepEqual(Buffer.from(image.blob, 'base64'), PNG);
+  });
+
+  it('fails for unknown notes', async () => {
+    await assert.rejects(readNoteResource('trilium://note/missing', createMockAxios()));
+  });
+});
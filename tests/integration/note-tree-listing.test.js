@@ -0,0 +1,119 @@
+/**
+ * Test get_note_tree listing against a mocked note hierarchy
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+
+import { handleGetNoteTree } from '../../build/modules/noteTreeManager.js';
+import { createMockEtapi } from './helpers/mockEtapi.js';
+
+/**
+ * Mock ETAPI serving a note hierarchy; children are given in display order but stored shuffled
+ */
+function createMockAxios(tree) {
+  const notes = {};
+  const branches = [];
+
+  const addNote = node => {
+    const children = node.children || [];
+    notes[node.noteId] = {
+      title: node.title,
+      type: node.type || 'text',
+      dateCreated: '2024-03-01 10:00:00.000+0000',
+      attributes: node.archived ? [{ type: 'label', name: 'archived', value: '' }] : []
+    };
+    children.forEach((child, index) => branches.unshift({
+      branchId: `${node.noteId}_${child.noteId}`,
+      noteId: child.noteId,
+      parentNoteId: node.noteId,
+      notePosition: (index + 1) * 10,
+      prefix: child.prefix || null
+    }));
+    children.forEach(addNote);
+  };
+  addNote(tree);
+
+  return createMockEtapi({ notes, branches });
+}
+
+const projects = {
+  noteId: 'proj', title: 'Projects', type: 'book',
+  children: [
+    {
+      noteId: 'alpha', title: 'Alpha', prefix: 'Active',
+      children: [
+        { noteId: 'spec', title: 'Spec' },
+        { noteId: 'diagram', title: 'Diagram', type: 'canvas', children: [{ noteId: 'deep', title: 'Deep' }] }
+      ]
+    },
+    { noteId: 'beta', title: 'Beta', type: 'code' },
+    { noteId: 'old', title: 'Old project', archived: true, children: [{ noteId: 'oldChild', title: 'Old child' }] }
+  ]
+};
+
+describe('get_note_tree', () => {
+  it('lists children recursively in branch order with prefixes, types and child counts', async () => {
+    const axios = createMockAxios(projects);
+    const result = await handleGetNoteTree({ noteId: 'proj', format: 'json' }, axios);
+
+    assert.equal(result.lines, undefined);
+    assert.equal(result.truncated, false);
+    assert.equal(result.noteCount, 5);
+    assert.deepEqual(result.tree.children.map(child => child.noteId), ['alpha', 'beta']);
+
+    const [alpha, beta] = result.tree.children;
+    assert.equal(alpha.prefix, 'Active');
+    assert.equal(alpha.childCount, 2);
+    assert.deepEqual(alpha.children.map(child => child.noteId), ['spec', 'diagram']);
+    assert.equal(beta.type, 'code');
+    assert.equal(beta.prefix, undefined);
+
+    // The default depth of 2 stops above 'deep' but still reports it as a child
+    const diagram = alpha.children[1];
+    assert.equal(diagram.childCount, 1);
+    assert.equal(diagram.children, undefined);
+    assert.ok(!axios.urls().includes('/notes/deep'));
+  });
+
+  it('renders indented ls-style lines by default', async () => {
+    const result = await handleGetNoteTree({ noteId: 'proj', depth: 3 }, createMockAxios(projects));
+
+    assert.equal(result.lines.length, 6);
+    assert.match(result.lines[0], /^2024-03-01 \d\d:\d\d {2}Projects\/ \(proj\) \[book, 3 children, 1 archived hidden\]$/);
+    assert.match(result.lines[1], /^ {2}\S.* {2}Active - Alpha \(alpha\) \[text, 2 children\]$/);
+    assert.match(result.lines[2], /^ {4}\S.* {2}Spec \(spec\) \[text\]$/);
+    assert.match(result.lines[4], /^ {6}\S.* {2}Deep \(deep\) \[text\]$/);
+    assert.match(result.lines[5], /^ {2}\S.* {2}Beta\* \(beta\) \[code\]$/);
+  });
+
+  it('skips archived notes unless includeArchived is set', async () => {
+    const hidden = await handleGetNoteTree({ noteId: 'proj', depth: 1, format: 'json' }, createMockAxios(projects));
+    assert.deepEqual(hidden.tree.children.map(child => child.noteId), ['alpha', 'beta']);
+    assert.equal(hidden.tree.archivedChildrenHidden, 1);
+
+    const shown = await handleGetNoteTree({ noteId: 'proj', includeArchived: true, format: 'json' }, createMockAxios(projects));
+    const old = shown.tree.children[2];
+    assert.equal(old.noteId, 'old');
+    assert.equal(old.isArchived, true);
+    assert.deepEqual(old.children.map(child => child.noteId), ['oldChild']);
+    assert.equal(shown.tree.archivedChildrenHidden, undefined);
+  });
+
+  it('stops at maxNotes and reports the tree as truncated', async () => {
+    const result = await handleGetNoteTree({ noteId: 'proj', depth: 3, maxNotes: 3, format: 'json' }, createMockAxios(projects));
+
+    assert.equal(result.noteCount, 3);
+    assert.equal(result.truncated, true);
+    assert.deepEqual(result.tree.children.map(child => child.noteId), ['alpha']);
+    assert.deepEqual(result.tree.children[0].children.map(child => child.noteId), ['spec']);
+  });
+
+  it('validates depth and format', async () => {
+    const axios = createMockAxios(projects);
+    await assert.rejects(() => handleGetNoteTree({ noteId: 'proj', depth: 0 }, axios), /depth must be an integer between 1 and 10/);
+    await assert.rejects(() => handleGetNoteTree({ noteId: 'proj', depth: 11 }, axios), /depth must be/);
+    await assert.rejects(() => handleGetNoteTree({ noteId: 'proj', format: 'xml' }, axios), /Invalid format: xml/);
+    assert.equal(axios.calls.length, 0);
+  });
+});
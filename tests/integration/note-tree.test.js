@@ -0,0 +1,106 @@
+/**
+ * Test create_note_tree against a mocked ETAPI
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { handleCreateNoteTree } from '../../build/modules/noteTreeManager.js';
+import { undoOperation } from '../../build/modules/undoManager.js';
+import { createMockEtapi } from './helpers/mockEtapi.js';
+
+/**
+ * Mock ETAPI without notes; creating a note titled failTitle fails
+ */
+function createMockAxios({ failTitle } = {}) {
+  return createMockEtapi({
+    routes: [['POST', '/create-note', (_, data) => {
+      if (data.title === failTitle) {
+        throw new Error('ETAPI error');
+      }
+    }]]
+  });
+}
+
+const createdAttributes = mockAxios => mockAxios.calls.filter(([method, url]) => method === 'POST' && url === '/attributes').map(call => call[2]);
+
+const tree = [
+  {
+    key: 'project',
+    title: 'Project',
+    type: 'book',
+    children: [
+      { key: 'spec', title: 'Spec', type: 'text', content: '<p>Goals</p>', attributes: [{ type: 'relation', name: 'seeAlso', targetKey: 'log' }] },
+      { title: 'Docs', type: 'book', children: [{ key: 'log', title: 'Log', type: 'text', content: '<p>Entries</p>', attributes: [{ type: 'label', name: 'log' }] }] }
+    ]
+  }
+];
+
+describe('Create Note Tree', () => {
+  let dir;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'trilium-tree-'));
+    process.env.OPERATION_JOURNAL_PATH = path.join(dir, 'journal.jsonl');
+  });
+
+  afterEach(() => {
+    delete process.env.OPERATION_JOURNAL_PATH;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should create notes depth-first and resolve relations by key', async () => {
+    const mockAxios = createMockAxios();
+
+    const result = await handleCreateNoteTree({ parentNoteId: 'root', notes: tree }, mockAxios);
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.idMap, { project: 'n1', spec: 'n2', 'Project > Docs': 'n3', log: 'n4' });
+    assert.equal(mockAxios.notes.n4.parentNoteId, 'n3');
+    assert.deepEqual(
+      createdAttributes(mockAxios).map(a => [a.noteId, a.type, a.name, a.value]),
+      [['n4', 'label', 'log', ''], ['n2', 'relation', 'seeAlso', 'n4']]
+    );
+  });
+
+  it('should roll back created notes when a note fails', async () => {
+    const mockAxios = createMockAxios({ failTitle: 'Log' });
+
+    const result = await handleCreateNoteTree({ parentNoteId: 'root', notes: tree }, mockAxios);
+
+    assert.equal(result.success, false);
+    assert.equal(result.rolledBack, true);
+    assert.deepEqual(result.failedAt, ['Project', 'Docs', 'Log']);
+    assert.deepEqual(Object.keys(mockAxios.notes), []);
+  });
+
+  it('should keep partial results when asked', async () => {
+    const mockAxios = createMockAxios({ failTitle: 'Log' });
+
+    const result = await handleCreateNoteTree({ parentNoteId: 'root', notes: tree, onError: 'keep' }, mockAxios);
+
+    assert.equal(result.success, false);
+    assert.deepEqual(result.idMap, { project: 'n1', spec: 'n2', 'Project > Docs': 'n3' });
+    assert.deepEqual(Object.keys(mockAxios.notes), ['n1', 'n2', 'n3']);
+  });
+
+  it('should reject unknown relation keys before creating anything', async () => {
+    const mockAxios = createMockAxios();
+    const broken = [{ title: 'A', type: 'text', attributes: [{ type: 'relation', name: 'x', targetKey: 'missing' }] }];
+
+    await assert.rejects(handleCreateNoteTree({ parentNoteId: 'root', notes: broken }, mockAxios), /not defined in the tree: missing/);
+    assert.deepEqual(Object.keys(mockAxios.notes), []);
+  });
+
+  it('should undo the whole tree as one operation', async () => {
+    const mockAxios = createMockAxios();
+    await handleCreateNoteTree({ parentNoteId: 'root', notes: tree }, mockAxios);
+
+    await undoOperation(mockAxios, 'default', { mode: 'hard' });
+
+    assert.deepEqual(Object.keys(mockAxios.notes), []);
+  });
+});
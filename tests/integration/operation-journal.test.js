@@ -0,0 +1,138 @@
+/**
+ * Test the operation journal and undo against a mocked ETAPI
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { handleUpdateNote, handleDeleteNote } from '../../build/modules/noteManager.js';
+import { manage_attributes } from '../../build/modules/attributeManager.js';
+import { undoOperation, listOperations } from '../../build/modules/undoManager.js';
+import { generateTools } from '../../build/modules/toolDefinitions.js';
+import { createMockEtapi } from './helpers/mockEtapi.js';
+
+const hardDelete = { mode: 'hard' };
+
+function createNotes() {
+  return {
+    note1: { title: 'Old title', type: 'text', content: '<p>Old</p>', blobId: 'blob0', attributes: [] }
+  };
+}
+
+describe('Operation Journal', () => {
+  let dir;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'trilium-journal-'));
+    process.env.OPERATION_JOURNAL_PATH = path.join(dir, 'journal.jsonl');
+  });
+
+  afterEach(() => {
+    delete process.env.OPERATION_JOURNAL_PATH;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should restore content and title overwritten by update_note', async () => {
+    const notes = createNotes();
+    const mockAxios = createMockEtapi({ notes });
+
+    await handleUpdateNote({
+      noteId: 'note1', type: 'text', title: 'New title', content: '<p>New</p>',
+      mode: 'overwrite', expectedHash: 'blob0', revision: false
+    }, mockAxios);
+    assert.equal(notes.note1.title, 'New title');
+
+    const result = await undoOperation(mockAxios, 'default', hardDelete);
+
+    assert.equal(result.operation, 'update_note');
+    assert.equal(notes.note1.content, '<p>Old</p>');
+    assert.equal(notes.note1.title, 'Old title');
+    assert.equal(listOperations('default')[0].undone, true);
+    await assert.rejects(undoOperation(mockAxios, 'default', hardDelete), /Nothing to undo/);
+  });
+
+  it('should refuse to undo over later edits unless forced', async () => {
+    const notes = createNotes();
+    const mockAxios = createMockEtapi({ notes });
+
+    await handleUpdateNote({
+      noteId: 'note1', type: 'text', content: '<p>New</p>', mode: 'overwrite', expectedHash: 'blob0', revision: false
+    }, mockAxios);
+    notes.note1.blobId = 'edited-elsewhere';
+
+    await assert.rejects(undoOperation(mockAxios, 'default', hardDelete), /modified since/);
+    assert.equal(notes.note1.content, '<p>New</p>');
+
+    await undoOperation(mockAxios, 'default', hardDelete, undefined, true);
+    assert.equal(notes.note1.content, '<p>Old</p>');
+  });
+
+  it('should delete every attribute created by a batch', async () => {
+    const notes = createNotes();
+    const mockAxios = createMockEtapi({ notes });
+
+    await manage_attributes({
+      noteId: 'note1',
+      operation: 'batch_create',
+      attributes: [{ type: 'label', name: 'a' }, { type: 'label', name: 'b', value: 'x' }]
+    }, mockAxios);
+    assert.equal(notes.note1.attributes.length, 2);
+
+    await undoOperation(mockAxios, 'default', hardDelete);
+    assert.equal(notes.note1.attributes.length, 0);
+  });
+
+  it('should recreate a deleted attribute and revert an update by ID', async () => {
+    const notes = createNotes();
+    notes.note1.attributes.push(
+      { attributeId: 'keep', noteId: 'note1', type: 'label', name: 'status', value: 'draft', position: 10 },
+      { attributeId: 'gone', noteId: 'note1', type: 'relation', name: 'template', value: 'tpl', position: 20, isInheritable: true }
+    );
+    const mockAxios = createMockEtapi({ notes });
+
+    await manage_attributes({ noteId: 'note1', operation: 'update', attributes: [{ type: 'label', name: 'status', value: 'done' }] }, mockAxios);
+    await manage_attributes({ noteId: 'note1', operation: 'delete', attributes: [{ type: 'relation', name: 'template' }] }, mockAxios);
+
+    const [deletion, update] = listOperations('default');
+    await undoOperation(mockAxios, 'default', hardDelete, update.id);
+    assert.equal(notes.note1.attributes.find(a => a.name === 'status').value, 'draft');
+
+    await undoOperation(mockAxios, 'default', hardDelete, deletion.id);
+    const recreated = notes.note1.attributes.find(a => a.name === 'template');
+    assert.deepEqual(
+      [recreated.type, recreated.value, recreated.position, recreated.isInheritable],
+      ['relation', 'tpl', 20, true]
+    );
+  });
+
+  it('should journal hard deletes as irreversible', async () => {
+    const mockAxios = createMockEtapi({ notes: createNotes() });
+
+    await handleDeleteNote({ noteId: 'note1' }, mockAxios, hardDelete);
+
+    assert.equal(listOperations('default')[0].operation, 'delete_note');
+    await assert.rejects(undoOperation(mockAxios, 'default', hardDelete), /cannot be undone/);
+  });
+
+  it('should not journal when OPERATION_JOURNAL_PATH is unset', async () => {
+    delete process.env.OPERATION_JOURNAL_PATH;
+    const mockAxios = createMockEtapi({ notes: createNotes() });
+
+    await manage_attributes({ noteId: 'note1', operation: 'create', attributes: [{ type: 'label', name: 'a' }] }, mockAxios);
+
+    assert.throws(() => listOperations('default'), /journal is disabled/);
+  });
+
+  it('should only list the undo tools while journaling is enabled', () => {
+    const permissions = { hasPermission: () => true };
+    const journalTools = () => generateTools(permissions).map(tool => tool.name).filter(name => /operation/.test(name));
+
+    assert.deepEqual(journalTools(), ['list_operations', 'undo_last_operation', 'undo_operation']);
+
+    delete process.env.OPERATION_JOURNAL_PATH;
+    assert.deepEqual(journalTools(), []);
+  });
+});
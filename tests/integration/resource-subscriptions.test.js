@@ -0,0 +1,100 @@
+/**
+ * Test resource subscriptions: the poller's seed pass, blobId change detection and unsubscribe
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it, afterEach } from 'node:test';
+import { setTimeout as sleep } from 'timers/promises';
+
+import { ResourceChangePoller } from '../../build/modules/resourceSubscriptionManager.js';
+import { createMockEtapi } from './helpers/mockEtapi.js';
+
+const utcNow = () => new Date().toISOString().replace('T', ' ');
+const LONG_AGO = '2020-01-01 00:00:00.000Z';
+
+function createMockAxios() {
+  return createMockEtapi({
+    notes: {
+      proj: { title: 'Project', type: 'book', parentNoteIds: ['root'], blobId: 'p1', utcDateModified: LONG_AGO },
+      spec: { title: 'Spec', type: 'text', parentNoteIds: ['proj'], blobId: 's1', utcDateModified: LONG_AGO },
+      other: { title: 'Other', type: 'text', parentNoteIds: ['root'], blobId: 'o1', utcDateModified: LONG_AGO }
+    }
+  });
+}
+
+/**
+ * Edit a note the way the Trilium UI would: new blob, new modification time
+ */
+async function edit(axios, noteId) {
+  // Modification times have millisecond resolution
+  await sleep(5);
+  const note = axios.notes[noteId];
+  note.blobId = `${note.blobId}+`;
+  note.utcDateModified = utcNow();
+  await sleep(5);
+}
+
+describe('Resource subscriptions', () => {
+  let poller;
+
+  afterEach(() => poller?.close());
+
+  it('queries utcDateModified in Trilium\'s date format', async () => {
+    const axios = createMockAxios();
+    poller = new ResourceChangePoller(axios, async () => {});
+
+    await poller.subscribe('trilium://note/proj');
+
+    assert.match(axios.searches()[0], /^note\.utcDateModified >= '\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}\.\d{3}Z' ~\(note\.noteId = 'proj' OR note\.ancestors\.noteId = 'proj'\)$/);
+  });
+
+  it('reports a changed blobId once, for the subscriptions covering the note', async () => {
+    const axios = createMockAxios();
+    const notified = [];
+    poller = new ResourceChangePoller(axios, async uri => { notified.push(uri); });
+
+    await poller.subscribe('trilium://note/proj');
+    await poller.subscribe('trilium://note/proj/content');
+    await poller.subscribe('trilium://note/other/content');
+    assert.deepEqual(await poller.poll(), []);
+
+    await edit(axios, 'spec');
+    assert.deepEqual(await poller.poll(), ['trilium://note/proj']);
+
+    await edit(axios, 'proj');
+    assert.deepEqual(await poller.poll(), ['trilium://note/proj', 'trilium://note/proj/content']);
+
+    assert.deepEqual(await poller.poll(), []);
+    assert.deepEqual(notified, ['trilium://note/proj', 'trilium://note/proj', 'trilium://note/proj/content']);
+  });
+
+  it('seeds blobIds so that edits made before subscribing are not reported', async () => {
+    const axios = createMockAxios();
+    poller = new ResourceChangePoller(axios, async () => {});
+
+    // Polling is already running for another subscription when spec is edited
+    await poller.subscribe('trilium://note/other');
+    await edit(axios, 'spec');
+
+    await poller.subscribe('trilium://note/spec/content');
+    assert.deepEqual(await poller.poll(), []);
+
+    await edit(axios, 'spec');
+    assert.deepEqual(await poller.poll(), ['trilium://note/spec/content']);
+  });
+
+  it('stops notifying after unsubscribe', async () => {
+    const axios = createMockAxios();
+    const notified = [];
+    poller = new ResourceChangePoller(axios, async uri => { notified.push(uri); });
+
+    await poller.subscribe('trilium://note/spec/content');
+    poller.unsubscribe('trilium://note/spec/content');
+    await edit(axios, 'spec');
+
+    const searches = axios.searches().length;
+    assert.deepEqual(await poller.poll(), []);
+    assert.deepEqual(notified, []);
+    assert.equal(axios.searches().length, searches);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Test heading-aware section editing against a mocked ETAPI
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+
+import { handleEditSection } from '../../build/modules/sectionManager.js';
+import { createMockEtapi } from './helpers/mockEtapi.js';
+
+function createMockAxios(note) {
+  return createMockEtapi({ notes: { [note.noteId]: note } });
+}
+
+function createNote() {
+  return {
+    noteId: 'log',
+    type: 'text',
+    blobId: 'blob1',
+    content: '<h2>Decisions</h2><h3>2024-Q3</h3><p>A</p><h2>Actions</h2><p>B</p>'
+  };
+}
+
+describe('Section Editing', () => {
+
+  it('should insert after a section, before the next heading', async () => {
+    const note = createNote();
+
+    await handleEditSection({
+      noteId: 'log', headingPath: 'Decisions > 2024-Q3', operation: 'insert_after',
+      content: '<p>C</p>', expectedHash: 'blob1'
+    }, createMockAxios(note));
+
+    assert.equal(note.content, '<h2>Decisions</h2><h3>2024-Q3</h3><p>A</p><p>C</p><h2>Actions</h2><p>B</p>');
+  });
+
+  it('should replace the body and keep the heading', async () => {
+    const note = createNote();
+
+    await handleEditSection({
+      noteId: 'log', headingPath: 'Actions', operation: 'replace', content: '<p>New</p>', expectedHash: 'blob1'
+    }, createMockAxios(note));
+
+    assert.equal(note.content, '<h2>Decisions</h2><h3>2024-Q3</h3><p>A</p><h2>Actions</h2><p>New</p>');
+  });
+
+  it('should delete a section with its subsections', async () => {
+    const note = createNote();
+
+    await handleEditSection({
+      noteId: 'log', headingPath: 'Decisions', operation: 'delete', expectedHash: 'blob1', revision: false
+    }, createMockAxios(note));
+
+    assert.equal(note.content, '<h2>Actions</h2><p>B</p>');
+  });
+
+  it('should refuse stale hashes and list headings when the path is unknown', async () => {
+    const note = createNote();
+    const mockAxios = createMockAxios(note);
+
+    const conflict = await handleEditSection({
+      noteId: 'log', headingPath: 'Actions', operation: 'delete', expectedHash: 'old'
+    }, mockAxios);
+    assert.equal(conflict.conflict, true);
+
+    await assert.rejects(
+      handleEditSection({ noteId: 'log', headingPath: 'Missing', operation: 'delete', expectedHash: 'blob1' }, mockAxios),
+      /Headings in this note:\nDecisions\n  2024-Q3\nActions/
+    );
+    assert.equal(mockAxios.calls.some(call => call[0] === 'PUT'), false);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Test export_subtree against a temporary export directory and a mocked ETAPI export endpoint
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+
+import { handleExportSubtree, resolveExportPath } from '../../build/modules/exportManager.js';
+import { createMockEtapi } from './helpers/mockEtapi.js';
+import { createZip } from './helpers/zip.js';
+
+function createMockAxios(zip) {
+  return createMockEtapi({
+    notes: { proj1: { title: 'Project: Alpha' } },
+    routes: [['GET', /^\/notes\/proj1\/export/, (_, data, config) => {
+      assert.equal(config.responseType, 'stream');
+      return { status: 200, data: Readable.from([zip]) };
+    }]]
+  });
+}
+
+describe('Subtree Export', () => {
+  let dir;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'trilium-export-'));
+    process.env.EXPORT_DIRECTORY = dir;
+  });
+
+  afterEach(() => {
+    delete process.env.EXPORT_DIRECTORY;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should save the ZIP under a templated name and extract it', async () => {
+    const zip = createZip({ 'Project Alpha/Notes.md': '# Notes\n', 'Project Alpha/Docs/Setup.md': 'Run it.' });
+    const axios = createMockAxios(zip);
+
+    const result = await handleExportSubtree({
+      noteId: 'proj1', format: 'markdown', filename: 'snapshots/{title}-{format}', extract: true
+    }, axios);
+
+    assert.equal(axios.urls()[1], '/notes/proj1/export?format=markdown');
+    assert.equal(result.zipPath, path.join(dir, 'snapshots', 'Project_ Alpha-markdown.zip'));
+    assert.deepEqual(fs.readFileSync(result.zipPath), zip);
+    assert.equal(result.bytes, zip.length);
+    assert.equal(result.extractedFiles, 2);
+    assert.equal(fs.readFileSync(path.join(result.extractedTo, 'Project Alpha', 'Docs', 'Setup.md'), 'utf8'), 'Run it.');
+    assert.ok(!fs.existsSync(`${result.zipPath}.part`));
+  });
+
+  it('should refuse to replace an existing export unless overwrite is set', async () => {
+    const args = { noteId: 'proj1', filename: 'alpha' };
+    await handleExportSubtree(args, createMockAxios(createZip({ 'a.html': 'v1' })));
+
+    await assert.rejects(handleExportSubtree(args, createMockAxios(createZip({ 'a.html': 'v2' }))), /already exists/);
+    await handleExportSubtree({ ...args, overwrite: true }, createMockAxios(createZip({ 'a.html': 'v2' })));
+    assert.ok(fs.readFileSync(path.join(dir, 'alpha.zip')).includes('v2'));
+  });
+
+  it('should refuse entries and filenames outside the export directory', async () => {
+    await assert.rejects(
+      handleExportSubtree({ noteId: 'proj1', filename: 'x', extract: true }, createMockAxios(createZip({ '../evil.txt': 'x' }))),
+      /invalid relative path|outside/
+    );
+    assert.ok(!fs.existsSync(path.join(dir, 'evil.txt')));
+
+    assert.throws(() => resolveExportPath(dir, '../{title}', { title: 'a', noteId: 'n', format: 'html' }), /outside the export directory/);
+    assert.throws(() => resolveExportPath(dir, '{owner}', { title: 'a', noteId: 'n', format: 'html' }), /Unknown placeholder/);
+  });
+
+  it('should refuse filenames without a name before .zip', async () => {
+    fs.writeFileSync(path.join(dir, 'keep.txt'), 'x');
+    for (const filename of ['.zip', 'sub/.zip', 'sub/']) {
+      await assert.rejects(
+        handleExportSubtree({ noteId: 'proj1', filename, extract: true, overwrite: true }, createMockAxios(createZip({ 'a.html': 'v1' }))),
+        /has no name before \.zip/,
+        filename
+      );
+    }
+    assert.ok(fs.existsSync(path.join(dir, 'keep.txt')));
+  });
+
+  it('should require EXPORT_DIRECTORY', async () => {
+    delete process.env.EXPORT_DIRECTORY;
+    await assert.rejects(handleExportSubtree({ noteId: 'proj1' }, createMockAxios(createZip({}))), /EXPORT_DIRECTORY/);
+  });
+});
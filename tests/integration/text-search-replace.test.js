@@ -0,0 +1,38 @@
+/**
+ * Test search_and_replace_note with htmlMode 'text' against a mocked ETAPI
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+
+import { handleSearchReplaceNote } from '../../build/modules/noteManager.js';
+import { createMockEtapi } from './helpers/mockEtapi.js';
+
+const replace = (note, args) => handleSearchReplaceNote({
+  noteId: note.noteId, expectedHash: note.blobId, revision: false, searchFlags: 'g', ...args
+}, createMockEtapi({ notes: { [note.noteId]: note } }));
+
+describe('Text Search and Replace', () => {
+
+  it('should edit only the text of a text note', async () => {
+    const note = {
+      noteId: 'note1', type: 'text', blobId: 'blob1',
+      content: '<p class="lead">Our <em>big</em> plan</p><p>The plan is a p.</p>'
+    };
+
+    const result = await replace(note, { searchPattern: 'big plan|p\\b', replacePattern: 'roadmap', htmlMode: 'text' });
+
+    assert.equal(result.replacementsMade, 2);
+    assert.equal(result.htmlMode, 'text');
+    assert.equal(note.content, '<p class="lead">Our <em>roadmap</em></p><p>The plan is a roadmap.</p>');
+  });
+
+  it('should fall back to raw matching for code notes', async () => {
+    const note = { noteId: 'note2', type: 'code', blobId: 'blob2', content: 'const amp = "&amp;";' };
+
+    const result = await replace(note, { searchPattern: '&amp;', replacePattern: '&', useRegex: false, htmlMode: 'text' });
+
+    assert.equal(result.htmlMode, 'raw');
+    assert.equal(note.content, 'const amp = "&";');
+  });
+});
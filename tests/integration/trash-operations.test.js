@@ -0,0 +1,127 @@
+/**
+ * Test soft delete, restore and purge against a mocked ETAPI
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+
+import { handleDeleteNote } from '../../build/modules/noteManager.js';
+import { restoreNote, purgeTrash } from '../../build/modules/trashManager.js';
+import { createMockEtapi } from './helpers/mockEtapi.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Mock ETAPI with only the root note; created notes are trash1, trash2, ...
+ */
+function createMockTrilium() {
+  const axios = createMockEtapi({ notes: { root: { title: 'root' } }, branches: [], idPrefix: 'trash' });
+  const { notes, branches } = axios;
+
+  const addNote = (noteId, ...parentNoteIds) => {
+    notes[noteId] = { noteId, title: noteId, attributes: [] };
+    for (const parentNoteId of parentNoteIds) {
+      branches.push({ branchId: `${parentNoteId}_${noteId}`, noteId, parentNoteId });
+    }
+  };
+
+  const parentsOf = (noteId) => branches.filter(b => b.noteId === noteId).map(b => b.parentNoteId).sort();
+  const labelsOf = (noteId, name) => (notes[noteId]?.attributes || []).filter(a => a.name === name).map(a => a.value);
+
+  return { axios, notes, addNote, parentsOf, labelsOf };
+}
+
+describe('Soft Delete', () => {
+
+  it('should hard delete by default', async () => {
+    const trilium = createMockTrilium();
+    trilium.addNote('a', 'root');
+
+    await handleDeleteNote({ noteId: 'a' }, trilium.axios);
+
+    assert.deepEqual(trilium.axios.calls.at(-1), ['DELETE', '/notes/a']);
+  });
+
+  it('should move the note to a created trash note and stamp labels', async () => {
+    const trilium = createMockTrilium();
+    trilium.addNote('p1', 'root');
+    trilium.addNote('p2', 'root');
+    trilium.addNote('a', 'p1', 'p2');
+
+    const result = await handleDeleteNote({ noteId: 'a' }, trilium.axios, { mode: 'soft' });
+
+    assert.equal(result.trashNoteId, 'trash1');
+    assert.deepEqual(trilium.labelsOf('trash1', 'mcpTrash'), ['']);
+    assert.deepEqual(trilium.parentsOf('a'), ['trash1']);
+    assert.deepEqual(trilium.labelsOf('a', 'originalParent').sort(), ['p1', 'p2']);
+    assert.equal(trilium.labelsOf('a', 'deletedAt').length, 1);
+    assert.equal('a' in trilium.notes, true);
+  });
+
+  it('should use a configured trash note', async () => {
+    const trilium = createMockTrilium();
+    trilium.addNote('bin', 'root');
+    trilium.addNote('a', 'root');
+
+    await handleDeleteNote({ noteId: 'a' }, trilium.axios, { mode: 'soft', trashNoteId: 'bin' });
+
+    assert.deepEqual(trilium.parentsOf('a'), ['bin']);
+    assert.equal(trilium.axios.calls.some(call => call[1] === '/create-note'), false);
+  });
+
+  it('should restore to the original parents and remove the labels', async () => {
+    const trilium = createMockTrilium();
+    trilium.addNote('bin', 'root');
+    trilium.addNote('p1', 'root');
+    trilium.addNote('p2', 'root');
+    trilium.addNote('a', 'p1', 'p2');
+    const options = { mode: 'soft', trashNoteId: 'bin' };
+
+    await handleDeleteNote({ noteId: 'a' }, trilium.axios, options);
+    const result = await restoreNote('a', trilium.axios, options);
+
+    assert.deepEqual(result.parentNoteIds.sort(), ['p1', 'p2']);
+    assert.deepEqual(trilium.parentsOf('a'), ['p1', 'p2']);
+    assert.deepEqual(trilium.labelsOf('a', 'originalParent'), []);
+    assert.deepEqual(trilium.labelsOf('a', 'deletedAt'), []);
+  });
+
+  it('should skip original parents that no longer exist', async () => {
+    const trilium = createMockTrilium();
+    trilium.addNote('bin', 'root');
+    trilium.addNote('p1', 'root');
+    trilium.addNote('a', 'p1');
+    const options = { mode: 'soft', trashNoteId: 'bin' };
+
+    await handleDeleteNote({ noteId: 'a' }, trilium.axios, options);
+    delete trilium.notes.p1;
+
+    await assert.rejects(restoreNote('a', trilium.axios, options), /parentNoteId/);
+
+    const result = await restoreNote('a', trilium.axios, options, 'root');
+    assert.deepEqual(result.parentNoteIds, ['root']);
+    assert.deepEqual(trilium.parentsOf('a'), ['root']);
+  });
+
+  it('should purge only items older than the cutoff', async () => {
+    const trilium = createMockTrilium();
+    trilium.addNote('bin', 'root');
+    trilium.addNote('old', 'bin');
+    trilium.addNote('recent', 'bin');
+    trilium.addNote('manual', 'bin');
+    trilium.notes.old.attributes.push({ attributeId: 'x1', noteId: 'old', type: 'label', name: 'deletedAt', value: new Date(Date.now() - 40 * DAY).toISOString() });
+    trilium.notes.recent.attributes.push({ attributeId: 'x2', noteId: 'recent', type: 'label', name: 'deletedAt', value: new Date(Date.now() - 2 * DAY).toISOString() });
+    const options = { mode: 'soft', trashNoteId: 'bin' };
+
+    const preview = await purgeTrash(trilium.axios, options, 30, true);
+    assert.deepEqual(preview.purged.map(item => item.noteId), ['old']);
+    assert.equal('old' in trilium.notes, true);
+
+    const result = await purgeTrash(trilium.axios, options, 30);
+    assert.deepEqual(result.purged.map(item => item.noteId), ['old']);
+    assert.equal(result.kept, 2);
+    assert.equal('old' in trilium.notes, false);
+    assert.equal('recent' in trilium.notes, true);
+    assert.equal('manual' in trilium.notes, true);
+  });
+});
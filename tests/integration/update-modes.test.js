@@ -0,0 +1,68 @@
+/**
+ * Test the prepend, anchored insertion and replace_range modes of update_note against a mocked ETAPI
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+
+import { handleUpdateNote } from '../../build/modules/noteManager.js';
+import { createMockEtapi } from './helpers/mockEtapi.js';
+
+function createNote() {
+  return {
+    noteId: 'note1',
+    title: 'Meeting',
+    type: 'text',
+    blobId: 'blob1',
+    content: '<h2>Agenda</h2><p id="intro">Budget</p><p>Hiring</p>'
+  };
+}
+
+const update = (note, args) => handleUpdateNote({
+  noteId: 'note1', type: note.type, expectedHash: note.blobId, revision: false, ...args
+}, createMockEtapi({ notes: { note1: note } }));
+
+describe('Update Modes', () => {
+
+  it('should prepend content', async () => {
+    const note = createNote();
+    await update(note, { content: '<p>Draft</p>', mode: 'prepend' });
+
+    assert.equal(note.content, '<p>Draft</p><h2>Agenda</h2><p id="intro">Budget</p><p>Hiring</p>');
+  });
+
+  it('should insert around literal, regex and id anchors', async () => {
+    const note = createNote();
+    await update(note, { content: '<p>Travel</p>', mode: 'insert_after', anchor: '<p>Hiring</p>' });
+    await update(note, { content: '<p>Notes</p>', mode: 'insert_before', anchor: '<h2>[^<]*</h2>', anchorType: 'regex' });
+    await update(note, { content: '<p>Rent</p>', mode: 'insert_after', anchor: 'intro', anchorType: 'id' });
+
+    assert.equal(note.content, '<p>Notes</p><h2>Agenda</h2><p id="intro">Budget</p><p>Rent</p><p>Hiring</p><p>Travel</p>');
+  });
+
+  it('should reject missing and ambiguous anchors without writing', async () => {
+    const note = createNote();
+    await assert.rejects(update(note, { content: '<p>x</p>', mode: 'insert_after', anchor: 'Payroll' }), /not found/);
+    await assert.rejects(update(note, { content: '<p>x</p>', mode: 'insert_after', anchor: '<p' }), /matches 2 times/);
+    assert.equal(note.blobId, 'blob1');
+  });
+
+  it('should replace a range verbatim and delete it with empty content', async () => {
+    const note = createNote();
+    const index = note.content.indexOf('Budget');
+    await update(note, { content: 'Budget 2025', mode: 'replace_range', range: { index, length: 'Budget'.length } });
+    assert.equal(note.content, '<h2>Agenda</h2><p id="intro">Budget 2025</p><p>Hiring</p>');
+
+    const hiring = note.content.indexOf('<p>Hiring</p>');
+    await update(note, { content: '', mode: 'replace_range', range: { index: hiring, length: '<p>Hiring</p>'.length } });
+    assert.equal(note.content, '<h2>Agenda</h2><p id="intro">Budget 2025</p>');
+  });
+
+  it('should reject ranges outside the content', async () => {
+    const note = createNote();
+    await assert.rejects(
+      update(note, { content: 'x', mode: 'replace_range', range: { index: 40, length: 100 } }),
+      /outside the note content/
+    );
+  });
+});
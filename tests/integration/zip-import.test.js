@@ -0,0 +1,128 @@
+/**
+ * Test import_zip against a mocked ETAPI import endpoint
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { handleImportZip } from '../../build/modules/zipImportManager.js';
+import { FileManager } from '../../build/modules/fileManager.js';
+import { isMimeTypeSupported, parseFileDataSource } from '../../build/utils/fileUtils.js';
+import { createMockEtapi } from './helpers/mockEtapi.js';
+import { createZip } from './helpers/zip.js';
+
+const meta = {
+  formatVersion: 2,
+  appVersion: '0.90.0',
+  files: [{
+    noteId: 'orig1', title: 'Project', type: 'text', dataFileName: 'Project.html',
+    children: [
+      { noteId: 'orig2', title: 'Spec', type: 'text', dataFileName: 'Project/Spec.html' },
+      { noteId: 'orig3', title: 'Diagram', type: 'mermaid', dataFileName: 'Project/Diagram.txt' },
+      { noteId: 'orig2', title: 'Spec', isClone: true }
+    ]
+  }]
+};
+
+/**
+ * Mock ETAPI whose import endpoint creates Project (imp1) with a text and a mermaid child
+ */
+function createMockAxios() {
+  const uploads = [];
+  const axios = createMockEtapi({
+    notes: { parent1: { title: 'Parent' } },
+    routes: [['POST', '/notes/parent1/import', (_, data, config) => {
+      uploads.push({ data, config });
+      const imported = [
+        { noteId: 'imp1', title: 'Project', type: 'text', parentNoteId: 'parent1' },
+        { noteId: 'imp2', title: 'Readme', type: 'text', parentNoteId: 'imp1' },
+        { noteId: 'imp3', title: 'Diagram', type: 'mermaid', parentNoteId: 'imp1' }
+      ];
+      for (const { parentNoteId, ...note } of imported) {
+        axios.notes[note.noteId] = { ...note, attributes: [] };
+        axios.branches.push({ branchId: `${parentNoteId}_${note.noteId}`, noteId: note.noteId, parentNoteId });
+      }
+      return { status: 201, data: { note: { noteId: 'imp1', title: 'Project', type: 'text' }, branch: {} } };
+    }]]
+  });
+  return Object.assign(axios, { uploads });
+}
+
+describe('ZIP Import', () => {
+  let dir;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'trilium-zip-'));
+    process.env.OPERATION_JOURNAL_PATH = path.join(dir, 'journal.jsonl');
+  });
+
+  afterEach(() => {
+    delete process.env.OPERATION_JOURNAL_PATH;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should import a Trilium export from a path and report the census', async () => {
+    const zip = createZip({ '!!!meta.json': JSON.stringify(meta), 'Project.html': '<p>x</p>' });
+    const zipPath = path.join(dir, 'Project.zip');
+    fs.writeFileSync(zipPath, zip);
+    const axios = createMockAxios();
+
+    const result = await handleImportZip({ zipSource: zipPath, parentNoteId: 'parent1' }, axios);
+
+    assert.deepEqual(axios.uploads[0].data, zip);
+    assert.equal(axios.uploads[0].config.headers['Content-Type'], 'application/octet-stream');
+    assert.equal(result.rootNoteId, 'imp1');
+    assert.deepEqual(result.expected, { total: 3, byType: { text: 2, mermaid: 1 } });
+    assert.deepEqual(result.imported, { total: 3, byType: { text: 2, mermaid: 1 } });
+    assert.match(result.message, /3 note\(s\) \(2 text, 1 mermaid\)/);
+
+    const entry = JSON.parse(fs.readFileSync(process.env.OPERATION_JOURNAL_PATH, 'utf8').trim());
+    assert.deepEqual(entry.undo, [{ action: 'deleteNote', noteId: 'imp1', childCount: 2 }]);
+  });
+
+  it('should accept base64 and refuse archives that are not Trilium exports', async () => {
+    const axios = createMockAxios();
+    const valid = createZip({ '!!!meta.json': JSON.stringify(meta) }).toString('base64');
+    await handleImportZip({ zipSource: valid, parentNoteId: 'parent1' }, axios);
+    assert.equal(axios.uploads.length, 1);
+
+    const plain = createZip({ 'notes/readme.md': '# Hi' }).toString('base64');
+    await assert.rejects(handleImportZip({ zipSource: plain, parentNoteId: 'parent1' }, axios), /not a Trilium export: !!!meta\.json is missing/);
+
+    const broken = createZip({ '!!!meta.json': '{"files": []}' }).toString('base64');
+    await assert.rejects(handleImportZip({ zipSource: broken, parentNoteId: 'parent1' }, axios), /lists no notes/);
+    assert.equal(axios.uploads.length, 1);
+  });
+
+  it('should accept ZIP data URIs without making ZIPs general file uploads', async () => {
+    const axios = createMockAxios();
+    const zip = createZip({ '!!!meta.json': JSON.stringify(meta) });
+    await handleImportZip({ zipSource: `data:application/zip;base64,${zip.toString('base64')}`, parentNoteId: 'parent1' }, axios);
+    assert.deepEqual(axios.uploads[0].data, zip);
+
+    await assert.rejects(handleImportZip({ zipSource: `data:image/png;base64,${zip.toString('base64')}`, parentNoteId: 'parent1' }, axios), /Unsupported MIME type in data URI: image\/png/);
+
+    const zipPath = path.join(dir, 'Project.zip');
+    fs.writeFileSync(zipPath, zip);
+    assert.equal(isMimeTypeSupported('application/zip'), false);
+    assert.throws(() => parseFileDataSource(zipPath), /Unsupported file type: \.zip/);
+  });
+
+  it('should apply the file manager size limit and refuse data that is not a ZIP', async () => {
+    const axios = createMockAxios();
+    const zip = createZip({ '!!!meta.json': JSON.stringify(meta) });
+
+    await assert.rejects(
+      handleImportZip({ zipSource: zip.toString('base64'), parentNoteId: 'parent1' }, axios, new FileManager(axios, 10)),
+      /File too large: .* Maximum allowed: 0\.00MB/
+    );
+    await assert.rejects(
+      handleImportZip({ zipSource: Buffer.from('not a zip archive at all').toString('base64'), parentNoteId: 'parent1' }, axios),
+      /not a ZIP archive/
+    );
+    assert.equal(axios.uploads.length, 0);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Test prompt template rendering and loading custom prompts from a config file
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { renderPrompt, loadCustomPrompts, createBuiltinPrompts } from '../../../../build/modules/promptDefinitions.js';
+
+const prompt = {
+  name: 'summarize',
+  description: 'Summarize a note',
+  arguments: [
+    { name: 'note', required: true },
+    { name: 'style' }
+  ],
+  permissions: ['READ'],
+  template: 'Summarize "{{note}}"{{#style}} in a {{style}} style{{/style}}{{^style}} briefly{{/style}}. Unknown: [{{other}}]'
+};
+
+describe('renderPrompt', () => {
+
+  it('should substitute arguments and render sections by whether they are set', () => {
+    assert.equal(
+      renderPrompt(prompt, { note: 'Weekly Review', style: 'formal' }),
+      'Summarize "Weekly Review" in a formal style. Unknown: []'
+    );
+    assert.equal(renderPrompt(prompt, { note: 'Weekly Review' }), 'Summarize "Weekly Review" briefly. Unknown: []');
+  });
+
+  it('should treat blank optional arguments as missing', () => {
+    assert.equal(renderPrompt(prompt, { note: 'x', style: '  ' }), 'Summarize "x" briefly. Unknown: []');
+  });
+
+  it('should reject missing or blank required arguments', () => {
+    assert.throws(() => renderPrompt(prompt), /Missing required argument\(s\) for prompt 'summarize': note/);
+    assert.throws(() => renderPrompt(prompt, { note: ' ' }), /: note$/);
+  });
+
+  it('should render every built-in prompt without leftover placeholders', () => {
+    for (const builtin of createBuiltinPrompts()) {
+      const args = Object.fromEntries(builtin.arguments.map(arg => [arg.name, 'value']));
+      assert.doesNotMatch(renderPrompt(builtin, args), /\{\{/, builtin.name);
+    }
+  });
+});
+
+describe('loadCustomPrompts', () => {
+  let dir;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'trilium-prompts-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeConfig = content => {
+    const configPath = path.join(dir, 'prompts.json');
+    fs.writeFileSync(configPath, typeof content === 'string' ? content : JSON.stringify(content));
+    return configPath;
+  };
+
+  it('should default arguments and permissions and render like built-ins', () => {
+    const [loaded] = loadCustomPrompts(writeConfig({
+      prompts: [{
+        name: 'daily_log',
+        description: "Append to today's log",
+        arguments: [{ name: 'entry', required: true }],
+        template: 'Append {{entry}} to the daily log'
+      }]
+    }));
+
+    assert.deepEqual(loaded.permissions, ['READ']);
+    assert.equal(renderPrompt(loaded, { entry: 'Shipped v2' }), 'Append Shipped v2 to the daily log');
+    assert.throws(() => renderPrompt(loaded, {}), /Missing required argument\(s\) for prompt 'daily_log': entry/);
+
+    const [bare] = loadCustomPrompts(writeConfig({ prompts: [{ name: 'hello', description: 'Hi', template: 'Hello' }] }));
+    assert.deepEqual(bare.arguments, []);
+  });
+
+  it('should report unreadable, malformed and invalid configs', () => {
+    assert.throws(() => loadCustomPrompts(path.join(dir, 'missing.json')), /Failed to read prompts config/);
+    assert.throws(() => loadCustomPrompts(writeConfig('{ "prompts": [')), /is not valid JSON/);
+    assert.throws(() => loadCustomPrompts(writeConfig({ prompts: [{ name: 'x', description: 'y' }] })), /Invalid prompts config/);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Test converting CKEditor note HTML to GitHub-flavoured Markdown
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+
+import { convertHtmlToMarkdown, processContent } from '../../../../build/utils/contentProcessor.js';
+
+describe('convertHtmlToMarkdown', () => {
+
+  it('should convert headings, emphasis and external links', () => {
+    assert.equal(
+      convertHtmlToMarkdown('<h2>Plan &amp; goals</h2><p><strong>Now</strong> see <a href="https://example.org">site</a></p>'),
+      '## Plan & goals\n\n**Now** see [site](https://example.org)'
+    );
+  });
+
+  it('should turn note links into trilium: links', () => {
+    assert.equal(
+      convertHtmlToMarkdown('<p><a class="reference-link" href="#root/abc/def123">Budget</a></p>'),
+      '[Budget](trilium:def123)'
+    );
+  });
+
+  it('should keep task lists, nested lists and code block languages', () => {
+    const html = '<ul class="todo-list"><li><label class="todo-list__label"><input type="checkbox" checked="checked" disabled="disabled">'
+      + '<span class="todo-list__label__description">Done</span></label></li><li><label class="todo-list__label">'
+      + '<input type="checkbox" disabled="disabled"><span class="todo-list__label__description">Open</span></label></li></ul>'
+      + '<ol><li>one<ul><li>nested</li></ul></li><li>two</li></ol>'
+      + '<pre><code class="language-application-javascript-env-frontend">if (a &lt; b) {}\n</code></pre>';
+
+    assert.equal(
+      convertHtmlToMarkdown(html),
+      '- [x] Done\n- [ ] Open\n\n1. one\n   - nested\n2. two\n\n```javascript\nif (a < b) {}\n```'
+    );
+  });
+
+  it('should convert tables with the first row as header', () => {
+    const html = '<figure class="table"><table><tbody><tr><td>A</td><td>B|C</td></tr><tr><td><strong>1</strong></td><td>2</td></tr></tbody></table></figure>';
+
+    assert.equal(convertHtmlToMarkdown(html), '| A | B\\|C |\n| --- | --- |\n| **1** | 2 |');
+  });
+
+  it('should convert inline and display math', () => {
+    assert.equal(
+      convertHtmlToMarkdown('<p>Energy <span class="math-tex">\\(E=mc^2\\)</span></p><span class="math-tex">\\[\\sum_i x_i\\]</span>'),
+      'Energy $E=mc^2$\n\n$$\n\\sum_i x_i\n$$'
+    );
+  });
+
+  it('should turn trilium: links back into note links when processing Markdown', async () => {
+    const { content } = await processContent('See [Budget](trilium:def123)', 'text');
+
+    assert.equal(content.trim(), '<p>See <a class="reference-link" href="#root/def123">Budget</a></p>');
+  });
+});
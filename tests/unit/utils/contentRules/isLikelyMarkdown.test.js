@@ -0,0 +1,35 @@
+/**
+ * Test Markdown detection, which decides whether text note content is converted or wrapped in <p>
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+
+import { isLikelyMarkdown, validateContentForNoteType } from '../../../../build/utils/contentRules.js';
+
+describe('isLikelyMarkdown', () => {
+
+  it('should detect block and inline Markdown', () => {
+    for (const content of ['# Notes', '- item', '1. first', '> quote', 'a **bold** word', 'an *emphasised* word', 'an _emphasised_ word', 'see [site](https://example.org)', 'run `npm test`']) {
+      assert.equal(isLikelyMarkdown(content), true, content);
+    }
+  });
+
+  it('should not treat arithmetic or snake_case names as emphasis', () => {
+    for (const content of ['2 * 3 * 4 = 24', 'set max_file_size and min_file_size', 'Hello world']) {
+      assert.equal(isLikelyMarkdown(content), false, content);
+    }
+  });
+});
+
+describe('validateContentForNoteType', () => {
+
+  it('should leave Markdown text notes for conversion and wrap plain text', async () => {
+    const markdown = await validateContentForNoteType('# Notes\n\nBody', 'text');
+    assert.equal(markdown.valid, true);
+    assert.equal(markdown.content, '# Notes\n\nBody');
+
+    const plain = await validateContentForNoteType('set max_file_size', 'text');
+    assert.equal(plain.content, '<p>set max_file_size</p>');
+  });
+});
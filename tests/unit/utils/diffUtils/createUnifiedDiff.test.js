@@ -0,0 +1,59 @@
+/**
+ * Test unified diff generation for edit previews
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+
+import { createUnifiedDiff } from '../../../../build/utils/diffUtils.js';
+
+describe('createUnifiedDiff', () => {
+
+  it('should return an empty string when nothing changes', () => {
+    assert.equal(createUnifiedDiff('a\nb\n', 'a\nb\n'), '');
+  });
+
+  it('should produce a hunk with context around a changed line', () => {
+    const diff = createUnifiedDiff('1\n2\n3\n4\n5\n6\n7\n8\n', '1\n2\n3\n4\nfive\n6\n7\n8\n', { oldLabel: 'old', newLabel: 'new' });
+
+    assert.equal(diff, [
+      '--- old',
+      '+++ new',
+      '@@ -2,7 +2,7 @@',
+      ' 2',
+      ' 3',
+      ' 4',
+      '-5',
+      '+five',
+      ' 6',
+      ' 7',
+      ' 8'
+    ].join('\n'));
+  });
+
+  it('should split separate changes into separate hunks', () => {
+    const oldText = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n');
+    const newText = oldText.replace('line 2\n', 'line two\n').replace('line 18', 'line eighteen');
+
+    const hunks = createUnifiedDiff(oldText, newText).split('\n').filter(line => line.startsWith('@@'));
+
+    assert.deepEqual(hunks, ['@@ -1,5 +1,5 @@', '@@ -15,6 +15,6 @@']);
+  });
+
+  it('should report pure insertions with an empty old range', () => {
+    const diff = createUnifiedDiff('', 'new line\n');
+
+    assert.match(diff, /@@ -0,0 \+1 @@\n\+new line/);
+  });
+
+  it('should diff single-line HTML per block element when splitHtml is set', () => {
+    const diff = createUnifiedDiff(
+      '<h2>Notes</h2><p>First</p><p>Second</p>',
+      '<h2>Notes</h2><p>First</p><p>Changed</p>',
+      { splitHtml: true }
+    );
+
+    assert.match(diff, /\n-<p>Second<\/p>\n\+<p>Changed<\/p>$/);
+    assert.match(diff, /\n <p>First<\/p>\n/);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Test mapping YAML frontmatter to note title and attributes, and back
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+
+import { parseFrontmatter, buildFrontmatter } from '../../../../build/utils/frontmatterUtils.js';
+
+describe('parseFrontmatter', () => {
+
+  it('should split title, labels and relations off the body', () => {
+    const parsed = parseFrontmatter([
+      '---',
+      'title: Weekly Review',
+      'tags: [work, review]',
+      'status: draft',
+      'archived:',
+      '~author: "[[Jane Doe]]"',
+      '---',
+      '# Notes',
+      ''
+    ].join('\n'));
+
+    assert.equal(parsed.title, 'Weekly Review');
+    assert.equal(parsed.body, '# Notes\n');
+    assert.deepEqual(parsed.labels, [
+      { name: 'tags', value: 'work' },
+      { name: 'tags', value: 'review' },
+      { name: 'status', value: 'draft' },
+      { name: 'archived', value: '' }
+    ]);
+    assert.deepEqual(parsed.relations, [{ name: 'author', targetTitle: 'Jane Doe' }]);
+  });
+
+  it('should return null without a leading block and reject invalid YAML', () => {
+    assert.equal(parseFrontmatter('# Title\n---\na: 1\n---\n'), null);
+    assert.throws(() => parseFrontmatter('---\na: [1\n---\nbody'), /Invalid YAML frontmatter/);
+    assert.throws(() => parseFrontmatter('---\n- a\n- b\n---\nbody'), /expected key\/value pairs/);
+  });
+
+  it('should turn keys into valid attribute names and objects into JSON', () => {
+    const parsed = parseFrontmatter('﻿---\r\nreading time: 5\r\nmeta: {a: 1}\r\n---\r\nbody');
+
+    assert.equal(parsed.body, 'body');
+    assert.deepEqual(parsed.labels, [
+      { name: 'reading_time', value: '5' },
+      { name: 'meta', value: '{"a":1}' }
+    ]);
+  });
+});
+
+describe('buildFrontmatter', () => {
+
+  it('should round-trip through parseFrontmatter', () => {
+    const attributes = {
+      title: 'Weekly Review',
+      labels: [
+        { name: 'tags', value: 'work' },
+        { name: 'tags', value: 'review' },
+        { name: 'archived', value: '' }
+      ],
+      relations: [{ name: 'author', targetTitle: 'Jane Doe' }]
+    };
+    const parsed = parseFrontmatter(buildFrontmatter(attributes) + 'body');
+
+    assert.deepEqual({ title: parsed.title, labels: parsed.labels, relations: parsed.relations }, attributes);
+    assert.equal(parsed.body, 'body');
+  });
+
+  it('should return an empty string when there is nothing to write', () => {
+    assert.equal(buildFrontmatter({ labels: [], relations: [] }), '');
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Test typo-tolerant title scoring
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+
+import { MIN_FUZZY_SCORE, MIN_SUBSTRING_SCORE, editDistance, foldText, scoreFuzzyMatch } from '../../../../build/utils/fuzzyMatch.js';
+
+describe('foldText', () => {
+  it('should strip diacritics, case and punctuation', () => {
+    assert.equal(foldText('  Café Crème — Notes!'), 'cafe creme notes');
+    assert.equal(foldText('Straße'), 'straße');
+  });
+});
+
+describe('editDistance', () => {
+  it('should count insertions, deletions and substitutions', () => {
+    assert.equal(editDistance('meting', 'meeting'), 1);
+    assert.equal(editDistance('kitten', 'sitting'), 3);
+    assert.equal(editDistance('', 'abc'), 3);
+  });
+
+  it('should count an adjacent transposition as one edit', () => {
+    assert.equal(editDistance('notse', 'notes'), 1);
+    assert.equal(editDistance('wrok', 'work'), 1);
+  });
+});
+
+describe('scoreFuzzyMatch', () => {
+  it('should score equal text after folding as 1', () => {
+    assert.equal(scoreFuzzyMatch('cafe notes', 'Café Notes'), 1);
+  });
+
+  it('should rank prefixes above substrings above fuzzy matches', () => {
+    const prefix = scoreFuzzyMatch('meeting', 'Meeting Notes');
+    const substring = scoreFuzzyMatch('notes', 'Meeting Notes');
+    const typo = scoreFuzzyMatch('meting notse', 'Meeting Notes');
+
+    assert.ok(prefix < 1 && prefix > substring, `${prefix} > ${substring}`);
+    assert.ok(substring > typo, `${substring} > ${typo}`);
+    assert.ok(substring >= MIN_SUBSTRING_SCORE && typo < MIN_SUBSTRING_SCORE, `${substring} >= ${MIN_SUBSTRING_SCORE} > ${typo}`);
+    assert.ok(typo >= MIN_FUZZY_SCORE, `${typo} >= ${MIN_FUZZY_SCORE}`);
+  });
+
+  it('should match abbreviations and reordered words', () => {
+    assert.ok(scoreFuzzyMatch('ProjX', 'ProjectX') >= MIN_FUZZY_SCORE);
+    assert.ok(scoreFuzzyMatch('notes meeting', 'Meeting Notes') >= MIN_FUZZY_SCORE);
+    assert.ok(scoreFuzzyMatch('ProjX', 'ProjectX') > scoreFuzzyMatch('ProjX', 'ProjectX Old'));
+  });
+
+  it('should not match unrelated titles', () => {
+    assert.ok(scoreFuzzyMatch('meting notse', 'Budget 2024') < MIN_FUZZY_SCORE);
+    assert.ok(scoreFuzzyMatch('ProjX', 'Project Y') < MIN_FUZZY_SCORE);
+    assert.equal(scoreFuzzyMatch('', 'Notes'), 0);
+  });
+});
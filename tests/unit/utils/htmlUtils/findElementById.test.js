@@ -0,0 +1,29 @@
+/**
+ * Test locating elements by id in note HTML
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+
+import { findElementById } from '../../../../build/utils/htmlUtils.js';
+
+describe('findElementById', () => {
+
+  it('should span the element up to its matching closing tag', () => {
+    const html = '<p>a</p><div id="box"><div><p>b</p></div><br></div><p>c</p>';
+    const { start, end } = findElementById(html, 'box');
+
+    assert.equal(html.slice(start, end), '<div id="box"><div><p>b</p></div><br></div>');
+  });
+
+  it('should handle void elements and single quotes', () => {
+    const html = "<p>a<img id='pic' src='x.png'>b</p>";
+    const { start, end } = findElementById(html, 'pic');
+
+    assert.equal(html.slice(start, end), "<img id='pic' src='x.png'>");
+  });
+
+  it('should not match ids that merely contain the name', () => {
+    assert.equal(findElementById('<p id="box2">x</p><p data-id="box">y</p>', 'box'), null);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Test heading outline parsing and heading path matching
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+
+import { parseHeadingOutline, findSections, htmlToPlainText } from '../../../../build/utils/htmlUtils.js';
+
+const html = [
+  '<h2>Agenda</h2><p>Intro</p>',
+  '<h2>Decisions</h2>',
+  '<h3>2024-Q2</h3><p>Old</p>',
+  '<h3>2024-Q3</h3><ul><li>Ship it</li></ul>',
+  '<table><tr><td><h3>Not a section</h3></td></tr></table>',
+  '<h2>Actions &amp; owners</h2><p>Tasks</p>'
+].join('');
+
+describe('parseHeadingOutline', () => {
+
+  it('should list top-level headings with their paths', () => {
+    const outline = parseHeadingOutline(html);
+
+    assert.deepEqual(outline.map(s => s.path.join(' > ')), [
+      'Agenda',
+      'Decisions',
+      'Decisions > 2024-Q2',
+      'Decisions > 2024-Q3',
+      'Actions & owners'
+    ]);
+  });
+
+  it('should end a section at the next heading of the same or a higher level', () => {
+    const outline = parseHeadingOutline(html);
+    const decisions = outline[1];
+    const q3 = outline[3];
+    const actionsStart = html.indexOf('<h2>Actions');
+
+    assert.equal(decisions.end, actionsStart);
+    assert.equal(q3.end, actionsStart);
+    assert.equal(html.slice(q3.start, q3.bodyStart), '<h3>2024-Q3</h3>');
+    assert.equal(outline[4].end, html.length);
+  });
+
+  it('should ignore headings inside other elements', () => {
+    assert.equal(parseHeadingOutline(html).some(s => s.title === 'Not a section'), false);
+  });
+});
+
+describe('findSections', () => {
+
+  it('should match by title alone or with enclosing headings, case-insensitively', () => {
+    const outline = parseHeadingOutline(html);
+
+    assert.equal(findSections(outline, '2024-q3').length, 1);
+    assert.equal(findSections(outline, 'Decisions > 2024-Q3')[0].title, '2024-Q3');
+    assert.equal(findSections(outline, 'Agenda > 2024-Q3').length, 0);
+  });
+
+  it('should return every candidate for an ambiguous path', () => {
+    const outline = parseHeadingOutline('<h2>A</h2><h3>Notes</h3><h2>B</h2><h3>Notes</h3>');
+
+    assert.equal(findSections(outline, 'Notes').length, 2);
+    assert.equal(findSections(outline, 'B > Notes').length, 1);
+  });
+});
+
+describe('htmlToPlainText', () => {
+
+  it('should strip tags and decode entities', () => {
+    assert.equal(htmlToPlainText('<strong>Q&amp;A</strong>&nbsp;&#8212; <em>notes</em>'), 'Q&A — notes');
+  });
+});
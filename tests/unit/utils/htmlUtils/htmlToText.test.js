@@ -0,0 +1,25 @@
+/**
+ * Test the block-preserving plain-text conversion of note HTML
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+
+import { htmlToText } from '../../../../build/utils/htmlUtils.js';
+
+describe('htmlToText', () => {
+
+  it('should put blocks on their own lines and decode entities', () => {
+    assert.equal(
+      htmlToText('<h2>Plan</h2><p>Fish &amp; <strong>chips</strong></p><p>Done</p>'),
+      'Plan\nFish & chips\nDone'
+    );
+  });
+
+  it('should prefix list items and separate table cells', () => {
+    assert.equal(
+      htmlToText('<ul><li><p>one</p></li><li>two</li></ul><table><tr><td>A</td><td>B</td></tr></table>'),
+      '- one\n- two\nA\tB'
+    );
+  });
+});
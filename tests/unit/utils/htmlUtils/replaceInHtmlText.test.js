@@ -0,0 +1,47 @@
+/**
+ * Test search and replace restricted to the text nodes of HTML
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+
+import { replaceInHtmlText } from '../../../../build/utils/htmlUtils.js';
+
+describe('replaceInHtmlText', () => {
+
+  it('should never match tag or attribute names', () => {
+    const html = '<p class="note">A p class</p>';
+    const result = replaceInHtmlText(html, /class|p/g, 'X');
+
+    assert.equal(result.content, '<p class="note">A X X</p>');
+    assert.equal(result.replacements, 2);
+  });
+
+  it('should match phrases split by inline tags and keep the tags', () => {
+    const html = '<p>the <strong>quick</strong> fox</p>';
+    const result = replaceInHtmlText(html, /the quick/g, 'a slow');
+
+    assert.equal(result.content, '<p>a slow<strong></strong> fox</p>');
+  });
+
+  it('should decode entities for matching and escape the replacement', () => {
+    const html = '<p>Tom &amp; Jerry&nbsp;show</p>';
+    const result = replaceInHtmlText(html, /Tom & Jerry show/g, '<Tom> & $&');
+
+    assert.equal(result.content, '<p>&lt;Tom&gt; &amp; Tom &amp; Jerry show</p>');
+  });
+
+  it('should expand capture groups and honour a non-global pattern', () => {
+    const html = '<p>2024-01</p><p>2024-02</p>';
+
+    assert.equal(replaceInHtmlText(html, /(\d{4})-(\d{2})/g, '$2/$1').content, '<p>01/2024</p><p>02/2024</p>');
+    assert.equal(replaceInHtmlText(html, /(\d{4})-(\d{2})/, '$2/$1').replacements, 1);
+  });
+
+  it('should separate blocks with a newline', () => {
+    const html = '<p>end</p><p>start</p>';
+
+    assert.equal(replaceInHtmlText(html, /endstart/g, 'x').replacements, 0);
+    assert.equal(replaceInHtmlText(html, /end\nstart/g, 'x').content, '<p>x</p><p></p>');
+  });
+});
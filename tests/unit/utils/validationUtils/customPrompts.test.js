@@ -0,0 +1,74 @@
+/**
+ * Test custom prompts config validation
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+
+import { customPromptsConfigSchema, safeValidate } from '../../../../build/utils/validationUtils.js';
+
+describe('Custom Prompts Config Validation', () => {
+
+  it('should accept a minimal prompt definition', () => {
+    const result = safeValidate(customPromptsConfigSchema, {
+      prompts: [
+        { name: "daily_log", description: "Append to today's log", template: "Append {{entry}} to the daily log" }
+      ]
+    });
+
+    assert.equal(result.success, true);
+    assert.equal(result.data.prompts[0].name, "daily_log");
+  });
+
+  it('should accept arguments and permissions', () => {
+    const result = safeValidate(customPromptsConfigSchema, {
+      prompts: [
+        {
+          name: "daily_log",
+          description: "Append to today's log",
+          arguments: [{ name: "entry", description: "Text to append", required: true }],
+          permissions: ["READ", "WRITE"],
+          template: "Append {{entry}} to the daily log"
+        }
+      ]
+    });
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.data.prompts[0].permissions, ["READ", "WRITE"]);
+  });
+
+  it('should reject prompts without template', () => {
+    const result = safeValidate(customPromptsConfigSchema, {
+      prompts: [{ name: "daily_log", description: "Append to today's log" }]
+    });
+
+    assert.equal(result.success, false);
+    assert.match(result.error, /template/);
+  });
+
+  it('should reject argument names that cannot be used as placeholders', () => {
+    const result = safeValidate(customPromptsConfigSchema, {
+      prompts: [
+        {
+          name: "daily_log",
+          description: "Append to today's log",
+          arguments: [{ name: "log entry" }],
+          template: "Append {{log entry}}"
+        }
+      ]
+    });
+
+    assert.equal(result.success, false);
+    assert.match(result.error, /Argument name/);
+  });
+
+  it('should reject unknown permissions', () => {
+    const result = safeValidate(customPromptsConfigSchema, {
+      prompts: [
+        { name: "daily_log", description: "Append", permissions: ["ADMIN"], template: "x" }
+      ]
+    });
+
+    assert.equal(result.success, false);
+  });
+});
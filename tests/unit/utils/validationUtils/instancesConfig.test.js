@@ -0,0 +1,63 @@
+/**
+ * Test multi-instance config validation
+ */
+
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+
+import { instancesConfigSchema, safeValidate } from '../../../../build/utils/validationUtils.js';
+
+describe('Instances Config Validation', () => {
+
+  it('should accept instances with inline token or tokenEnv', () => {
+    const result = safeValidate(instancesConfigSchema, {
+      defaultInstance: "personal",
+      instances: {
+        personal: { url: "http://localhost:8080/etapi", token: "abc", permissions: "READ;WRITE" },
+        team: { url: "https://trilium.example.com/etapi", tokenEnv: "TEAM_TRILIUM_TOKEN", permissions: "READ" }
+      }
+    });
+
+    assert.equal(result.success, true);
+    assert.equal(result.data.defaultInstance, "personal");
+  });
+
+  it('should reject an instance without token or tokenEnv', () => {
+    const result = safeValidate(instancesConfigSchema, {
+      instances: {
+        personal: { url: "http://localhost:8080/etapi" }
+      }
+    });
+
+    assert.equal(result.success, false);
+    assert.match(result.error, /token/);
+  });
+
+  it('should reject a defaultInstance that is not configured', () => {
+    const result = safeValidate(instancesConfigSchema, {
+      defaultInstance: "work",
+      instances: {
+        personal: { url: "http://localhost:8080/etapi", token: "abc" }
+      }
+    });
+
+    assert.equal(result.success, false);
+    assert.match(result.error, /defaultInstance/);
+  });
+
+  it('should reject invalid permissions', () => {
+    const result = safeValidate(instancesConfigSchema, {
+      instances: {
+        personal: { url: "http://localhost:8080/etapi", token: "abc", permissions: "READ,WRITE" }
+      }
+    });
+
+    assert.equal(result.success, false);
+  });
+
+  it('should reject an empty instances map', () => {
+    const result = safeValidate(instancesConfigSchema, { instances: {} });
+
+    assert.equal(result.success, false);
+  });
+});